@@ -10,6 +10,12 @@ const nextConfig: NextConfig = {
         port: '', // Usually empty for standard https port 443
         pathname: '/a/**', // Allows any path starting with /a/ which Google uses
       },
+      {
+        protocol: 'https',
+        hostname: 'i.ytimg.com', // YouTube video thumbnails, in playlists
+        port: '',
+        pathname: '/vi/**',
+      },
       // Add other domains if needed
     ],
   },
@@ -0,0 +1,58 @@
+// FILE: src/app/api/chapters/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getQuotaStatus, isQuotaExhausted, quotaExceededResponse, recordUsage } from '@/app/lib/quota';
+import { getChatModelProvider } from '@/utils/llm';
+import { createUsageTally, withUsageListener } from '@/utils/llm/usage';
+import { getTranscript } from '@/utils/transcript';
+import { getGeneratedChapters } from '@/utils/chapters/generate';
+
+/**
+ * Chapters generated from the transcript, for videos whose description has none
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+  // The tokens of the generation count toward the daily quota; cached chapters cost nothing
+  const quota = await getQuotaStatus(auth.supabase, auth.user.id);
+  if (isQuotaExhausted(quota)) return quotaExceededResponse(quota);
+
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
+  const title = searchParams.get('title') || 'Untitled video';
+  const lang = searchParams.get('lang') || undefined;
+
+  if (!videoId) {
+    return NextResponse.json(
+      { message: 'Missing videoId query parameter.' },
+      { status: 400 }
+    );
+  }
+
+  const transcript = await getTranscript(videoId, { lang });
+  if (!transcript || transcript.length === 0) {
+    return NextResponse.json(
+      { message: 'No transcript is available for this video.', error: 'TRANSCRIPT_UNAVAILABLE' },
+      { status: 404 }
+    );
+  }
+
+  const tally = createUsageTally();
+  const provider = withUsageListener(getChatModelProvider(), tally.onUsage);
+  const chapters = await getGeneratedChapters(provider, videoId, title, transcript, lang);
+  await recordUsage(auth.supabase, auth.user.id, tally.usage);
+  if (!chapters) {
+    return NextResponse.json(
+      { message: 'Chapters could not be generated for this video.', error: 'CHAPTERS_UNAVAILABLE' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({ chapters, source: 'generated' }, {
+    status: 200,
+    headers: {
+      'Cache-Control': 'private, max-age=3600' // Behind sign-in, so not for shared caches
+    }
+  });
+}
@@ -1,40 +1,71 @@
 // FILE: src/app/api/chat/route.ts
 
 import { type NextRequest } from 'next/server';
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
 import { formatTime } from '@/utils/formatters';
-import { getTranscript, getTranscriptSnippet, extractTimestamps } from '@/utils/transcript';
+import { ONE_HOUR_SECONDS, formatTimeRange, formatVideoTag } from '@/utils/timestamps';
+import { findCurrentChapter, formatChapterList } from '@/utils/chapters';
+import { getChatModelProvider } from '@/utils/llm';
+import { sanitizePersona, type PersonaSettings } from '@/utils/personas';
+import type { Chapter, ConversationSummary, TranscriptEntry } from '@/types';
+import { getTranscriptRecord, getTranscriptSnippet, getTranscriptRange, extractTimestamps, getTranscriptDuration, type TimestampReference, retrieveRelevantPassages, formatPassagesForPrompt, describeTranscriptSource } from '@/utils/transcript';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getQuotaStatus, isQuotaExhausted, quotaExceededResponse } from '@/app/lib/quota';
+import { streamChatResponse, type ClientChatTurn } from '@/app/lib/chatResponse';
+
+interface ChatVideoDetails {
+  title: string;
+  description: string;
+  durationSeconds?: number;
+  chapters?: Chapter[]; // From the description, or generated from the transcript
+}
 
 interface ChatRequestBody {
   userMessage: string;
-  chatHistory: Array<{
-    role: string;
-    parts: Array<{text: string}>;
-  }>;
-  videoDetails: {
-    title: string;
-    description: string;
-  };
+  chatHistory: ClientChatTurn[];
+  videoDetails: ChatVideoDetails;
   videoId: string;
-  timestamp?: number; 
+  timestamp?: number; // Current player position in seconds
+  lang?: string; // Caption track language code selected on the video page
+  historySummary?: ConversationSummary | null; // Summary returned with the previous answer
+  videos?: Array<{ videoId: string; videoDetails: ChatVideoDetails }>; // Other videos to compare with, tagged V2, V3...
+  persona?: PersonaSettings | null; // Answer style chosen for the conversation; the default when missing
 }
 
-const MODEL_NAME = "gemini-2.0-flash";
-const API_KEY = process.env.GEMINI_API_KEY;
+/**
+ * One attached video of a multi-video conversation, with its transcript
+ */
+interface ConversationVideo {
+  tag: string; // "V2", "V3"...
+  videoId: string;
+  details: ChatVideoDetails;
+  transcript: TranscriptEntry[] | null;
+  transcriptSource: string | null;
+  durationSeconds: number;
+  isLongVideo: boolean;
+}
 
-const ai = new GoogleGenAI({ apiKey: API_KEY as string });
+const RETRIEVAL_TOP_K = 3; // Number of transcript passages retrieved for each question
+const RETRIEVAL_TOP_K_PER_VIDEO = 2; // With several videos, so that every video is represented
+const MAX_ATTACHED_VIDEOS = 3;
 
 export async function POST(request: NextRequest) {
-  if (!API_KEY) {
+  const provider = getChatModelProvider();
+  if (!provider.isConfigured()) {
     return new Response(
-      JSON.stringify({ message: 'AI Service is not configured. Missing API key.' }),
+      JSON.stringify({ message: `AI Service is not configured. Missing API key for the ${provider.name} provider.` }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
   }
 
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+  const quotaBefore = await getQuotaStatus(auth.supabase, auth.user.id);
+  if (isQuotaExhausted(quotaBefore)) return quotaExceededResponse(quotaBefore);
+
   try {
     const body = await request.json() as ChatRequestBody;
-    const { userMessage, chatHistory = [], videoDetails, timestamp, videoId } = body;
+    const { userMessage, chatHistory = [], videoDetails, timestamp, videoId, lang, historySummary, videos = [] } = body;
+    const persona = body.persona ? sanitizePersona(body.persona) : null;
 
     if (!userMessage || !videoDetails) {
       return new Response(
@@ -43,162 +74,197 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const chat = ai.chats.create({
-      model: MODEL_NAME,
-      history: chatHistory,
-      config: {
-        systemInstruction: `You are a helpful AI assistant chatting with a user about the YouTube video titled "${videoDetails.title}".
+    // Fetch transcript if available, in the selected language track
+    const transcriptRecord = await getTranscriptRecord(videoId, { lang });
+    const transcript = transcriptRecord ? transcriptRecord.entries : null;
+    const transcriptLang = transcriptRecord ? transcriptRecord.lang : null;
+    const transcriptSource = transcriptRecord ? transcriptRecord.source : null;
+    
+    // Videos of an hour or more need the H:MM:SS format everywhere
+    const durationSeconds = videoDetails.durationSeconds || (transcript ? getTranscriptDuration(transcript) : 0);
+    const isLongVideo = durationSeconds >= ONE_HOUR_SECONDS;
+    const timeFormat = isLongVideo ? 'H:MM:SS' : 'MM:SS';
+    const timeExamples = isLongVideo ? '[0:01:23], [0:45:10], [1:35:12]' : '[01:23], [00:45], [12:34]';
+    const rangeExample = isLongVideo ? '[0:12:30-0:14:05]' : '[12:30-14:05]';
+    const exampleTime = isLongVideo ? '0:01:23' : '01:23';
+    const chapters = Array.isArray(videoDetails.chapters) ? videoDetails.chapters : [];
+
+    // Videos attached for comparison use their default caption track
+    const attachedRequests = (Array.isArray(videos) ? videos : [])
+      .filter(video => video?.videoId && video.videoDetails && video.videoId !== videoId)
+      .slice(0, MAX_ATTACHED_VIDEOS);
+    const attachedRecords = await Promise.all(attachedRequests.map(video => getTranscriptRecord(video.videoId)));
+    const attachedVideos: ConversationVideo[] = attachedRequests.map((video, index) => {
+      const record = attachedRecords[index];
+      const attachedDuration = video.videoDetails.durationSeconds || (record ? getTranscriptDuration(record.entries) : 0);
+      return {
+        tag: formatVideoTag(index + 1),
+        videoId: video.videoId,
+        details: video.videoDetails,
+        transcript: record ? record.entries : null,
+        transcriptSource: record ? record.source : null,
+        durationSeconds: attachedDuration,
+        isLongVideo: attachedDuration >= ONE_HOUR_SECONDS,
+      };
+    });
+    const isMultiVideo = attachedVideos.length > 0;
+
+    const systemInstruction = `You are a helpful AI assistant chatting with a user about the YouTube video titled "${videoDetails.title}".
 
 VIDEO DETAILS:
 - Title: ${videoDetails.title}
 - Video ID: ${videoId}
-- Description: ${videoDetails.description} (May contain timestamps like [MM:SS] Topic)
+- Description: ${videoDetails.description} (May contain timestamps like [MM:SS] Topic)${durationSeconds ? `\n- Duration: ${formatTime(durationSeconds)}` : ''}${chapters.length > 0 ? `\n- Chapters:\n${formatChapterList(chapters, isLongVideo)}` : ''}
 
 YOUR TASK:
 - Engage in a natural conversation about the video.
 - Answer the user's questions directly and concisely.
-- Use information from the video description and provided transcript snippets.
+- Use information from the video description and provided transcript snippets and passages.
+- Transcript passages are retrieved by relevance to the question; each starts with its [${timeFormat}] anchor. Cite those anchors when you use a passage.
 - **Avoid repeating information** already discussed in the conversation history.
 
 TIMESTAMP FORMATTING - EXTREMELY IMPORTANT:
-- When referring to specific moments in the video, you MUST ONLY use the exact [MM:SS] format (e.g., [01:23], [00:45], [12:34]).
-- Example: If you are given context like "TRANSCRIPT SNIPPET AROUND [01:23]: The speaker discusses...", you MUST use [01:23] in your response if referring to that moment.
-- NEVER use any other format like 'TIMESTAMP_X', 'at X minutes', or any other variation.
-- NEVER use the word 'TIMESTAMP' in your responses at all.
-- If you're unsure about a specific timestamp, use the [MM:SS] format from the nearest known time.
+- When referring to specific moments in the video, you MUST ONLY use the exact [${timeFormat}] format (e.g., ${timeExamples}).${isLongVideo ? `
+- This video is longer than an hour, so ALWAYS include the hour, even when it is zero (e.g., [0:05:30], never [05:30] or [95:12]).` : ''}
+- Example: If you are given context like "TRANSCRIPT SNIPPET AROUND [${exampleTime}]: The speaker discusses...", you MUST use [${exampleTime}] in your response if referring to that moment.
+- When referring to a segment rather than a single moment, use a range with both ends in the same format (e.g., ${rangeExample}).
+- If you're unsure about a specific timestamp, use the [${timeFormat}] format from the nearest known time.
 
-This timestamp formatting requirement is critical for the application to function correctly.
-
-If the user provides a timestamp like [MM:SS], focus your answer on the content around that specific time using the provided transcript snippets.
+If the user provides a timestamp like [${timeFormat}], focus your answer on the content around that specific time using the provided transcript snippets.
+If the user provides a range like ${rangeExample}, focus your answer on that whole segment using the provided segment transcript.
 
 - **Do not start your response with 'At [timestamp]'** unless absolutely necessary for clarity regarding a time-specific query.
 - Use bullet points sparingly, only for lists or clear organization.
 - If unsure about something or if the transcript doesn't cover a specific time, clearly state that.
-- Keep your tone friendly and helpful.`,
-        maxOutputTokens: 1500,
-        temperature: 0.3,
-        topP: 0.8,
-        topK: 40,
-        safetySettings: [
-          { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-          { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-          { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-          { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        ],
-      },
-    });
+- If no transcript is available, say that your answer is based only on the title and description.
+- The transcript language track is given with the transcript context. If it differs from the language of the question, quote the transcript in its original language and answer in the language of the question.
+- Keep your tone friendly and helpful.`;
+
+    // Several videos: describe the others and make every timestamp say which video it belongs to
+    const multiVideoInstruction = isMultiVideo ? `
+
+OTHER VIDEOS IN THIS CONVERSATION (the user wants to compare them with the main video above):
+${attachedVideos.map(video => `- ${video.tag}: "${video.details.title}" (Video ID: ${video.videoId}${video.durationSeconds ? `, Duration: ${formatTime(video.durationSeconds)}` : ''})${video.isLongVideo ? ' - longer than an hour, so ALWAYS include the hour in its timestamps' : ''}${Array.isArray(video.details.chapters) && video.details.chapters.length > 0 ? `\n  Chapters:\n${formatChapterList(video.details.chapters, video.isLongVideo).split('\n').map(line => `  ${line}`).join('\n')}` : ''}`).join('\n')}
+
+SEVERAL VIDEOS - EXTREMELY IMPORTANT:
+- The main video is V1; the others are ${attachedVideos.map(video => video.tag).join(', ')}.
+- EVERY timestamp MUST start with the tag of its video inside the brackets, e.g. [V1 ${exampleTime}] or [V2 ${rangeExample.replace(/^\[|\]$/g, '')}]. Never write a timestamp without its tag.
+- Transcript passages and snippets are labeled with their video; only cite a video's own times.
+- When comparing, say which video each point comes from, and point out where the videos agree or differ.` : '';
 
-    // Fetch transcript if available
-    const transcript = await getTranscript(videoId);
-    
     // Prepare transcript context
-    let transcriptContext = '';
-    let timestampsToCheck: number[] = [];
+    const hasTranscript = !!transcriptSource || attachedVideos.some(video => video.transcriptSource);
+    let transcriptContext = transcriptSource
+      ? `\n\nTRANSCRIPT SOURCE: ${describeTranscriptSource(transcriptSource)}${transcriptLang ? `\nTRANSCRIPT TRACK: ${transcriptLang}` : ''}`
+      : '\n\nNO TRANSCRIPT AVAILABLE: answer from the title and description only.';
+    // Tell the model which chapter the viewer is watching, so "this part" has a topic
+    const currentChapter = timestamp !== undefined ? findCurrentChapter(chapters, timestamp) : null;
+    if (currentChapter) {
+      transcriptContext += `\n\nCURRENT CHAPTER: "${currentChapter.title}" (starts at [${formatTime(currentChapter.start, isLongVideo)}])`;
+    }
+    // The main video is V1; timestamps without a tag refer to it
+    const transcriptSources = [
+      { tag: formatVideoTag(0), title: videoDetails.title, transcript, isLongVideo },
+      ...attachedVideos.map(video => ({ tag: video.tag, title: video.details.title, transcript: video.transcript, isLongVideo: video.isLongVideo })),
+    ];
+    const tagPrefix = (tag: string) => (isMultiVideo ? `${tag} ` : '');
+    for (const video of attachedVideos) {
+      transcriptContext += video.transcriptSource
+        ? `\n${video.tag} TRANSCRIPT SOURCE: ${describeTranscriptSource(video.transcriptSource)}`
+        : `\n${video.tag}: NO TRANSCRIPT AVAILABLE, answer about it from its title only.`;
+    }
+    let timestampsToCheck: TimestampReference[] = [];
     
-    // Check for explicit timestamp in the request
+    // Check for explicit timestamp in the request (the player position, in seconds)
     if (timestamp !== undefined) {
-      timestampsToCheck.push(timestamp);
+      timestampsToCheck.push({ startMs: timestamp * 1000 });
     }
     
-    // Also check for timestamps mentioned in the message
+    // Also check for timestamps and ranges mentioned in the message
     const mentionedTimestamps = extractTimestamps(userMessage);
     if (mentionedTimestamps.length > 0) {
       timestampsToCheck = [...timestampsToCheck, ...mentionedTimestamps];
     }
     
     // Get transcript snippets for all relevant timestamps
-    if (transcript && timestampsToCheck.length > 0) {
+    if (timestampsToCheck.length > 0) {
       // Deduplicate timestamps
-      const uniqueTimestamps = [...new Set(timestampsToCheck)];
+      const uniqueTimestamps = [...new Map(timestampsToCheck.map(ref => [`${ref.video ?? 1}-${ref.startMs}-${ref.endMs ?? ''}`, ref])).values()];
       
       // Get snippets for each timestamp and combine them
-      const snippets = uniqueTimestamps.map(ts => {
-        const formattedTime = formatTime(ts / 1000); // Corrected: Convert ms to seconds
-        const snippet = getTranscriptSnippet(transcript, ts);
+      const snippets = uniqueTimestamps.map(({ startMs, endMs, video }) => {
+        const source = transcriptSources[(video ?? 1) - 1];
+        if (!source?.transcript) return '';
+
+        if (endMs !== undefined) {
+          // A range pulls in the transcript for the whole segment
+          const formattedRange = `${tagPrefix(source.tag)}${formatTimeRange({ start: startMs / 1000, end: endMs / 1000 }, source.isLongVideo)}`;
+          const segment = getTranscriptRange(source.transcript, startMs, endMs);
+          return segment ? `TRANSCRIPT FOR THE SEGMENT [${formattedRange}]:\n"${segment}"\n(This is everything said during [${formattedRange}])` : '';
+        }
+        const formattedTime = `${tagPrefix(source.tag)}${formatTime(startMs / 1000, source.isLongVideo)}`; // Convert ms to seconds
+        const snippet = getTranscriptSnippet(source.transcript, startMs);
         // Add a marker for the specific timestamp within the snippet context
         return snippet ? `TRANSCRIPT SNIPPET AROUND [${formattedTime}]:\n"${snippet}"\n(This is the text around the time [${formattedTime}])` : '';
       }).filter(Boolean);
       
       if (snippets.length > 0) {
-        transcriptContext = `\n\nRELEVANT TRANSCRIPT SECTIONS:\n${snippets.join('\n')}\n`;
+        transcriptContext += `\n\nRELEVANT TRANSCRIPT SECTIONS:\n${snippets.join('\n')}\n`;
       }
     }
     
-    // Keep the user message simple
-    const messageToSend = userMessage;
-    
-    // Construct the context to send to the AI
-    let fullContext = messageToSend;
-    if (transcriptContext) {
-        fullContext += transcriptContext;
-    }
-    
-    // Create a new ReadableStream for streaming the response
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Use streaming API
-          const streamingResponse = await chat.sendMessageStream({
-            message: fullContext, // Send the combined context
-          });
-
-          // Initialize a variable to accumulate the response text
-          let responseText = '';
-
-          // Process each chunk as it arrives
-          for await (const chunk of streamingResponse) {
-            if (chunk.text) {
-              // No post-processing - send the raw chunk text directly from the AI
-              const rawChunkText = chunk.text;
-              responseText += rawChunkText; // Accumulate raw text
-
-              controller.enqueue(
-                new TextEncoder().encode(
-                  JSON.stringify({ chunk: rawChunkText, done: false }) // Send raw chunk
-                )
-              );
-            }
-          }
-
-          // No final post-processing - use accumulated raw text
-          const finalRawResponse = responseText;
-
-          // Send a final message indicating the stream is complete
-          controller.enqueue(
-            new TextEncoder().encode(
-              // Send accumulated raw response
-              JSON.stringify({ chunk: '', done: true, fullResponse: finalRawResponse })
-            )
-          );
-
-          // Close the stream
-          controller.close();
-        } catch (error) {
-          console.error('Error in streaming response:', error);
-          controller.enqueue(
-            new TextEncoder().encode(
-              JSON.stringify({ 
-                error: error instanceof Error ? error.message : 'Unknown error during streaming', 
-                done: true 
-              })
-            )
-          );
-          controller.close();
+    // Retrieve the passages most relevant to the question, whether or not it mentions a timestamp
+    if (isMultiVideo) {
+      // Passages from every video, so that a comparison sees both sides
+      for (const source of transcriptSources) {
+        if (!source.transcript) continue;
+        const passages = retrieveRelevantPassages(source.transcript, userMessage, RETRIEVAL_TOP_K_PER_VIDEO);
+        if (passages.length > 0) {
+          transcriptContext += `\n\nTRANSCRIPT PASSAGES FROM ${source.tag} ("${source.title}") RELEVANT TO THE QUESTION:\n${formatPassagesForPrompt(passages, source.isLongVideo, source.tag)}\n`;
         }
       }
-    });
-
-    // Return the stream as the response
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'application/json',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive'
+    } else if (transcript) {
+      const passages = retrieveRelevantPassages(transcript, userMessage, RETRIEVAL_TOP_K);
+      if (passages.length > 0) {
+        transcriptContext += `\n\nTRANSCRIPT PASSAGES RELEVANT TO THE QUESTION:\n${formatPassagesForPrompt(passages, isLongVideo)}\n`;
       }
+    }
+    
+    return await streamChatResponse({
+      provider,
+      auth,
+      signal: request.signal,
+      title: videoDetails.title,
+      systemInstruction: `${systemInstruction}${multiVideoInstruction}`,
+      persona,
+      chatHistory,
+      historySummary,
+      userMessage,
+      transcriptContext,
+      hasTranscript,
+      // Tagged timestamps are checked against their own video
+      normalizer: {
+        durationSeconds: durationSeconds || undefined,
+        transcript,
+        longFormat: isLongVideo,
+        ...(isMultiVideo ? {
+          videos: [
+            { durationSeconds: durationSeconds || undefined, transcript, longFormat: isLongVideo },
+            ...attachedVideos.map(video => ({
+              durationSeconds: video.durationSeconds || undefined,
+              transcript: video.transcript,
+              longFormat: video.isLongVideo,
+            })),
+          ],
+        } : {}),
+      },
+      citationSources: [{ videoId, transcript }, ...attachedVideos.map(video => ({ videoId: video.videoId, transcript: video.transcript }))],
+      transcriptLang,
+      transcriptSource,
     });
 
   } catch (error: unknown) {
-    console.error('Error calling Gemini API:', error);
+    console.error(`Error calling the ${provider.name} chat provider:`, error);
     let errorMessage = 'Failed to get response from AI assistant.';
     let statusCode = 500;
     let errorCode = 'UNKNOWN_ERROR';
@@ -240,7 +306,7 @@ If the user provides a timestamp like [MM:SS], focus your answer on the content
       errorMessage = "There was an authentication issue with the AI service.";
       statusCode = 401;
       errorCode = 'AUTH_ERROR';
-      console.error('Authentication error with Gemini API - check your API key configuration');
+      console.error(`Authentication error with the ${provider.name} chat provider - check your API key configuration`);
     } else if (typeof error === 'object' && error !== null && 'message' in error && typeof (error as Record<string, unknown>).message === 'string') {
       errorMessage = (error as Record<string, string>).message;
     }
@@ -0,0 +1,73 @@
+// FILE: src/app/api/notes/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getQuotaStatus, isQuotaExhausted, quotaExceededResponse, recordUsage } from '@/app/lib/quota';
+import { getChatModelProvider } from '@/utils/llm';
+import { createUsageTally, withUsageListener } from '@/utils/llm/usage';
+import { getTranscript } from '@/utils/transcript';
+import { getGeneratedChapters } from '@/utils/chapters/generate';
+import { generateStudyNotes } from '@/utils/notes/generate';
+import type { Chapter, StudyNotes } from '@/types';
+
+interface NotesRequestBody {
+  videoId: string;
+  title?: string;
+  lang?: string; // Caption track language code selected on the video page
+  chapters?: Chapter[]; // Chapters shown on the video page; generated when missing
+  previous?: StudyNotes | null; // Notes to update instead of starting over
+}
+
+/**
+ * Study notes for a video, one section per chapter, reusing unchanged sections of earlier notes
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+  // The tokens of the generation count toward the daily quota; the message count is for chat only
+  const quota = await getQuotaStatus(auth.supabase, auth.user.id);
+  if (isQuotaExhausted(quota)) return quotaExceededResponse(quota);
+
+  let body: NotesRequestBody;
+  try {
+    body = await request.json() as NotesRequestBody;
+  } catch {
+    return NextResponse.json(
+      { message: 'Invalid request format.' },
+      { status: 400 }
+    );
+  }
+
+  const { videoId, title = 'Untitled video', lang, previous } = body;
+  if (!videoId) {
+    return NextResponse.json(
+      { message: 'Missing required field: videoId.' },
+      { status: 400 }
+    );
+  }
+
+  const transcript = await getTranscript(videoId, { lang });
+  if (!transcript || transcript.length === 0) {
+    return NextResponse.json(
+      { message: 'No transcript is available for this video.', error: 'TRANSCRIPT_UNAVAILABLE' },
+      { status: 404 }
+    );
+  }
+
+  const tally = createUsageTally();
+  const provider = withUsageListener(getChatModelProvider(), tally.onUsage);
+  const chapters = Array.isArray(body.chapters) && body.chapters.length > 0
+    ? body.chapters
+    : await getGeneratedChapters(provider, videoId, title, transcript, lang) || [];
+
+  const result = await generateStudyNotes(provider, videoId, title, transcript, chapters, { lang, previous });
+  await recordUsage(auth.supabase, auth.user.id, tally.usage);
+  if (!result) {
+    return NextResponse.json(
+      { message: 'Study notes could not be generated for this video.', error: 'NOTES_UNAVAILABLE' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json(result);
+}
@@ -0,0 +1,231 @@
+// FILE: src/app/api/playlist/chat/route.ts
+
+import { after, type NextRequest } from 'next/server';
+import { formatTime } from '@/utils/formatters';
+import { ONE_HOUR_SECONDS, formatTimeRange, formatVideoTag } from '@/utils/timestamps';
+import { getChatModelProvider } from '@/utils/llm';
+import type { ConversationSummary, PlaylistVideo, TranscriptEntry } from '@/types';
+import { getTranscriptRecord, getStoredTranscriptRecord, getTranscriptSnippet, getTranscriptRange, extractTimestamps, getTranscriptDuration, type TimestampReference, retrievePassagesAcrossTranscripts, formatPassagesForPrompt } from '@/utils/transcript';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getQuotaStatus, isQuotaExhausted, quotaExceededResponse } from '@/app/lib/quota';
+import { streamChatResponse, type ClientChatTurn } from '@/app/lib/chatResponse';
+
+interface PlaylistChatRequestBody {
+  userMessage: string;
+  chatHistory: ClientChatTurn[];
+  playlist: {
+    playlistId: string;
+    title: string;
+    channelTitle?: string;
+    videos: PlaylistVideo[]; // In playlist order, tagged V1, V2...
+  };
+  currentVideoId?: string; // The video in the player
+  timestamp?: number; // Player position in that video, in seconds
+  historySummary?: ConversationSummary | null; // Summary returned with the previous answer
+}
+
+/**
+ * One video of the course, with its transcript
+ */
+interface CourseVideo {
+  tag: string; // "V1", "V2"...
+  video: PlaylistVideo;
+  transcript: TranscriptEntry[] | null;
+  durationSeconds: number;
+  isLongVideo: boolean;
+}
+
+const MAX_COURSE_VIDEOS = 50; // Same cap as the playlist API
+const TRANSCRIPT_FETCH_CONCURRENCY = 5; // Transcripts fetched at once in the background, to stay polite with YouTube
+const RETRIEVAL_TOP_K = 8; // Passages retrieved across the whole course for each question
+
+/**
+ * The default transcript of every video that is already stored. Only the video being watched is fetched
+ * when missing; a question never waits on YouTube for the rest of the playlist (see warmCourseTranscripts)
+ */
+async function loadCourseTranscripts(videos: PlaylistVideo[], currentIndex: number): Promise<Array<TranscriptEntry[] | null>> {
+  const records = await Promise.all(videos.map((video, index) =>
+    (index === currentIndex ? getTranscriptRecord(video.videoId) : getStoredTranscriptRecord(video.videoId)).catch(error => {
+      console.error(`Error loading the transcript of ${video.videoId}:`, error);
+      return null;
+    })
+  ));
+  return records.map(record => record ? record.entries : null);
+}
+
+/**
+ * Fetch the transcripts that are not stored yet, a few at a time, so that later questions can use them.
+ * Videos found without a transcript recently are skipped by getTranscriptRecord.
+ */
+async function warmCourseTranscripts(videos: PlaylistVideo[]): Promise<void> {
+  for (let i = 0; i < videos.length; i += TRANSCRIPT_FETCH_CONCURRENCY) {
+    const batch = videos.slice(i, i + TRANSCRIPT_FETCH_CONCURRENCY);
+    await Promise.all(batch.map(video =>
+      getTranscriptRecord(video.videoId).catch(error => {
+        console.error(`Error loading the transcript of ${video.videoId}:`, error);
+        return null;
+      })
+    ));
+  }
+}
+
+/**
+ * Chat about a whole playlist: questions are answered from the transcripts of all its videos,
+ * and every timestamp says which video it belongs to ([V3 12:34])
+ */
+export async function POST(request: NextRequest) {
+  const provider = getChatModelProvider();
+  if (!provider.isConfigured()) {
+    return new Response(
+      JSON.stringify({ message: `AI Service is not configured. Missing API key for the ${provider.name} provider.` }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+  const quotaBefore = await getQuotaStatus(auth.supabase, auth.user.id);
+  if (isQuotaExhausted(quotaBefore)) return quotaExceededResponse(quotaBefore);
+
+  let body: PlaylistChatRequestBody;
+  try {
+    body = await request.json() as PlaylistChatRequestBody;
+  } catch {
+    return new Response(
+      JSON.stringify({ message: 'Invalid request format.', error: 'INVALID_FORMAT' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { userMessage, chatHistory = [], playlist, currentVideoId, timestamp, historySummary } = body;
+  if (!userMessage || !playlist || !Array.isArray(playlist.videos) || playlist.videos.length === 0) {
+    return new Response(
+      JSON.stringify({ message: 'Missing required fields: userMessage and playlist.' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const videos = playlist.videos.filter(video => video?.videoId).slice(0, MAX_COURSE_VIDEOS);
+    // Timestamps without a tag refer to the video being watched
+    const currentIndex = Math.max(videos.findIndex(video => video.videoId === currentVideoId), 0);
+    const transcripts = await loadCourseTranscripts(videos, currentIndex);
+    // The rest is fetched once the answer is sent, for the next questions
+    const unloaded = videos.filter((_, index) => !transcripts[index]);
+    if (unloaded.length > 0) {
+      after(() => warmCourseTranscripts(unloaded));
+    }
+    const course: CourseVideo[] = videos.map((video, index) => {
+      const transcript = transcripts[index];
+      const durationSeconds = video.durationSeconds || (transcript ? getTranscriptDuration(transcript) : 0);
+      return {
+        tag: formatVideoTag(index),
+        video,
+        transcript,
+        durationSeconds,
+        isLongVideo: durationSeconds >= ONE_HOUR_SECONDS,
+      };
+    });
+
+    const current = course[currentIndex];
+    const exampleTag = course[Math.min(2, course.length - 1)].tag;
+    const exampleTime = current.isLongVideo ? '0:12:34' : '12:34';
+    const exampleRange = current.isLongVideo ? '0:12:30-0:14:05' : '12:30-14:05';
+
+    const systemInstruction = `You are a helpful AI assistant chatting with a user about the YouTube playlist "${playlist.title}"${playlist.channelTitle ? ` by ${playlist.channelTitle}` : ''}, which they are following as a course.
+
+COURSE OUTLINE (videos in playlist order):
+${course.map(item => `- ${item.tag}: "${item.video.title}"${item.durationSeconds ? ` (${formatTime(item.durationSeconds)})` : ''}${item.transcript ? '' : ' - no transcript loaded'}${item.isLongVideo ? ' - longer than an hour, so ALWAYS include the hour in its timestamps' : ''}`).join('\n')}
+
+YOUR TASK:
+- Answer questions about the course as a whole: which video covers a topic, how topics build on each other, what to watch before what, and questions about the content itself.
+- Use the course outline and the transcript passages given with each question. Passages are retrieved by relevance from every video; each starts with its [V# MM:SS] anchor. Cite those anchors when you use a passage.
+- When asked where something is covered, name the video by its tag and title, and point to the moment with a timestamp.
+- If the passages do not cover something, say so rather than guessing from the titles.
+- **Avoid repeating information** already discussed in the conversation history.
+
+TIMESTAMP FORMATTING - EXTREMELY IMPORTANT:
+- EVERY timestamp MUST start with the tag of its video inside the brackets, e.g. [${exampleTag} ${exampleTime}] or [${exampleTag} ${exampleRange}]. Never write a timestamp without its tag.
+- Use MM:SS, or H:MM:SS for videos longer than an hour (always with the hour, even when it is zero).
+- Only cite a video's own times, taken from its passages or snippets.
+
+- Use bullet points sparingly, only for lists or clear organization.
+- The transcripts may be in another language than the question; quote them in their original language and answer in the language of the question.
+- Keep your tone friendly and helpful.`;
+
+    let transcriptContext = `\n\nCURRENTLY WATCHING: ${current.tag} ("${current.video.title}")${timestamp !== undefined ? ` at [${current.tag} ${formatTime(timestamp, current.isLongVideo)}]` : ''}`;
+
+    // Snippets around the player position and any timestamps in the question
+    const timestampsToCheck: TimestampReference[] = [
+      ...(timestamp !== undefined ? [{ startMs: timestamp * 1000 }] : []),
+      ...extractTimestamps(userMessage),
+    ];
+    const uniqueTimestamps = [...new Map(timestampsToCheck.map(ref => [`${ref.video ?? currentIndex + 1}-${ref.startMs}-${ref.endMs ?? ''}`, ref])).values()];
+    const snippets = uniqueTimestamps.map(({ startMs, endMs, video }) => {
+      const item = course[(video ?? currentIndex + 1) - 1];
+      if (!item?.transcript) return '';
+
+      if (endMs !== undefined) {
+        const formattedRange = `${item.tag} ${formatTimeRange({ start: startMs / 1000, end: endMs / 1000 }, item.isLongVideo)}`;
+        const segment = getTranscriptRange(item.transcript, startMs, endMs);
+        return segment ? `TRANSCRIPT FOR THE SEGMENT [${formattedRange}]:\n"${segment}"` : '';
+      }
+      const formattedTime = `${item.tag} ${formatTime(startMs / 1000, item.isLongVideo)}`;
+      const snippet = getTranscriptSnippet(item.transcript, startMs);
+      return snippet ? `TRANSCRIPT SNIPPET AROUND [${formattedTime}]:\n"${snippet}"` : '';
+    }).filter(Boolean);
+    if (snippets.length > 0) {
+      transcriptContext += `\n\nRELEVANT TRANSCRIPT SECTIONS:\n${snippets.join('\n')}\n`;
+    }
+
+    // The most relevant passages of the whole course, so "which video covers X?" sees every video
+    const passages = retrievePassagesAcrossTranscripts(course.map(item => item.transcript), userMessage, RETRIEVAL_TOP_K);
+    if (passages.length > 0) {
+      const passageText = course
+        .map((item, index) => {
+          const fromVideo = passages.filter(passage => passage.source === index);
+          return fromVideo.length > 0
+            ? `FROM ${item.tag} ("${item.video.title}"):\n${formatPassagesForPrompt(fromVideo, item.isLongVideo, item.tag)}`
+            : '';
+        })
+        .filter(Boolean)
+        .join('\n');
+      transcriptContext += `\n\nTRANSCRIPT PASSAGES FROM THE COURSE RELEVANT TO THE QUESTION:\n${passageText}\n`;
+    } else if (!course.some(item => item.transcript)) {
+      transcriptContext += '\n\nNO TRANSCRIPTS AVAILABLE: answer from the video titles only.';
+    }
+
+    // Tagged timestamps are checked against their own video, untagged ones against the current one
+    const videoOptions = course.map(item => ({
+      durationSeconds: item.durationSeconds || undefined,
+      transcript: item.transcript,
+      longFormat: item.isLongVideo,
+    }));
+
+    return await streamChatResponse({
+      provider,
+      auth,
+      signal: request.signal,
+      title: playlist.title,
+      systemInstruction,
+      chatHistory,
+      historySummary,
+      userMessage,
+      transcriptContext,
+      hasTranscript: course.some(item => item.transcript),
+      normalizer: { ...videoOptions[currentIndex], videos: videoOptions },
+      citationSources: course.map(item => ({ videoId: item.video.videoId, transcript: item.transcript })),
+      defaultVideo: currentIndex + 1,
+    });
+  } catch (error: unknown) {
+    console.error(`Error calling the ${provider.name} chat provider for a playlist:`, error);
+    return new Response(
+      JSON.stringify({
+        message: error instanceof Error ? error.message : 'Failed to get response from AI assistant.',
+        error: 'UNKNOWN_ERROR',
+        retryable: true
+      }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
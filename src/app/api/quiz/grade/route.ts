@@ -0,0 +1,49 @@
+// FILE: src/app/api/quiz/grade/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getQuotaStatus, isQuotaExhausted, quotaExceededResponse, recordUsage } from '@/app/lib/quota';
+import { getChatModelProvider } from '@/utils/llm';
+import { createUsageTally, withUsageListener } from '@/utils/llm/usage';
+import { gradeQuiz } from '@/utils/quiz/grade';
+import { sumQuizScore, type QuizResponse } from '@/utils/quiz';
+import type { QuizQuestion } from '@/types';
+
+interface GradeRequestBody {
+  questions: QuizQuestion[];
+  responses: Record<string, QuizResponse>; // By question ID
+}
+
+/**
+ * Grade answers to a quiz; short answers are graded by the model
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+  // The tokens of the generation count toward the daily quota; the message count is for chat only
+  const quota = await getQuotaStatus(auth.supabase, auth.user.id);
+  if (isQuotaExhausted(quota)) return quotaExceededResponse(quota);
+
+  let body: GradeRequestBody;
+  try {
+    body = await request.json() as GradeRequestBody;
+  } catch {
+    return NextResponse.json(
+      { message: 'Invalid request format.' },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(body.questions) || body.questions.length === 0 || typeof body.responses !== 'object' || body.responses === null) {
+    return NextResponse.json(
+      { message: 'Missing required fields: questions and responses.' },
+      { status: 400 }
+    );
+  }
+
+  const tally = createUsageTally();
+  const provider = withUsageListener(getChatModelProvider(), tally.onUsage);
+  const grades = await gradeQuiz(provider, body.questions, body.responses);
+  await recordUsage(auth.supabase, auth.user.id, tally.usage);
+  return NextResponse.json({ grades, score: sumQuizScore(grades), total: body.questions.length });
+}
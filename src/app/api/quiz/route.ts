@@ -0,0 +1,81 @@
+// FILE: src/app/api/quiz/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getQuotaStatus, isQuotaExhausted, quotaExceededResponse, recordUsage } from '@/app/lib/quota';
+import { getChatModelProvider } from '@/utils/llm';
+import { createUsageTally, withUsageListener } from '@/utils/llm/usage';
+import { getTranscript } from '@/utils/transcript';
+import { DEFAULT_QUIZ_QUESTION_COUNT, MAX_QUIZ_QUESTIONS } from '@/utils/quiz';
+import { generateQuiz } from '@/utils/quiz/generate';
+
+interface QuizRequestBody {
+  videoId: string;
+  title?: string;
+  lang?: string; // Caption track language code selected on the video page
+  count?: number; // Number of questions
+  start?: number; // seconds; quiz only a chapter or range of the video
+  end?: number; // seconds
+}
+
+/**
+ * Multiple-choice and short-answer questions generated from the transcript
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+  // The tokens of the generation count toward the daily quota; the message count is for chat only
+  const quota = await getQuotaStatus(auth.supabase, auth.user.id);
+  if (isQuotaExhausted(quota)) return quotaExceededResponse(quota);
+
+  let body: QuizRequestBody;
+  try {
+    body = await request.json() as QuizRequestBody;
+  } catch {
+    return NextResponse.json(
+      { message: 'Invalid request format.' },
+      { status: 400 }
+    );
+  }
+
+  const { videoId, title = 'Untitled video', lang, count = DEFAULT_QUIZ_QUESTION_COUNT, start, end } = body;
+  if (!videoId) {
+    return NextResponse.json(
+      { message: 'Missing required field: videoId.' },
+      { status: 400 }
+    );
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_QUIZ_QUESTIONS) {
+    return NextResponse.json(
+      { message: `count must be a whole number from 1 to ${MAX_QUIZ_QUESTIONS}.` },
+      { status: 400 }
+    );
+  }
+  if (start !== undefined && end !== undefined && end <= start) {
+    return NextResponse.json(
+      { message: 'The end of the range must come after its start.' },
+      { status: 400 }
+    );
+  }
+
+  const transcript = await getTranscript(videoId, { lang });
+  if (!transcript || transcript.length === 0) {
+    return NextResponse.json(
+      { message: 'No transcript is available for this video.', error: 'TRANSCRIPT_UNAVAILABLE' },
+      { status: 404 }
+    );
+  }
+
+  const tally = createUsageTally();
+  const provider = withUsageListener(getChatModelProvider(), tally.onUsage);
+  const questions = await generateQuiz(provider, title, transcript, { count, start, end });
+  await recordUsage(auth.supabase, auth.user.id, tally.usage);
+  if (!questions) {
+    return NextResponse.json(
+      { message: 'A quiz could not be generated for this part of the video.', error: 'QUIZ_UNAVAILABLE' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({ questions });
+}
@@ -0,0 +1,59 @@
+// FILE: src/app/api/suggestions/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getQuotaStatus, isQuotaExhausted, quotaExceededResponse, recordUsage } from '@/app/lib/quota';
+import { getChatModelProvider } from '@/utils/llm';
+import { createUsageTally, withUsageListener } from '@/utils/llm/usage';
+import { suggestStarterQuestions, FALLBACK_STARTER_QUESTIONS } from '@/utils/llm/suggestions';
+import type { Chapter } from '@/types';
+
+interface SuggestionsRequestBody {
+  title: string;
+  description?: string;
+  chapters?: Chapter[];
+}
+
+/**
+ * Video-specific questions to start a conversation with
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+  // The tokens of the suggestions count toward the daily quota
+  const quota = await getQuotaStatus(auth.supabase, auth.user.id);
+  if (isQuotaExhausted(quota)) return quotaExceededResponse(quota);
+
+  let body: SuggestionsRequestBody;
+  try {
+    body = await request.json() as SuggestionsRequestBody;
+  } catch {
+    return NextResponse.json(
+      { message: 'Invalid request format.' },
+      { status: 400 }
+    );
+  }
+
+  if (!body.title) {
+    return NextResponse.json(
+      { message: 'Missing required field: title.' },
+      { status: 400 }
+    );
+  }
+
+  const tally = createUsageTally();
+  const provider = withUsageListener(getChatModelProvider(), tally.onUsage);
+  if (!provider.isConfigured()) {
+    return NextResponse.json({ questions: FALLBACK_STARTER_QUESTIONS });
+  }
+
+  const questions = await suggestStarterQuestions(
+    provider,
+    body.title,
+    body.description || '',
+    Array.isArray(body.chapters) ? body.chapters : []
+  );
+  await recordUsage(auth.supabase, auth.user.id, tally.usage);
+
+  return NextResponse.json({ questions });
+}
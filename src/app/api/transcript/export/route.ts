@@ -0,0 +1,57 @@
+// FILE: src/app/api/transcript/export/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { ONE_HOUR_SECONDS } from '@/utils/timestamps';
+import {
+  exportTranscript,
+  getTranscript,
+  getTranscriptDuration,
+  isTranscriptExportFormat,
+  TRANSCRIPT_EXPORT_FORMATS,
+} from '@/utils/transcript';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
+  const format = searchParams.get('format') || 'srt';
+  const lang = searchParams.get('lang') || undefined;
+  const includeTimestamps = searchParams.get('timestamps') === 'true';
+
+  if (!videoId) {
+    return NextResponse.json(
+      { message: 'Missing videoId query parameter.' },
+      { status: 400 }
+    );
+  }
+
+  if (!isTranscriptExportFormat(format)) {
+    return NextResponse.json(
+      { message: `Unsupported format. Use one of: ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}.` },
+      { status: 400 }
+    );
+  }
+
+  const transcript = await getTranscript(videoId, { lang });
+  if (!transcript) {
+    return NextResponse.json(
+      { message: 'No transcript is available for this video.', error: 'TRANSCRIPT_UNAVAILABLE' },
+      { status: 404 }
+    );
+  }
+
+  const { body, contentType, fileName } = exportTranscript(transcript, format, {
+    videoId,
+    lang,
+    includeTimestamps,
+    longFormat: getTranscriptDuration(transcript) >= ONE_HOUR_SECONDS,
+  });
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600'
+    }
+  });
+}
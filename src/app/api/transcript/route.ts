@@ -0,0 +1,37 @@
+// FILE: src/app/api/transcript/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { getTranscriptRecord } from '@/utils/transcript';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
+  const lang = searchParams.get('lang') || undefined;
+
+  if (!videoId) {
+    return NextResponse.json(
+      { message: 'Missing videoId query parameter.' },
+      { status: 400 }
+    );
+  }
+
+  const transcript = await getTranscriptRecord(videoId, { lang });
+  if (!transcript) {
+    return NextResponse.json(
+      { message: 'No transcript is available for this video.', error: 'TRANSCRIPT_UNAVAILABLE' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    entries: transcript.entries,
+    lang: transcript.lang,
+    source: transcript.source,
+    fetchedAt: transcript.fetchedAt,
+  }, {
+    status: 200,
+    headers: {
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600'
+    }
+  });
+}
@@ -0,0 +1,41 @@
+// FILE: src/app/api/transcript/search/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { ONE_HOUR_SECONDS } from '@/utils/timestamps';
+import { getTranscript, getTranscriptDuration, searchTranscript } from '@/utils/transcript';
+
+const MAX_QUERY_LENGTH = 200;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
+  const query = searchParams.get('q')?.trim();
+  const lang = searchParams.get('lang') || undefined;
+
+  if (!videoId || !query) {
+    return NextResponse.json(
+      { message: 'Missing required query parameters: videoId and q.' },
+      { status: 400 }
+    );
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { message: `Search query must be at most ${MAX_QUERY_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+
+  const transcript = await getTranscript(videoId, { lang });
+  if (!transcript) {
+    return NextResponse.json(
+      { message: 'No transcript is available for this video.', error: 'TRANSCRIPT_UNAVAILABLE' },
+      { status: 404 }
+    );
+  }
+
+  const isLongVideo = getTranscriptDuration(transcript) >= ONE_HOUR_SECONDS;
+  const hits = searchTranscript(transcript, query, undefined, isLongVideo);
+
+  return NextResponse.json({ query, hits }, { status: 200 });
+}
@@ -0,0 +1,32 @@
+// FILE: src/app/api/transcript/tracks/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { listCaptionTracks } from '@/utils/transcript';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
+
+  if (!videoId) {
+    return NextResponse.json(
+      { message: 'Missing videoId query parameter.' },
+      { status: 400 }
+    );
+  }
+
+  const tracks = await listCaptionTracks(videoId);
+  if (!tracks) {
+    return NextResponse.json(
+      { message: 'Failed to fetch caption tracks from YouTube.' },
+      { status: 502 }
+    );
+  }
+
+  // Track lists change rarely, cache them for 1 hour like video details
+  return NextResponse.json({ tracks }, {
+    status: 200,
+    headers: {
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600'
+    }
+  });
+}
@@ -0,0 +1,78 @@
+// FILE: src/app/api/transcript/upload/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { parseSubtitles, detectSubtitleFormat, saveUploadedTranscript } from '@/utils/transcript';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+
+const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2 MB is far more than any subtitle file needs
+const ALLOWED_EXTENSIONS = ['.srt', '.vtt'];
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { message: 'Expected a multipart form upload.' },
+      { status: 400 }
+    );
+  }
+
+  const videoId = formData.get('videoId');
+  const file = formData.get('file');
+  const lang = formData.get('lang');
+
+  if (typeof videoId !== 'string' || !videoId || !(file instanceof File)) {
+    return NextResponse.json(
+      { message: 'Missing required fields: videoId and file.' },
+      { status: 400 }
+    );
+  }
+
+  const fileName = file.name.toLowerCase();
+  if (!ALLOWED_EXTENSIONS.some(extension => fileName.endsWith(extension))) {
+    return NextResponse.json(
+      { message: 'Only SRT (.srt) and WebVTT (.vtt) files are supported.', error: 'UNSUPPORTED_FORMAT' },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return NextResponse.json(
+      { message: 'Subtitle file is too large (maximum 2 MB).', error: 'FILE_TOO_LARGE' },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const content = await file.text();
+    const format = detectSubtitleFormat(content);
+    const entries = parseSubtitles(content, format);
+
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { message: 'No subtitle cues were found in the file.', error: 'EMPTY_TRANSCRIPT' },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveUploadedTranscript(videoId, entries, typeof lang === 'string' && lang ? lang : undefined, auth.user.id);
+    if (!saved) {
+      return NextResponse.json(
+        { message: 'Another user already uploaded subtitles for this video and language.', error: 'UPLOAD_EXISTS' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ format, entryCount: entries.length }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving uploaded transcript:', error);
+    return NextResponse.json(
+      { message: 'Failed to save the uploaded transcript.' },
+      { status: 500 }
+    );
+  }
+}
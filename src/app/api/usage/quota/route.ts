@@ -0,0 +1,22 @@
+// FILE: src/app/api/usage/quota/route.ts
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getQuotaHeaders, getQuotaStatus } from '@/app/lib/quota';
+
+/**
+ * How much of today's message and token quota the signed-in user has left
+ */
+export async function GET() {
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+
+  const quota = await getQuotaStatus(auth.supabase, auth.user.id);
+  return NextResponse.json({ quota }, {
+    status: 200,
+    headers: {
+      'Cache-Control': 'no-store',
+      ...getQuotaHeaders(quota)
+    }
+  });
+}
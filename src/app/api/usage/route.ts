@@ -0,0 +1,28 @@
+// FILE: src/app/api/usage/route.ts
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest, unauthorizedResponse } from '@/app/lib/auth';
+import { getUsageTotals } from '@/app/lib/quota';
+
+/**
+ * Messages, tokens and cost of everything the signed-in user has asked the model for
+ */
+export async function GET() {
+  const auth = await authenticateRequest();
+  if (!auth) return unauthorizedResponse();
+
+  const totals = await getUsageTotals(auth.supabase, auth.user.id);
+  if (!totals) {
+    return NextResponse.json(
+      { message: 'Usage could not be loaded. Please try again later.', error: 'USAGE_UNAVAILABLE' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({ totals }, {
+    status: 200,
+    headers: {
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -2,6 +2,8 @@
 
 import { type NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
+import { parseIsoDuration } from '@/utils/timestamps';
+import { parseChaptersFromDescription } from '@/utils/chapters';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -34,7 +36,7 @@ export async function GET(request: NextRequest) {
     try {
       const response = await axios.get(YOUTUBE_API_URL, {
         params: {
-          part: 'snippet',
+          part: 'snippet,contentDetails',
           id: videoId,
           key: apiKey,
         },
@@ -43,8 +45,16 @@ export async function GET(request: NextRequest) {
 
       if (response.data.items && response.data.items.length > 0) {
         const videoSnippet = response.data.items[0].snippet;
+        const isoDuration = response.data.items[0].contentDetails?.duration;
+        const durationSeconds = isoDuration ? parseIsoDuration(isoDuration) : null;
+        const chapters = parseChaptersFromDescription(videoSnippet.description, durationSeconds ?? undefined);
         // Cache the result for 1 hour to reduce API usage
-        return NextResponse.json(videoSnippet, { 
+        return NextResponse.json({
+          ...videoSnippet,
+          durationSeconds,
+          chapters,
+          chaptersSource: chapters.length > 0 ? 'description' : undefined,
+        }, { 
           status: 200,
           headers: {
             'Cache-Control': 'public, max-age=3600, s-maxage=3600'
@@ -0,0 +1,208 @@
+// FILE: src/app/api/youtube/playlist/route.ts
+
+import { type NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { parseIsoDuration } from '@/utils/timestamps';
+import type { Playlist, PlaylistVideo } from '@/types';
+
+const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+
+// Courses are capped so that the playlist chat can read every transcript
+const MAX_PLAYLIST_VIDEOS = 50;
+const PAGE_SIZE = 50; // Most items the Data API returns per request
+const MAX_PAGES = 4; // Private and deleted items are skipped, so more than one page may be needed
+
+// Items whose video can no longer be watched keep their place in the playlist with these titles
+const UNAVAILABLE_TITLES = new Set(['Private video', 'Deleted video']);
+
+type YouTubeApiError = { response?: { status?: number, data?: { error?: { errors?: Array<{message: string}>, message?: string } } } };
+
+function getErrorStatus(error: unknown): number {
+  const isAxiosError = typeof error === 'object' && error !== null && 'response' in error;
+  return (isAxiosError ? (error as YouTubeApiError).response?.status : undefined) || 500;
+}
+
+function getErrorMessage(error: unknown): string {
+  const isAxiosError = typeof error === 'object' && error !== null && 'response' in error;
+  const axiosError = isAxiosError ? error as YouTubeApiError : null;
+  return axiosError?.response?.data?.error?.errors?.[0]?.message ||
+    axiosError?.response?.data?.error?.message ||
+    (error instanceof Error ? error.message : 'Failed to fetch the playlist from YouTube.');
+}
+
+/**
+ * GET a YouTube Data API resource, retrying rate limits and server errors with exponential backoff
+ */
+async function fetchYouTubeResource<T>(resource: string, params: Record<string, string | number>): Promise<T> {
+  const MAX_RETRIES = 3;
+  let retries = 0;
+
+  while (true) {
+    try {
+      const response = await axios.get(`${YOUTUBE_API_BASE_URL}/${resource}`, { params, timeout: 7000 });
+      return response.data as T;
+    } catch (error: unknown) {
+      const status = getErrorStatus(error);
+      const errorMessage = getErrorMessage(error);
+      const isRateLimited = status === 429 || (status === 403 && errorMessage.includes('rate'));
+
+      retries++;
+      if ((isRateLimited || status >= 500) && retries < MAX_RETRIES) {
+        // Exponential backoff: wait 2^retries * 100ms before retrying
+        const delay = Math.pow(2, retries) * 100;
+        console.log(`Retrying YouTube API ${resource} request in ${delay}ms (attempt ${retries}/${MAX_RETRIES})...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+interface PlaylistsResponse {
+  items?: Array<{
+    snippet: { title: string; channelTitle?: string; description?: string };
+    contentDetails?: { itemCount?: number };
+  }>;
+}
+
+interface PlaylistItemsResponse {
+  nextPageToken?: string;
+  items?: Array<{
+    snippet: {
+      title: string;
+      position: number;
+      resourceId?: { videoId?: string };
+      thumbnails?: Record<string, { url: string }>;
+    };
+  }>;
+}
+
+interface VideosResponse {
+  items?: Array<{ id: string; contentDetails?: { duration?: string } }>;
+}
+
+/**
+ * The videos of a YouTube playlist, in order, with their durations
+ */
+export async function GET(request: NextRequest) {
+  const playlistId = request.nextUrl.searchParams.get('playlistId');
+
+  if (!playlistId) {
+    return NextResponse.json(
+      { message: 'Missing playlistId query parameter.' },
+      { status: 400 }
+    );
+  }
+
+  const apiKey = process.env.YOUTUBE_API_KEY;
+  if (!apiKey) {
+    console.error('YouTube API Key not found in environment variables.');
+    return NextResponse.json(
+      { message: 'Server configuration error.' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const playlists = await fetchYouTubeResource<PlaylistsResponse>('playlists', {
+      part: 'snippet,contentDetails',
+      id: playlistId,
+      key: apiKey,
+    });
+    const playlistInfo = playlists.items?.[0];
+    if (!playlistInfo) {
+      return NextResponse.json(
+        { message: 'Playlist not found on YouTube. Private playlists cannot be opened.' },
+        { status: 404 }
+      );
+    }
+
+    const videos: PlaylistVideo[] = [];
+    let pageToken: string | undefined;
+    for (let page = 0; page < MAX_PAGES && videos.length < MAX_PLAYLIST_VIDEOS; page++) {
+      const items = await fetchYouTubeResource<PlaylistItemsResponse>('playlistItems', {
+        part: 'snippet',
+        playlistId,
+        maxResults: PAGE_SIZE,
+        key: apiKey,
+        ...(pageToken ? { pageToken } : {}),
+      });
+
+      for (const item of items.items || []) {
+        const videoId = item.snippet.resourceId?.videoId;
+        if (!videoId || UNAVAILABLE_TITLES.has(item.snippet.title)) continue;
+
+        const thumbnails = item.snippet.thumbnails || {};
+        videos.push({
+          videoId,
+          title: item.snippet.title,
+          position: item.snippet.position,
+          thumbnailUrl: (thumbnails.medium || thumbnails.default)?.url,
+        });
+      }
+
+      pageToken = items.nextPageToken;
+      if (!pageToken) break;
+    }
+    const courseVideos = videos.slice(0, MAX_PLAYLIST_VIDEOS);
+
+    // playlistItems has no durations; the videos endpoint takes up to 50 IDs per request
+    if (courseVideos.length > 0) {
+      const details = await fetchYouTubeResource<VideosResponse>('videos', {
+        part: 'contentDetails',
+        id: courseVideos.map(video => video.videoId).join(','),
+        key: apiKey,
+      });
+      const durations = new Map((details.items || []).map(item => [
+        item.id,
+        item.contentDetails?.duration ? parseIsoDuration(item.contentDetails.duration) : null,
+      ]));
+      for (const video of courseVideos) {
+        const durationSeconds = durations.get(video.videoId);
+        if (typeof durationSeconds === 'number') video.durationSeconds = durationSeconds;
+      }
+    }
+
+    const playlist: Playlist = {
+      playlistId,
+      title: playlistInfo.snippet.title,
+      channelTitle: playlistInfo.snippet.channelTitle,
+      description: playlistInfo.snippet.description,
+      videos: courseVideos,
+      totalVideos: playlistInfo.contentDetails?.itemCount ?? courseVideos.length,
+    };
+
+    // Cache the result for 1 hour to reduce API usage
+    return NextResponse.json(playlist, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'public, max-age=3600, s-maxage=3600'
+      }
+    });
+  } catch (error: unknown) {
+    const status = getErrorStatus(error);
+    const message = getErrorMessage(error);
+
+    if (status === 403 && (message.includes('quota') || message.includes('Quota'))) {
+      console.error('YouTube API quota exceeded:', message);
+      return NextResponse.json(
+        {
+          message: 'YouTube API quota exceeded. Please try again tomorrow.',
+          error: 'QUOTA_EXCEEDED'
+        },
+        { status: 429 }
+      );
+    }
+
+    if (status === 404) {
+      return NextResponse.json(
+        { message: 'Playlist not found on YouTube. Private playlists cannot be opened.' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error fetching playlist from YouTube API:', message);
+    return NextResponse.json({ message }, { status });
+  }
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import React from 'react';
+import { ListOrdered, Sparkles } from 'lucide-react';
+import { findCurrentChapter } from '@/utils/chapters';
+import { Chapter, ChapterSource } from '@/types';
+
+interface ChapterListProps {
+  chapters: Chapter[];
+  source: ChapterSource | null;
+  isGenerating: boolean;
+  currentTimestamp: number; // seconds
+  onSeek: (seconds: number) => void;
+  formatTime: (seconds: number) => string;
+}
+
+export function ChapterList({
+  chapters,
+  source,
+  isGenerating,
+  currentTimestamp,
+  onSeek,
+  formatTime
+}: ChapterListProps) {
+  if (!isGenerating && chapters.length === 0) return null;
+
+  const currentChapter = findCurrentChapter(chapters, currentTimestamp);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-md mt-6 flex-shrink-0">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h3 className="font-medium text-slate-700 flex items-center gap-2">
+          <ListOrdered size={16} className="text-blue-600" />
+          Chapters
+        </h3>
+        {source === 'generated' && (
+          <span
+            className="text-xs text-slate-500 flex items-center gap-1"
+            title="This video has no chapters, so they were generated from the transcript"
+          >
+            <Sparkles size={12} />
+            AI-generated
+          </span>
+        )}
+      </div>
+
+      {isGenerating && chapters.length === 0 ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-slate-200 rounded-full w-2/3"></div>
+          <div className="h-4 bg-slate-200 rounded-full w-1/2"></div>
+          <div className="h-4 bg-slate-200 rounded-full w-3/5"></div>
+        </div>
+      ) : (
+        <ol className="max-h-[240px] overflow-y-auto scrollbar-thin space-y-1">
+          {chapters.map(chapter => {
+            const isCurrent = chapter === currentChapter;
+            return (
+              <li key={chapter.start}>
+                <button
+                  onClick={() => onSeek(chapter.start)}
+                  className={`w-full text-left flex gap-3 px-2 py-1.5 rounded-lg text-sm transition-colors ${isCurrent
+                    ? 'bg-blue-50 text-slate-900 font-medium'
+                    : 'text-slate-600 hover:bg-slate-50'
+                  }`}
+                  title={`Jump to ${formatTime(chapter.start)}`}
+                  aria-current={isCurrent ? 'true' : undefined}
+                >
+                  <span className="font-mono text-xs text-blue-600 font-medium pt-0.5 flex-shrink-0">{formatTime(chapter.start)}</span>
+                  <span>{chapter.title}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,23 @@
 'use client';
 import React from 'react';
-import { UserCircle, Bot, Clock } from 'lucide-react';
+import { UserCircle, Bot, Clock, Coins, Languages, Quote } from 'lucide-react';
+import { formatCost, formatLanguageName } from '@/utils/formatters';
+import { ChatUsage, Citation } from '@/types';
 
 interface ChatMessageProps {
   user: string;
   children: React.ReactNode;
   isAi: boolean;
   timestamp?: string; // Make timestamp optional
+  transcriptLang?: string | null; // Caption track the answer was grounded in
+  transcriptSource?: string | null; // Transcript provider, null when the answer had no transcript
+  citations?: Citation[]; // Verified transcript sources, shown below the answer
+  usage?: ChatUsage; // Tokens, cost and latency of an AI answer
+  onCitationClick?: (timestamp: string, videoId?: string) => void;
+  footer?: React.ReactNode; // Controls shown below the bubble, e.g. answer versions and Regenerate
 }
 
-export function ChatMessage({ user, children, isAi, timestamp }: ChatMessageProps) {
+export function ChatMessage({ user, children, isAi, timestamp, transcriptLang, transcriptSource, citations, usage, onCitationClick, footer }: ChatMessageProps) {
   return (
     <div
       className={`flex gap-4 mb-6 ${isAi ? '' : 'justify-end'}`}
@@ -41,6 +49,34 @@ export function ChatMessage({ user, children, isAi, timestamp }: ChatMessageProp
                 <span>{timestamp}</span>
               </div>
             )}
+            {isAi && (transcriptLang || transcriptSource) && (
+              <div className="flex items-center text-xs text-slate-400" title="Transcript this answer is based on">
+                <Languages size={12} className="mr-1" />
+                <span>
+                  {transcriptLang ? `${formatLanguageName(transcriptLang)} transcript` : 'Transcript'}
+                  {transcriptSource === 'upload' ? ' (uploaded)' : ''}
+                </span>
+              </div>
+            )}
+            {isAi && transcriptSource === null && (
+              <div className="flex items-center text-xs text-amber-500" title="No transcript was available for this answer">
+                <Languages size={12} className="mr-1" />
+                <span>No transcript</span>
+              </div>
+            )}
+            {isAi && usage && (
+              <div
+                className="flex items-center text-xs text-slate-400"
+                title={`${usage.model}: ${usage.inputTokens.toLocaleString()} prompt + ${usage.outputTokens.toLocaleString()} completion tokens`
+                  + `${usage.estimated ? ' (estimated)' : ''}, answered in ${(usage.latencyMs / 1000).toFixed(1)} s`}
+              >
+                <Coins size={12} className="mr-1" />
+                <span>
+                  {usage.estimated ? '~' : ''}{usage.totalTokens.toLocaleString()} tokens
+                  {usage.costUsd !== undefined ? ` · ${formatCost(usage.costUsd)}` : ''}
+                </span>
+              </div>
+            )}
           </div>
           <div
             className={`p-4 rounded-lg ${isAi
@@ -55,7 +91,26 @@ export function ChatMessage({ user, children, isAi, timestamp }: ChatMessageProp
             }`}>
               {children}
             </div>
+            {isAi && citations && citations.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-slate-100 flex flex-wrap items-center gap-1.5">
+                <span className="flex items-center gap-1 text-xs text-slate-500 mr-1">
+                  <Quote size={12} />
+                  Sources
+                </span>
+                {citations.map(citation => (
+                  <button
+                    key={`${citation.videoId || ''}${citation.label}`}
+                    onClick={() => onCitationClick?.(citation.label.replace(/^\[|\]$/g, ''), citation.videoId)}
+                    className="font-mono text-xs text-blue-600 bg-blue-50 hover:bg-blue-100 px-2 py-0.5 rounded-full border border-blue-100 transition-colors"
+                    title={`"${citation.quote}"`}
+                  >
+                    {citation.label.replace(/^\[|\]$/g, '')}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
+          {footer}
         </div>
       </div>
     </div>
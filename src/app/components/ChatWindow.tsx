@@ -1,15 +1,18 @@
 'use client';
 
 import React, { useEffect, useRef, useState } from 'react';
-import { AlertTriangle, Clock, Send, Sparkles, ChevronDown } from 'lucide-react';
+import { AlertTriangle, Clock, Send, Sparkles, ChevronDown, ChevronLeft, ChevronRight, CircleStop, GitBranch, History, Pencil, RefreshCw, Square } from 'lucide-react';
 import { ChatMessage, ChatMessageSkeleton } from './ChatMessage';
-import { LoadingSpinner } from './LoadingSpinner';
+import { PersonaPicker, type PersonaPickerProps } from './PersonaPicker';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Message } from '@/types';
+import { Citation, ConversationSummary, Message, QuotaStatus } from '@/types';
+import { findTimestamps, formatVideoTag } from '@/utils/timestamps';
+import type { BranchPosition } from '@/utils/chatBranches';
 
 interface ChatWindowProps {
-  messages: Message[];
+  messages: Message[]; // The branch of the conversation being shown
+  branchPositions: Record<number, BranchPosition>; // Messages with edited siblings, by message ID
   isLoading: boolean;
   error: string | null;
   videoDetails: { title: string } | null;
@@ -17,12 +20,48 @@ interface ChatWindowProps {
   currentTimestamp: number;
   isAiThinking: boolean;
   onSendMessage: (message: string) => void;
-  onTimestampClick: (timestamp: string) => void;
+  onStopGeneration: () => void;
+  onRegenerate: () => void; // Answer the last question again
+  onEditMessage: (messageId: number, text: string) => void; // Ask an edited question on a new branch
+  onSelectBranch: (messageId: number) => void; // Show the branch starting at this message
+  onTimestampClick: (timestamp: string, videoId?: string) => void; // videoId of the cited video, when known
   formatTime: (seconds: number) => string;
+  historySummary?: ConversationSummary | null; // Older turns the assistant only sees in summarized form
+  starterQuestions: string[]; // Video-specific first questions
+  personaPicker?: PersonaPickerProps; // Answer style of the conversation; no picker when missing
+  quota?: QuotaStatus | null; // What is left of today's allowance; hidden until known
+}
+
+/**
+ * Previous/next buttons around an "n / count" label
+ */
+function Stepper({ index, count, label, onSelect }: { index: number; count: number; label: string; onSelect: (index: number) => void }) {
+  return (
+    <div className="flex items-center gap-1" aria-label={`${label}s`}>
+      <button
+        onClick={() => onSelect(index - 1)}
+        disabled={index === 0}
+        className="p-0.5 rounded hover:bg-slate-100 disabled:text-slate-300 disabled:hover:bg-transparent"
+        title={`Previous ${label}`}
+      >
+        <ChevronLeft size={14} />
+      </button>
+      <span className="tabular-nums">{index + 1} / {count}</span>
+      <button
+        onClick={() => onSelect(index + 1)}
+        disabled={index === count - 1}
+        className="p-0.5 rounded hover:bg-slate-100 disabled:text-slate-300 disabled:hover:bg-transparent"
+        title={`Next ${label}`}
+      >
+        <ChevronRight size={14} />
+      </button>
+    </div>
+  );
 }
 
 export function ChatWindow({
   messages,
+  branchPositions,
   isLoading,
   error,
   videoDetails,
@@ -30,12 +69,24 @@ export function ChatWindow({
   currentTimestamp,
   isAiThinking,
   onSendMessage,
+  onStopGeneration,
+  onRegenerate,
+  onEditMessage,
+  onSelectBranch,
   onTimestampClick,
-  formatTime
+  formatTime,
+  historySummary,
+  starterQuestions,
+  personaPicker,
+  quota
 }: ChatWindowProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const [newMessage, setNewMessage] = useState('');
+  // Version shown per regenerated message, by message ID; the newest one by default
+  const [shownVersions, setShownVersions] = useState<Record<number, number>>({});
+  const [editing, setEditing] = useState<{ messageId: number; text: string } | null>(null);
+  const quotaExhausted = !!quota && (quota.messagesRemaining <= 0 || quota.tokensRemaining <= 0);
 
   useEffect(() => {
     if (messagesEndRef.current) {
@@ -46,13 +97,22 @@ export function ChatWindow({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const trimmedMessage = newMessage.trim();
-    if (!trimmedMessage || !videoDetails) return;
+    if (!trimmedMessage || !videoDetails || isAiThinking || quotaExhausted) return;
     
     onSendMessage(trimmedMessage);
     setNewMessage('');
   };
 
-  const renderMessageText = (text: string) => {
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedText = editing?.text.trim();
+    if (!editing || !trimmedText || isAiThinking) return;
+
+    onEditMessage(editing.messageId, trimmedText);
+    setEditing(null);
+  };
+
+  const renderMessageText = (text: string, citations?: Citation[]) => {
     if (!text) return <span></span>;
 
     // Attempt to parse as JSON (e.g., for structured data)
@@ -74,40 +134,20 @@ export function ChatWindow({
     // --- Store matches with original text index ---
     interface TimeMatch {
       index: number; // Position in the original string
-      fullMatch: string; // "[MM:SS]"
-      timeValue: string; // "MM:SS"
+      fullMatch: string; // "[MM:SS]", "[H:MM:SS]", a range like "[12:30-14:05]", or either tagged with a video "[V2 12:34]"
+      timeValue: string; // "MM:SS", "H:MM:SS" or "MM:SS-MM:SS", after the video tag if any
+      isRange: boolean;
+      videoId?: string; // The cited video, from the answer's citations
     }
     
-    // Regex for both [MM:SS] and TIMESTAMP_X formats
-    const mmssRegex = /\[(\d{1,2}:\d{2})\]/g;
-    const timestampXRegex = /TIMESTAMP_(\d+)/g;
-    const timeMatches: TimeMatch[] = [];
-    let match;
-    
-    // Find all "[MM:SS]" matches in the original text
-    while ((match = mmssRegex.exec(text)) !== null) {
-      timeMatches.push({
-        index: match.index,
-        fullMatch: match[0],
-        timeValue: match[1],
-      });
-    }
-    
-    // Find all "TIMESTAMP_X" matches and convert them to MM:SS format
-    while ((match = timestampXRegex.exec(text)) !== null) {
-      const seconds = parseInt(match[1], 10);
-      if (!isNaN(seconds)) {
-        const minutes = Math.floor(seconds / 60);
-        const remainingSeconds = seconds % 60;
-        const timeValue = `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-        
-        timeMatches.push({
-          index: match.index,
-          fullMatch: match[0],
-          timeValue: timeValue,
-        });
-      }
-    }
+    // Find all "[MM:SS]", "[H:MM:SS]" and range matches in the original text
+    const timeMatches: TimeMatch[] = findTimestamps(text).map(({ index, fullMatch, seconds, endSeconds, video }) => ({
+      index,
+      fullMatch,
+      timeValue: `${video !== undefined ? `${formatVideoTag(video - 1)} ` : ''}${endSeconds !== undefined ? `${formatTime(seconds)}-${formatTime(endSeconds)}` : formatTime(seconds)}`,
+      isRange: endSeconds !== undefined,
+      videoId: citations?.find(citation => citation.label === fullMatch)?.videoId,
+    }));
 
     // If no timestamps found, render directly (optimization)
     if (timeMatches.length === 0) {
@@ -139,7 +179,7 @@ export function ChatWindow({
           
           // Process each timestamp match in this text node
           for (let i = 0; i < timeMatches.length; i++) {
-            const { fullMatch, timeValue } = timeMatches[i];
+            const { fullMatch, timeValue, isRange, videoId } = timeMatches[i];
             const matchIndex = currentText.indexOf(fullMatch);
             
             if (matchIndex !== -1) {
@@ -149,13 +189,13 @@ export function ChatWindow({
               }
               
               // Add the timestamp button
-              const tooltipText = `Jump to ${timeValue} in video`;
+              const tooltipText = isRange ? `Play ${timeValue} in video` : `Jump to ${timeValue} in video`;
               segments.push(
                 <button
                   key={`ts-${i}-${timeValue}`}
                   onClick={() => {
                     console.log(`Timestamp Clicked: ${timeValue}`);
-                    onTimestampClick(timeValue);
+                    onTimestampClick(timeValue, videoId);
                   }}
                   className="text-blue-600 hover:text-blue-800 underline font-medium mx-0.5 px-1 rounded bg-blue-50 hover:bg-blue-100 transition-colors focus:outline-none focus:ring-1 focus:ring-blue-300"
                   title={tooltipText}
@@ -226,9 +266,12 @@ export function ChatWindow({
         <div>
           <p className="text-sm text-slate-500 mt-1.5">Ask questions or reference specific moments with [MM:SS] timestamps</p>
         </div>
-        <div className="text-xs font-medium text-slate-600 flex items-center gap-1.5 bg-slate-100 px-3 py-1.5 rounded-full shadow-sm border border-slate-200">
-          <Clock size={12} className="text-blue-600" />
-          <span>{playerReady ? formatTime(currentTimestamp) : '--:--'}</span>
+        <div className="flex items-center gap-2">
+          {personaPicker && <PersonaPicker {...personaPicker} />}
+          <div className="text-xs font-medium text-slate-600 flex items-center gap-1.5 bg-slate-100 px-3 py-1.5 rounded-full shadow-sm border border-slate-200">
+            <Clock size={12} className="text-blue-600" />
+            <span>{playerReady ? formatTime(currentTimestamp) : '--:--'}</span>
+          </div>
         </div>
       </div>
 
@@ -253,20 +296,16 @@ export function ChatWindow({
               <h3 className="text-xl font-semibold text-slate-800 mb-3">Start a Conversation</h3>
               <p className="text-slate-600 max-w-md">Ask any question about this video and get intelligent responses based on the content.</p>
               <div className="mt-6 flex flex-col gap-3 w-full max-w-md">
-                <button 
-                  onClick={() => onSendMessage("What are the main points covered in this video?")}
-                  className="px-4 py-3 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium transition-colors text-left flex items-center shadow-sm"
-                >
-                  <ChevronDown size={16} className="mr-2 text-blue-500" />
-                  What are the main points covered in this video?
-                </button>
-                <button 
-                  onClick={() => onSendMessage("Can you summarize this video in 3 bullet points?")}
-                  className="px-4 py-3 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium transition-colors text-left flex items-center shadow-sm"
-                >
-                  <ChevronDown size={16} className="mr-2 text-blue-500" />
-                  Can you summarize this video in 3 bullet points?
-                </button>
+                {starterQuestions.map(question => (
+                  <button 
+                    key={question}
+                    onClick={() => onSendMessage(question)}
+                    className="px-4 py-3 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium transition-colors text-left flex items-center shadow-sm"
+                  >
+                    <ChevronDown size={16} className="mr-2 text-blue-500 flex-shrink-0" />
+                    {question}
+                  </button>
+                ))}
               </div>
             </div>
           )}
@@ -287,33 +326,151 @@ export function ChatWindow({
             </div>
           )}
           
-          {messages.map(message => (
-            <ChatMessage
-              key={message.id}
-              user={message.user}
-              isAi={message.isAi}
-              timestamp={message.timestamp ? formatTime(message.timestamp) : undefined}
-            >
-              {message.isStreaming ? (
-                <div className="flex flex-col gap-2">
-                  {message.text ? (
-                    <div className="streaming-text">{renderMessageText(message.text)}</div>
-                  ) : (
-                    <div className="flex items-center gap-2">
-                      <div className="typing-animation">
-                        <span></span>
-                        <span></span>
-                        <span></span>
-                      </div>
-                      <span className="text-xs text-slate-500">AI is typing...</span>
+          {messages.map((message, index) => {
+            // Earlier answers come first; the message itself is the newest version
+            const versionCount = (message.versions?.length || 0) + 1;
+            const shownIndex = Math.min(shownVersions[message.id] ?? versionCount - 1, versionCount - 1);
+            const shown = message.versions && shownIndex < versionCount - 1 ? message.versions[shownIndex] : message;
+            const canRegenerate = message.isAi && !message.isStreaming && !isAiThinking
+              && index === messages.length - 1 && index > 0 && !messages[index - 1].isAi;
+            const showVersion = (versionIndex: number) => setShownVersions(prev => ({ ...prev, [message.id]: versionIndex }));
+            const branch = branchPositions[message.id];
+            const isEditing = editing?.messageId === message.id;
+            // Until the first question, the greeting offers the starter questions
+            const suggestions = index === messages.length - 1 && message.isAi && !message.isStreaming && !isAiThinking
+              ? message.suggestions || (messages.length <= 2 ? starterQuestions : [])
+              : [];
+
+            return (
+              <React.Fragment key={message.id}>
+                {historySummary && index === historySummary.turnCount && (
+                  <details className="text-xs text-slate-500 border-y border-dashed border-slate-200 py-2">
+                    <summary className="cursor-pointer flex items-center justify-center gap-1.5 hover:text-slate-700">
+                      <History size={12} />
+                      Earlier messages were summarized to keep the conversation within the AI&apos;s context
+                    </summary>
+                    <p className="mt-2 p-3 bg-slate-50 rounded-lg text-slate-600 whitespace-pre-wrap">{historySummary.text}</p>
+                  </details>
+                )}
+                <ChatMessage
+                  user={message.user}
+                  isAi={message.isAi}
+                  timestamp={message.timestamp ? formatTime(message.timestamp) : undefined}
+                  transcriptLang={shown.transcriptLang}
+                  transcriptSource={shown.transcriptSource}
+                  citations={message.isStreaming ? undefined : shown.citations}
+                  usage={message.isStreaming ? undefined : shown.usage}
+                  onCitationClick={onTimestampClick}
+                  footer={message.isAi ? (!message.isStreaming && (versionCount > 1 || shown.stopped || canRegenerate) && (
+                    <div className="flex items-center gap-3 mt-1.5 text-xs text-slate-500">
+                      {versionCount > 1 && (
+                        <Stepper index={shownIndex} count={versionCount} label="answer" onSelect={showVersion} />
+                      )}
+                      {shown.stopped && (
+                        <span className="flex items-center gap-1 text-amber-600" title="This answer was stopped before it was finished">
+                          <CircleStop size={12} />
+                          Stopped
+                        </span>
+                      )}
+                      {canRegenerate && (
+                        <button
+                          onClick={onRegenerate}
+                          className="flex items-center gap-1 px-2 py-0.5 rounded-full hover:bg-slate-100 hover:text-slate-700 transition-colors"
+                          title="Answer this question again; this answer stays available"
+                        >
+                          <RefreshCw size={12} />
+                          Regenerate
+                        </button>
+                      )}
+                    </div>
+                  )) : (!isEditing && (branch || !isAiThinking) && (
+                    <div className="flex items-center justify-end gap-3 mt-1.5 text-xs text-slate-500">
+                      {branch && (
+                        <>
+                          <GitBranch size={12} className="text-slate-400" aria-hidden="true" />
+                          <Stepper
+                            index={branch.index}
+                            count={branch.siblingIds.length}
+                            label="version of this question"
+                            onSelect={siblingIndex => onSelectBranch(branch.siblingIds[siblingIndex])}
+                          />
+                        </>
+                      )}
+                      {!isAiThinking && (
+                        <button
+                          onClick={() => setEditing({ messageId: message.id, text: message.text })}
+                          className="flex items-center gap-1 px-2 py-0.5 rounded-full hover:bg-slate-100 hover:text-slate-700 transition-colors"
+                          title="Edit this question and ask again; the current answers stay on their own branch"
+                        >
+                          <Pencil size={12} />
+                          Edit
+                        </button>
+                      )}
                     </div>
+                  ))}
+                >
+                  {message.isStreaming ? (
+                    <div className="flex flex-col gap-2">
+                      {message.text ? (
+                        <div className="streaming-text">{renderMessageText(message.text)}</div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <div className="typing-animation">
+                            <span></span>
+                            <span></span>
+                            <span></span>
+                          </div>
+                          <span className="text-xs text-slate-500">AI is typing...</span>
+                        </div>
+                      )}
+                    </div>
+                  ) : isEditing ? (
+                    <form onSubmit={handleEditSubmit} className="flex flex-col gap-2 not-prose">
+                      <textarea
+                        value={editing.text}
+                        onChange={(e) => setEditing({ messageId: message.id, text: e.target.value })}
+                        rows={3}
+                        autoFocus
+                        className="w-full min-w-[16rem] rounded-md p-2 text-slate-800 bg-white focus:outline-none focus:ring-2 focus:ring-blue-300"
+                        aria-label="Edited question"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setEditing(null)}
+                          className="px-3 py-1 rounded-md text-xs font-medium text-white/90 hover:bg-white/10"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="submit"
+                          disabled={!editing.text.trim() || isAiThinking}
+                          className="px-3 py-1 rounded-md text-xs font-medium bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-60"
+                        >
+                          Ask
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    renderMessageText(shown.text, shown.citations)
                   )}
-                </div>
-              ) : (
-                renderMessageText(message.text)
-              )}
-            </ChatMessage>
-          ))}
+                </ChatMessage>
+                {suggestions.length > 0 && (
+                  <div className="flex flex-wrap gap-2 -mt-3 pl-14" aria-label="Suggested questions">
+                    {suggestions.map(question => (
+                      <button
+                        key={question}
+                        onClick={() => onSendMessage(question)}
+                        className="px-3 py-1.5 bg-white border border-blue-200 hover:bg-blue-50 text-blue-700 rounded-full text-xs font-medium transition-colors text-left shadow-sm"
+                      >
+                        {question}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </React.Fragment>
+            );
+          })}
           {/* Only show AI thinking skeleton when there are no streaming messages */}
           {isAiThinking && !isLoading && !messages.some(msg => msg.isStreaming) && (
             <div className="opacity-100">
@@ -333,7 +490,7 @@ export function ChatWindow({
               placeholder={isAiThinking ? "AI is generating a response..." : "Ask a question about the video..."}
               value={newMessage}
               onChange={(e) => setNewMessage(e.target.value)}
-              disabled={isLoading || !playerReady || isAiThinking}
+              disabled={isLoading || !playerReady}
               className="w-full rounded-lg border border-slate-300 px-5 py-3 pr-12 text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-100 disabled:cursor-not-allowed shadow-sm"
               aria-label="Chat message input"
             />
@@ -342,32 +499,42 @@ export function ChatWindow({
               type="button"
               title="Insert Current Timestamp"
               onClick={() => setNewMessage(prev => `${prev} [${formatTime(currentTimestamp)}]`)}
-              disabled={isLoading || !playerReady || isAiThinking}
+              disabled={isLoading || !playerReady}
               className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1.5 text-slate-400 hover:text-blue-600 hover:bg-slate-100 rounded-full disabled:text-slate-300 disabled:cursor-not-allowed transition-colors"
               aria-label="Insert current video time"
             >
               <Clock size={18} />
             </button>
           </div>
-          <button
-            type="submit"
-            disabled={!newMessage.trim() || isLoading || !playerReady || isAiThinking}
-            className="inline-flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white py-3 px-5 rounded-lg font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-60 disabled:cursor-not-allowed transition-colors shadow-md"
-            aria-label="Send message"
-          >
-            {isAiThinking ? (
-              <div className="flex items-center gap-2">
-                <LoadingSpinner size="small" color="white" />
-                <span className="hidden sm:inline">Thinking...</span>
-              </div>
-            ) : (
-              <>
-                <Send size={18} />
-                <span className="hidden sm:inline">Send</span>
-              </>
-            )}
-          </button>
+          {isAiThinking ? (
+            <button
+              type="button"
+              onClick={onStopGeneration}
+              className="inline-flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-800 text-white py-3 px-5 rounded-lg font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 transition-colors shadow-md"
+              aria-label="Stop generating"
+            >
+              <Square size={16} fill="currentColor" />
+              <span className="hidden sm:inline">Stop</span>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!newMessage.trim() || isLoading || !playerReady || quotaExhausted}
+              className="inline-flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white py-3 px-5 rounded-lg font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-60 disabled:cursor-not-allowed transition-colors shadow-md"
+              aria-label="Send message"
+            >
+              <Send size={18} />
+              <span className="hidden sm:inline">Send</span>
+            </button>
+          )}
         </form>
+        {quota && (
+          <p className={`mt-2 text-center text-xs ${quotaExhausted ? 'text-red-600' : quota.messagesRemaining <= 10 ? 'text-amber-600' : 'text-slate-400'}`}>
+            {quotaExhausted
+              ? `Daily limit reached, resets at ${new Date(quota.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+              : `${quota.messagesRemaining} of ${quota.messageLimit} messages and ${quota.tokensRemaining.toLocaleString()} tokens left today`}
+          </p>
+        )}
       </div>
     </div>
   );
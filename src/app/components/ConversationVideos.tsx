@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Play, Plus, Video, X } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { formatVideoTag } from '@/utils/timestamps';
+import { AttachedVideo } from '@/types';
+
+interface ConversationVideosProps {
+  videoTitle: string; // The video the page is about, tagged V1
+  attachedVideos: AttachedVideo[]; // Tagged V2, V3... in this order
+  playingVideoId: string | null; // Attached video in the player, null for the page's video
+  maxAttached: number;
+  isAttaching: boolean;
+  attachError: string | null;
+  onAttach: (input: string) => void; // A YouTube URL or video ID
+  onDetach: (videoId: string) => void;
+  onPlay: (videoId: string | null) => void;
+}
+
+export function ConversationVideos({
+  videoTitle,
+  attachedVideos,
+  playingVideoId,
+  maxAttached,
+  isAttaching,
+  attachError,
+  onAttach,
+  onDetach,
+  onPlay
+}: ConversationVideosProps) {
+  const [input, setInput] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    onAttach(input);
+    setInput('');
+  };
+
+  const videos = [
+    { videoId: null, title: videoTitle },
+    ...attachedVideos.map(video => ({ videoId: video.videoId, title: video.details.title })),
+  ];
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-md mt-6 flex-shrink-0">
+      <h3 className="font-medium text-slate-700 flex items-center gap-2 mb-3">
+        <Video size={16} className="text-blue-600" />
+        Videos in this conversation
+      </h3>
+
+      <ul className="space-y-1.5">
+        {videos.map((video, index) => {
+          const isPlaying = video.videoId === playingVideoId;
+          return (
+            <li key={video.videoId || 'main'} className="flex items-center gap-2 text-sm">
+              <span className="font-mono text-xs font-semibold text-blue-700 bg-blue-50 border border-blue-100 rounded px-1.5 py-0.5 flex-shrink-0">
+                {formatVideoTag(index)}
+              </span>
+              <span className={`flex-1 truncate ${isPlaying ? 'font-medium text-slate-800' : 'text-slate-600'}`} title={video.title}>
+                {video.title}
+              </span>
+              {isPlaying ? (
+                <span className="text-xs text-slate-400 flex-shrink-0">Playing</span>
+              ) : (
+                <button
+                  onClick={() => onPlay(video.videoId)}
+                  className="p-1 rounded-full text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                  title="Play this video"
+                >
+                  <Play size={14} />
+                </button>
+              )}
+              {video.videoId && (
+                <button
+                  onClick={() => onDetach(video.videoId as string)}
+                  className="p-1 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                  title="Remove from the conversation"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {attachedVideos.length < maxAttached && (
+        <form onSubmit={handleSubmit} className="flex gap-2 mt-3">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Add a video to compare (YouTube URL)"
+            disabled={isAttaching}
+            className="flex-1 rounded-lg border border-slate-300 px-3 py-1.5 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="YouTube URL of a video to compare"
+          />
+          <button
+            type="submit"
+            disabled={isAttaching || !input.trim()}
+            className="inline-flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white py-1.5 px-3 rounded-lg text-sm font-medium disabled:opacity-60 transition-colors"
+          >
+            {isAttaching ? <LoadingSpinner size="small" color="white" /> : <Plus size={14} />}
+            Add
+          </button>
+        </form>
+      )}
+      {attachError && <p className="text-xs text-red-600 mt-2">{attachError}</p>}
+      {attachedVideos.length > 0 && (
+        <p className="text-xs text-slate-500 mt-2">
+          Answers tag each timestamp with its video, e.g. [V2 12:34]; clicking one plays that video.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import Link from 'next/link'; 
 import Image from 'next/image'; 
-import { Menu, X, LogIn, LogOut, User as UserIcon, Youtube } from 'lucide-react';
+import { BarChart3, Menu, X, LogIn, LogOut, User as UserIcon, Youtube } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext'; 
 
 interface NavBarProps {
@@ -54,6 +54,13 @@ export function NavBar({ className = '' }: NavBarProps) {
                   </div>
                 )}
                 <span className="text-sm text-slate-600 hidden sm:inline">{user.user_metadata?.full_name || user.email}</span>
+                <Link
+                  href="/usage"
+                  className="text-slate-500 hover:text-blue-600 p-1.5 rounded-lg hover:bg-slate-100 transition-colors hidden md:inline-flex"
+                  title="Usage"
+                >
+                  <BarChart3 size={18} />
+                </Link>
                 <button 
                   onClick={signOut}
                   className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-1.5 shadow-sm"
@@ -103,6 +110,15 @@ export function NavBar({ className = '' }: NavBarProps) {
             >
               My Videos
             </Link>
+            {user && (
+              <Link
+                href="/usage"
+                onClick={closeMenu}
+                className="flex items-center px-3 py-2.5 rounded-lg text-base font-medium text-slate-700 hover:text-blue-600 hover:bg-slate-50 transition-colors"
+              >
+                Usage
+              </Link>
+            )}
             
             {!isLoading && (
               user ? (
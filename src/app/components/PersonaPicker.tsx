@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Pencil, Plus, Trash2, UserRound } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { MAX_USER_PERSONAS } from '@/utils/personaStorage';
+import { findPersona, DEFAULT_TEMPERATURE, MAX_PERSONA_DESCRIPTION_LENGTH, MAX_PERSONA_INSTRUCTION_LENGTH, MAX_PERSONA_NAME_LENGTH } from '@/utils/personas';
+import { Persona } from '@/types';
+
+export type PersonaDraft = Omit<Persona, 'id'> & { id?: string }; // No ID for a new persona
+
+export interface PersonaPickerProps {
+  personas: Persona[]; // Presets first, then the user's own
+  selectedId: string;
+  disabled: boolean; // While an answer is being written
+  canCreate: boolean; // Signed in, so personas can be stored
+  isAtLimit: boolean; // The user has MAX_USER_PERSONAS personas; one must be deleted before creating another
+  onSelect: (personaId: string) => void;
+  onSave: (persona: PersonaDraft) => Promise<boolean>;
+  onDelete: (personaId: string) => void;
+}
+
+const EMPTY_DRAFT: PersonaDraft = { name: '', description: '', instruction: '', temperature: DEFAULT_TEMPERATURE };
+
+export function PersonaPicker({
+  personas,
+  selectedId,
+  disabled,
+  canCreate,
+  isAtLimit,
+  onSelect,
+  onSave,
+  onDelete
+}: PersonaPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<PersonaDraft | null>(null); // The persona being created or edited
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const selected = findPersona(selectedId, personas);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setDraft(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSelect = (personaId: string) => {
+    onSelect(personaId);
+    setIsOpen(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim() || !draft.instruction.trim()) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    const saved = await onSave(draft);
+    setIsSaving(false);
+    if (saved) {
+      setDraft(null);
+    } else {
+      setSaveError('The persona could not be saved. Please try again.');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="text-xs font-medium text-slate-600 flex items-center gap-1.5 bg-white px-3 py-1.5 rounded-full shadow-sm border border-slate-200 hover:bg-slate-50 disabled:opacity-60 transition-colors"
+        title="Answer style"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <UserRound size={12} className="text-blue-600" />
+        <span className="max-w-[10rem] truncate">{selected.name}</span>
+        <ChevronDown size={12} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl border border-slate-200 shadow-lg z-30 p-2">
+          {draft ? (
+            <form onSubmit={handleSave} className="space-y-2 p-1">
+              <p className="text-sm font-medium text-slate-700">{draft.id ? 'Edit persona' : 'New persona'}</p>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={MAX_PERSONA_NAME_LENGTH}
+                placeholder="Name, e.g. Exam coach"
+                className="w-full rounded-lg border border-slate-300 px-3 py-1.5 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Persona name"
+                required
+              />
+              <input
+                type="text"
+                value={draft.description || ''}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                maxLength={MAX_PERSONA_DESCRIPTION_LENGTH}
+                placeholder="Short description (optional)"
+                className="w-full rounded-lg border border-slate-300 px-3 py-1.5 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Persona description"
+              />
+              <textarea
+                value={draft.instruction}
+                onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+                maxLength={MAX_PERSONA_INSTRUCTION_LENGTH}
+                rows={5}
+                placeholder="How should the assistant answer? e.g. Quiz me on key terms after every answer."
+                className="w-full rounded-lg border border-slate-300 px-3 py-1.5 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                aria-label="Persona instructions"
+                required
+              />
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <span className="w-24">Creativity</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={draft.temperature}
+                  onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+                  className="flex-1"
+                />
+                <span className="w-8 text-right tabular-nums">{draft.temperature.toFixed(1)}</span>
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={draft.maxOutputTokens !== undefined}
+                  onChange={(e) => setDraft({ ...draft, maxOutputTokens: e.target.checked ? 500 : undefined })}
+                />
+                Keep answers short
+              </label>
+              {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+              <div className="flex justify-end gap-2 pt-1">
+                <button
+                  type="button"
+                  onClick={() => { setDraft(null); setSaveError(null); }}
+                  className="px-3 py-1.5 rounded-full text-xs font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving || !draft.name.trim() || !draft.instruction.trim()}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-60 transition-colors"
+                >
+                  {isSaving && <LoadingSpinner size="small" color="white" />}
+                  Save
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <ul role="listbox" aria-label="Answer style" className="max-h-80 overflow-y-auto scrollbar-thin">
+                {personas.map(persona => {
+                  const isSelected = persona.id === selected.id;
+                  return (
+                    <li key={persona.id} role="option" aria-selected={isSelected} className="group flex items-start gap-1 rounded-lg hover:bg-slate-50">
+                      <button onClick={() => handleSelect(persona.id)} className="flex-1 flex items-start gap-2 text-left px-2 py-1.5">
+                        <Check size={14} className={`mt-0.5 flex-shrink-0 ${isSelected ? 'text-blue-600' : 'text-transparent'}`} />
+                        <span>
+                          <span className="block text-sm text-slate-800">{persona.name}</span>
+                          {persona.description && <span className="block text-xs text-slate-500">{persona.description}</span>}
+                        </span>
+                      </button>
+                      {!persona.isPreset && (
+                        <div className="flex items-center pt-1.5 pr-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => setDraft(persona)}
+                            className="p-1 rounded-full text-slate-400 hover:text-blue-600 hover:bg-blue-50"
+                            title="Edit this persona"
+                          >
+                            <Pencil size={12} />
+                          </button>
+                          <button
+                            onClick={() => onDelete(persona.id)}
+                            className="p-1 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50"
+                            title="Delete this persona"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="border-t border-slate-100 mt-1 pt-1">
+                {canCreate && isAtLimit ? (
+                  <p className="px-2 py-1.5 text-xs text-slate-500">
+                    You have {MAX_USER_PERSONAS} personas, the most you can keep. Delete one to create another.
+                  </p>
+                ) : canCreate ? (
+                  <button
+                    onClick={() => setDraft(EMPTY_DRAFT)}
+                    className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-blue-600 hover:bg-blue-50 transition-colors"
+                  >
+                    <Plus size={14} />
+                    New persona
+                  </button>
+                ) : (
+                  <p className="px-2 py-1.5 text-xs text-slate-500">Sign in to create your own personas.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
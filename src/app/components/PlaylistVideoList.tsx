@@ -0,0 +1,118 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { CheckCircle2, ListVideo, MessageSquare, Play } from 'lucide-react';
+import { formatVideoTag } from '@/utils/timestamps';
+import { PlaylistVideo, PlaylistVideoProgress } from '@/types';
+
+interface PlaylistVideoListProps {
+  videos: PlaylistVideo[]; // In playlist order, tagged V1, V2... as in the playlist chat
+  totalVideos: number; // Videos in the playlist on YouTube
+  progress: Record<string, PlaylistVideoProgress>; // By video ID
+  currentVideoId: string | null;
+  onPlay: (videoId: string) => void;
+  formatTime: (seconds: number) => string;
+}
+
+/**
+ * Share of a video watched, from 0 to 1
+ */
+function getWatchedFraction(video: PlaylistVideo, progress?: PlaylistVideoProgress): number {
+  if (!progress) return 0;
+  if (progress.completed) return 1;
+  const duration = progress.durationSeconds || video.durationSeconds;
+  return duration ? Math.min(progress.watchedSeconds / duration, 1) : 0;
+}
+
+export function PlaylistVideoList({
+  videos,
+  totalVideos,
+  progress,
+  currentVideoId,
+  onPlay,
+  formatTime
+}: PlaylistVideoListProps) {
+  const completedCount = videos.filter(video => progress[video.videoId]?.completed).length;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-md mt-6 flex-shrink-0">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <h3 className="font-medium text-slate-700 flex items-center gap-2">
+          <ListVideo size={16} className="text-blue-600" />
+          Videos
+        </h3>
+        <span className="text-xs text-slate-500">{completedCount} of {videos.length} completed</span>
+      </div>
+      <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mb-3" aria-hidden="true">
+        <div
+          className="h-full bg-green-500 transition-all"
+          style={{ width: `${videos.length > 0 ? (completedCount / videos.length) * 100 : 0}%` }}
+        />
+      </div>
+
+      <ol className="space-y-1">
+        {videos.map((video, index) => {
+          const videoProgress = progress[video.videoId];
+          const isCurrent = video.videoId === currentVideoId;
+          const watched = getWatchedFraction(video, videoProgress);
+
+          return (
+            <li
+              key={video.videoId}
+              className={`flex items-center gap-3 p-2 rounded-lg ${isCurrent ? 'bg-blue-50 border border-blue-100' : 'hover:bg-slate-50 border border-transparent'}`}
+            >
+              <button
+                onClick={() => onPlay(video.videoId)}
+                className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                title={isCurrent ? 'Playing' : 'Play this video'}
+              >
+                <span className="font-mono text-xs font-semibold text-blue-700 bg-blue-50 border border-blue-100 rounded px-1.5 py-0.5 flex-shrink-0">
+                  {formatVideoTag(index)}
+                </span>
+                {video.thumbnailUrl && (
+                  <Image src={video.thumbnailUrl} alt="" width={80} height={45} className="w-20 aspect-video object-cover rounded flex-shrink-0" />
+                )}
+                <span className="flex-1 min-w-0">
+                  <span className={`block text-sm truncate ${isCurrent ? 'font-medium text-slate-800' : 'text-slate-700'}`} title={video.title}>
+                    {video.title}
+                  </span>
+                  <span className="flex items-center gap-2 mt-1">
+                    <span className="flex-1 h-1 bg-slate-100 rounded-full overflow-hidden">
+                      <span
+                        className={`block h-full ${videoProgress?.completed ? 'bg-green-500' : 'bg-blue-500'}`}
+                        style={{ width: `${watched * 100}%` }}
+                      />
+                    </span>
+                    {video.durationSeconds !== undefined && (
+                      <span className="font-mono text-xs text-slate-400 flex-shrink-0">{formatTime(video.durationSeconds)}</span>
+                    )}
+                  </span>
+                </span>
+                {videoProgress?.completed ? (
+                  <CheckCircle2 size={16} className="text-green-600 flex-shrink-0" aria-label="Completed" />
+                ) : isCurrent ? (
+                  <Play size={14} className="text-blue-600 flex-shrink-0" aria-label="Playing" />
+                ) : null}
+              </button>
+              <Link
+                href={`/video/${video.videoId}`}
+                className="p-1.5 rounded-full text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors flex-shrink-0"
+                title="Open this video on its own, with transcript, notes and quiz"
+              >
+                <MessageSquare size={14} />
+              </Link>
+            </li>
+          );
+        })}
+      </ol>
+
+      {totalVideos > videos.length && (
+        <p className="text-xs text-slate-500 mt-2">
+          Showing the first {videos.length} of {totalVideos} videos.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, CircleHelp, GraduationCap, RotateCcw, XCircle } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { parseTime } from '@/utils/timestamps';
+import { DEFAULT_QUIZ_QUESTION_COUNT, QUIZ_QUESTION_COUNTS, formatQuizScore, type QuizResponse } from '@/utils/quiz';
+import { getQuizResults, saveQuizResult } from '@/utils/quizStorage';
+import { Chapter, QuizGrade, QuizQuestion, QuizResult } from '@/types';
+
+interface QuizPanelProps {
+  videoId: string;
+  videoTitle: string;
+  lang?: string;
+  chapters: Chapter[];
+  durationSeconds?: number;
+  userId: string | null; // Results are saved for signed-in users
+  onSeek: (seconds: number) => void;
+  formatTime: (seconds: number) => string;
+}
+
+type QuizPhase = 'setup' | 'generating' | 'answering' | 'grading' | 'graded';
+
+export function QuizPanel({
+  videoId,
+  videoTitle,
+  lang,
+  chapters,
+  durationSeconds,
+  userId,
+  onSeek,
+  formatTime
+}: QuizPanelProps) {
+  const [phase, setPhase] = useState<QuizPhase>('setup');
+  const [scopeValue, setScopeValue] = useState('all'); // 'all', 'range' or a chapter index
+  const [rangeStart, setRangeStart] = useState('');
+  const [rangeEnd, setRangeEnd] = useState('');
+  const [questionCount, setQuestionCount] = useState(DEFAULT_QUIZ_QUESTION_COUNT);
+  const [scope, setScope] = useState<QuizResult['scope']>(null);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>({});
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [pastResults, setPastResults] = useState<QuizResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // A quiz belongs to one transcript; start over when the video or language changes
+  useEffect(() => {
+    setPhase('setup');
+    setQuestions([]);
+    setResponses({});
+    setResult(null);
+    setError(null);
+  }, [videoId, lang]);
+
+  useEffect(() => {
+    if (!userId) {
+      setPastResults([]);
+      return;
+    }
+    let isCancelled = false;
+    getQuizResults(userId, videoId).then(results => {
+      if (!isCancelled) setPastResults(results);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId, videoId]);
+
+  /**
+   * The part of the video to quiz, from the scope picker
+   * @returns The scope (null for the whole video), or a message when the range is invalid
+   */
+  const resolveScope = (): { scope: QuizResult['scope'] } | { error: string } => {
+    if (scopeValue === 'all') return { scope: null };
+
+    if (scopeValue === 'range') {
+      const start = parseTime(rangeStart);
+      const end = parseTime(rangeEnd);
+      if (start === null || end === null) return { error: 'Enter the range as MM:SS or H:MM:SS.' };
+      if (end <= start) return { error: 'The end of the range must come after its start.' };
+      return { scope: { start, end, label: `${formatTime(start)}–${formatTime(end)}` } };
+    }
+
+    const chapter = chapters[parseInt(scopeValue, 10)];
+    if (!chapter) return { scope: null };
+    return { scope: { start: chapter.start, end: chapter.end ?? durationSeconds ?? chapter.start, label: chapter.title } };
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const resolved = resolveScope();
+    if ('error' in resolved) {
+      setError(resolved.error);
+      return;
+    }
+
+    setPhase('generating');
+    setError(null);
+
+    try {
+      const response = await fetch('/api/quiz', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          videoId,
+          title: videoTitle,
+          lang,
+          count: questionCount,
+          start: resolved.scope?.start,
+          end: resolved.scope?.end,
+        }),
+      });
+
+      if (!response.ok) {
+        let errorMessage = `HTTP error! status: ${response.status}`;
+        try {
+          const errorData = await response.json();
+          errorMessage = errorData.message || errorMessage;
+        } catch {
+          errorMessage = response.statusText || errorMessage;
+        }
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      setScope(resolved.scope);
+      setQuestions(Array.isArray(data.questions) ? data.questions : []);
+      setResponses({});
+      setResult(null);
+      setPhase('answering');
+    } catch (err) {
+      console.error('Error generating quiz:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate a quiz.');
+      setPhase('setup');
+    }
+  };
+
+  const handleSubmitAnswers = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPhase('grading');
+    setError(null);
+
+    try {
+      const response = await fetch('/api/quiz/grade', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questions, responses }),
+      });
+
+      if (!response.ok) {
+        let errorMessage = `HTTP error! status: ${response.status}`;
+        try {
+          const errorData = await response.json();
+          errorMessage = errorData.message || errorMessage;
+        } catch {
+          errorMessage = response.statusText || errorMessage;
+        }
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      const graded: QuizResult = {
+        videoId,
+        scope,
+        questions,
+        grades: data.grades,
+        score: data.score,
+        total: data.total,
+      };
+      setResult(graded);
+      setPhase('graded');
+
+      if (userId) {
+        const id = await saveQuizResult(userId, graded);
+        if (id) {
+          setPastResults(prev => [{ ...graded, id, createdAt: new Date().toISOString() }, ...prev]);
+        }
+      }
+    } catch (err) {
+      console.error('Error grading quiz:', err);
+      setError(err instanceof Error ? err.message : 'Failed to grade the quiz.');
+      setPhase('answering');
+    }
+  };
+
+  const startOver = () => {
+    setPhase('setup');
+    setQuestions([]);
+    setResponses({});
+    setResult(null);
+    setError(null);
+  };
+
+  const gradeFor = (question: QuizQuestion): QuizGrade | undefined =>
+    result?.grades.find(grade => grade.questionId === question.id);
+
+  const renderQuestion = (question: QuizQuestion, index: number) => {
+    const grade = gradeFor(question);
+    const isLocked = phase !== 'answering';
+
+    return (
+      <li key={question.id} className="space-y-2">
+        <div className="flex items-start gap-2">
+          {grade ? (
+            grade.score === 1
+              ? <CheckCircle2 size={16} className="text-green-600 mt-0.5 flex-shrink-0" />
+              : grade.score > 0
+                ? <CircleHelp size={16} className="text-amber-500 mt-0.5 flex-shrink-0" />
+                : <XCircle size={16} className="text-red-500 mt-0.5 flex-shrink-0" />
+          ) : (
+            <span className="text-xs font-medium text-slate-400 mt-0.5 w-4 flex-shrink-0">{index + 1}.</span>
+          )}
+          <p className="text-sm font-medium text-slate-800">{question.question}</p>
+        </div>
+
+        {question.type === 'multiple_choice' ? (
+          <div className="space-y-1 pl-6">
+            {(question.options || []).map((option, optionIndex) => {
+              const isChosen = responses[question.id] === optionIndex;
+              const isCorrect = grade && optionIndex === question.correctOption;
+              return (
+                <label
+                  key={optionIndex}
+                  className={`flex items-start gap-2 text-sm px-2 py-1 rounded-lg ${isCorrect
+                    ? 'bg-green-50 text-green-800'
+                    : grade && isChosen ? 'bg-red-50 text-red-700' : 'text-slate-700'
+                  } ${isLocked ? '' : 'cursor-pointer hover:bg-slate-50'}`}
+                >
+                  <input
+                    type="radio"
+                    name={question.id}
+                    checked={isChosen}
+                    disabled={isLocked}
+                    onChange={() => setResponses(prev => ({ ...prev, [question.id]: optionIndex }))}
+                    className="mt-1"
+                  />
+                  {option}
+                </label>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="pl-6">
+            <input
+              type="text"
+              value={typeof responses[question.id] === 'string' ? responses[question.id] as string : ''}
+              disabled={isLocked}
+              onChange={(e) => setResponses(prev => ({ ...prev, [question.id]: e.target.value }))}
+              placeholder="Your answer"
+              className="w-full rounded-lg border border-slate-300 px-3 py-1.5 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50"
+              aria-label={`Answer to question ${index + 1}`}
+            />
+          </div>
+        )}
+
+        {grade && (
+          <div className="pl-6 text-xs text-slate-600 space-y-1">
+            {question.type === 'short_answer' && grade.score < 1 && (
+              <p><span className="font-medium">Answer:</span> {question.answer}</p>
+            )}
+            {grade.feedback && question.type === 'short_answer' && <p className="text-slate-500">{grade.feedback}</p>}
+            <button
+              onClick={() => onSeek(question.seconds)}
+              className="font-mono text-blue-600 bg-blue-50 hover:bg-blue-100 px-2 py-0.5 rounded-full border border-blue-100 transition-colors"
+              title="Watch the part of the video that answers this question"
+            >
+              {question.label}
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-md mt-6 flex-shrink-0">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h3 className="font-medium text-slate-700 flex items-center gap-2">
+          <GraduationCap size={16} className="text-blue-600" />
+          Quiz yourself
+        </h3>
+        {phase !== 'setup' && phase !== 'generating' && (
+          <button
+            onClick={startOver}
+            className="text-xs text-slate-500 hover:text-slate-700 flex items-center gap-1"
+          >
+            <RotateCcw size={12} />
+            New quiz
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {(phase === 'setup' || phase === 'generating') && (
+        <form onSubmit={handleGenerate} className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={scopeValue}
+              onChange={(e) => setScopeValue(e.target.value)}
+              disabled={phase === 'generating'}
+              className="flex-1 min-w-[10rem] rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-700 bg-white"
+              aria-label="Part of the video to quiz"
+            >
+              <option value="all">Whole video</option>
+              {chapters.map((chapter, index) => (
+                <option key={chapter.start} value={String(index)}>
+                  {formatTime(chapter.start)} {chapter.title}
+                </option>
+              ))}
+              <option value="range">Time range...</option>
+            </select>
+            <select
+              value={questionCount}
+              onChange={(e) => setQuestionCount(parseInt(e.target.value, 10))}
+              disabled={phase === 'generating'}
+              className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-700 bg-white"
+              aria-label="Number of questions"
+            >
+              {QUIZ_QUESTION_COUNTS.map(count => (
+                <option key={count} value={count}>{count} questions</option>
+              ))}
+            </select>
+          </div>
+
+          {scopeValue === 'range' && (
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="text"
+                value={rangeStart}
+                onChange={(e) => setRangeStart(e.target.value)}
+                placeholder="From (MM:SS)"
+                className="w-32 rounded-lg border border-slate-300 px-3 py-1.5 text-sm"
+                aria-label="Range start"
+              />
+              <span>to</span>
+              <input
+                type="text"
+                value={rangeEnd}
+                onChange={(e) => setRangeEnd(e.target.value)}
+                placeholder="To (MM:SS)"
+                className="w-32 rounded-lg border border-slate-300 px-3 py-1.5 text-sm"
+                aria-label="Range end"
+              />
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={phase === 'generating'}
+            className="inline-flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg text-sm font-medium disabled:opacity-60 transition-colors shadow-sm"
+          >
+            {phase === 'generating' ? (
+              <>
+                <LoadingSpinner size="small" color="white" />
+                Writing questions...
+              </>
+            ) : (
+              'Start quiz'
+            )}
+          </button>
+        </form>
+      )}
+
+      {(phase === 'answering' || phase === 'grading' || phase === 'graded') && (
+        <form onSubmit={handleSubmitAnswers} className="space-y-4">
+          {scope && <p className="text-xs text-slate-500">About: {scope.label}</p>}
+          {result && (
+            <p className="text-sm font-semibold text-slate-800">
+              Score: {formatQuizScore(result.score)} / {result.total} ({Math.round((result.score / Math.max(result.total, 1)) * 100)}%)
+            </p>
+          )}
+          <ol className="space-y-4 max-h-[420px] overflow-y-auto scrollbar-thin pr-1">
+            {questions.map(renderQuestion)}
+          </ol>
+          {phase !== 'graded' && (
+            <button
+              type="submit"
+              disabled={phase === 'grading'}
+              className="inline-flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg text-sm font-medium disabled:opacity-60 transition-colors shadow-sm"
+            >
+              {phase === 'grading' ? (
+                <>
+                  <LoadingSpinner size="small" color="white" />
+                  Grading...
+                </>
+              ) : (
+                'Check answers'
+              )}
+            </button>
+          )}
+        </form>
+      )}
+
+      {pastResults.length > 0 && phase === 'setup' && (
+        <div className="mt-4 pt-3 border-t border-slate-100">
+          <p className="text-xs font-medium text-slate-500 mb-1.5">Previous results</p>
+          <ul className="space-y-1 text-xs text-slate-600">
+            {pastResults.map(past => (
+              <li key={past.id} className="flex justify-between gap-3">
+                <span className="truncate">{past.scope?.label || 'Whole video'}</span>
+                <span className="flex-shrink-0 tabular-nums">
+                  {formatQuizScore(past.score)} / {past.total}
+                  {past.createdAt && <span className="text-slate-400 ml-2">{new Date(past.createdAt).toLocaleDateString()}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
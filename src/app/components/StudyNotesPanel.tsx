@@ -0,0 +1,217 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Download, NotebookPen, RefreshCw } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { formatStudyNotesMarkdown, getStudyNotesFileName } from '@/utils/notes';
+import { getStudyNotes, saveStudyNotes } from '@/utils/chatStorage';
+import { Chapter, StudyNotes } from '@/types';
+
+interface StudyNotesPanelProps {
+  videoId: string;
+  videoTitle: string;
+  lang?: string;
+  chapters: Chapter[];
+  conversationId: string | null; // Notes are saved with the conversation for signed-in users
+  longFormat: boolean; // Use H:MM:SS in the Markdown export
+  onSeek: (seconds: number) => void;
+  formatTime: (seconds: number) => string;
+}
+
+export function StudyNotesPanel({
+  videoId,
+  videoTitle,
+  lang,
+  chapters,
+  conversationId,
+  longFormat,
+  onSeek,
+  formatTime
+}: StudyNotesPanelProps) {
+  const [notes, setNotes] = useState<StudyNotes | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNotes(null);
+    setStatus(null);
+    setError(null);
+  }, [videoId]);
+
+  // Load the notes saved with the conversation
+  useEffect(() => {
+    if (!conversationId) return;
+
+    let isCancelled = false;
+    getStudyNotes(conversationId).then(saved => {
+      if (!isCancelled && saved && saved.videoId === videoId) setNotes(saved);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [conversationId, videoId]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setStatus(null);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/notes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          videoId,
+          title: videoTitle,
+          lang,
+          chapters,
+          previous: notes,
+        }),
+      });
+
+      if (!response.ok) {
+        let errorMessage = `HTTP error! status: ${response.status}`;
+        try {
+          const errorData = await response.json();
+          errorMessage = errorData.message || errorMessage;
+        } catch {
+          errorMessage = response.statusText || errorMessage;
+        }
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      const generated: StudyNotes = data.notes;
+      setNotes(generated);
+      if (notes) {
+        setStatus(data.generated > 0
+          ? `Updated ${data.generated} section${data.generated === 1 ? '' : 's'}, kept ${data.reused} unchanged.`
+          : 'The transcript has not changed; the notes are up to date.');
+      }
+
+      if (conversationId) {
+        await saveStudyNotes(conversationId, generated);
+      }
+    } catch (err) {
+      console.error('Error generating study notes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate study notes.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!notes) return;
+
+    const blob = new Blob([formatStudyNotesMarkdown(notes, longFormat)], { type: 'text/markdown;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getStudyNotesFileName(notes);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const timeButton = (seconds: number, label: string) => (
+    <button
+      onClick={() => onSeek(seconds)}
+      className="font-mono text-xs text-blue-600 bg-blue-50 hover:bg-blue-100 px-1.5 py-0.5 rounded-full border border-blue-100 transition-colors flex-shrink-0"
+      title="Jump to this part of the video"
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-md mt-6 flex-shrink-0">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h3 className="font-medium text-slate-700 flex items-center gap-2">
+          <NotebookPen size={16} className="text-blue-600" />
+          Study notes
+        </h3>
+        <div className="flex items-center gap-2">
+          {notes && (
+            <button
+              onClick={handleDownload}
+              className="text-xs font-medium flex items-center gap-1.5 px-3 py-1.5 rounded-full border bg-slate-50 text-slate-600 border-slate-200 hover:bg-slate-100 transition-colors"
+              title="Download the notes as Markdown, with links to each moment on YouTube"
+            >
+              <Download size={12} />
+              Markdown
+            </button>
+          )}
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="text-xs font-medium flex items-center gap-1.5 px-3 py-1.5 rounded-full border bg-blue-600 text-white border-blue-600 hover:bg-blue-700 disabled:opacity-60 transition-colors"
+          >
+            {isGenerating ? <LoadingSpinner size="small" color="white" /> : notes && <RefreshCw size={12} />}
+            {isGenerating ? 'Writing notes...' : notes ? 'Regenerate' : 'Generate notes'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {status && <p className="text-xs text-slate-500 mb-2">{status}</p>}
+      {notes && notes.lang !== (lang || null) && (
+        <p className="text-xs text-amber-600 mb-2">These notes were written from another transcript language.</p>
+      )}
+
+      {!notes && !isGenerating && (
+        <p className="text-sm text-slate-500">
+          An outline of the whole video with key points, definitions and a timestamp for each, one section per chapter.
+        </p>
+      )}
+
+      {notes && (
+        <div className="space-y-2 max-h-[420px] overflow-y-auto scrollbar-thin pr-1">
+          {notes.sections.map(section => (
+            <details key={section.start} open className="group">
+              <summary className="flex items-center gap-2 cursor-pointer text-sm font-semibold text-slate-800 py-1">
+                <span className="flex-1">{section.title}</span>
+                <span className="font-mono text-xs text-slate-400 font-normal">{formatTime(section.start)}</span>
+              </summary>
+
+              {section.points.length === 0 ? (
+                <p className="text-xs text-slate-500 italic pl-3 pb-2">No notes yet for this part; regenerate to try again.</p>
+              ) : (
+                <ul className="space-y-1.5 pl-3 pb-2">
+                  {section.points.map(point => (
+                    <li key={`${point.seconds}-${point.text}`} className="text-sm text-slate-700">
+                      <div className="flex items-start gap-2">
+                        {timeButton(point.seconds, point.label)}
+                        <span>{point.text}</span>
+                      </div>
+                      {point.details && (
+                        <ul className="list-disc pl-16 mt-0.5 text-xs text-slate-600 space-y-0.5">
+                          {point.details.map(detail => <li key={detail}>{detail}</li>)}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {section.definitions.length > 0 && (
+                <dl className="pl-3 pb-2 space-y-1">
+                  {section.definitions.map(definition => (
+                    <div key={definition.term} className="flex items-start gap-2 text-xs text-slate-600">
+                      {timeButton(definition.seconds, definition.label)}
+                      <div>
+                        <dt className="inline font-semibold text-slate-700">{definition.term}: </dt>
+                        <dd className="inline">{definition.definition}</dd>
+                      </div>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+
+interface TranscriptDownloadMenuProps {
+  videoId: string;
+  lang?: string;
+}
+
+const DOWNLOAD_OPTIONS = [
+  { label: 'Subtitles (.srt)', format: 'srt' },
+  { label: 'WebVTT (.vtt)', format: 'vtt' },
+  { label: 'Plain text (.txt)', format: 'txt' },
+  { label: 'Text with timestamps (.txt)', format: 'txt', timestamps: true },
+  { label: 'JSON (.json)', format: 'json' },
+];
+
+export function TranscriptDownloadMenu({ videoId, lang }: TranscriptDownloadMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu on any click outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const exportUrl = (format: string, timestamps?: boolean) => {
+    const params = new URLSearchParams({ videoId, format });
+    if (lang) params.set('lang', lang);
+    if (timestamps) params.set('timestamps', 'true');
+    return `/api/transcript/export?${params.toString()}`;
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="text-xs font-medium flex items-center gap-1.5 px-3 py-1.5 rounded-full border bg-slate-50 text-slate-600 border-slate-200 hover:bg-slate-100 transition-colors"
+        title="Download the transcript"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download size={12} />
+        Download
+      </button>
+      {isOpen && (
+        <ul
+          role="menu"
+          className="absolute right-0 mt-2 w-56 bg-white rounded-lg border border-slate-200 shadow-lg py-1 z-10"
+        >
+          {DOWNLOAD_OPTIONS.map(option => (
+            <li key={option.label} role="none">
+              <a
+                role="menuitem"
+                href={exportUrl(option.format, option.timestamps)}
+                download
+                onClick={() => setIsOpen(false)}
+                className="block px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
+              >
+                {option.label}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
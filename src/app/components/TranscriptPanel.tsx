@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileText, Search, MessageSquarePlus, MousePointerClick, Upload, X } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { TranscriptDownloadMenu } from './TranscriptDownloadMenu';
+import { TranscriptEntry } from '@/types';
+
+interface TranscriptPanelProps {
+  videoId: string;
+  lang?: string; // Selected transcript language, forwarded to the export route
+  entries: TranscriptEntry[];
+  isLoading: boolean;
+  error: string | null;
+  currentTimestamp: number; // seconds
+  isAiThinking: boolean;
+  onSeek: (seconds: number) => void;
+  onAskAboutSelection: (text: string, startSeconds: number, endSeconds: number) => void;
+  onUpload: (file: File) => Promise<void>; // Upload an SRT/WebVTT file when the video has no captions
+  formatTime: (seconds: number) => string;
+}
+
+export function TranscriptPanel({
+  videoId,
+  lang,
+  entries,
+  isLoading,
+  error,
+  currentTimestamp,
+  isAiThinking,
+  onSeek,
+  onAskAboutSelection,
+  onUpload,
+  formatTime
+}: TranscriptPanelProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeEntryRef = useRef<HTMLLIElement>(null);
+  const [filter, setFilter] = useState('');
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selection, setSelection] = useState<{ anchor: number; focus: number } | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Index of the entry being spoken at the current player position
+  const activeIndex = useMemo(() => {
+    const currentMs = currentTimestamp * 1000;
+    let index = -1;
+    for (let i = 0; i < entries.length && entries[i].offset <= currentMs; i++) {
+      index = i;
+    }
+    return index;
+  }, [entries, currentTimestamp]);
+
+  const visibleEntries = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => !query || entry.text.toLowerCase().includes(query));
+  }, [entries, filter]);
+
+  const selectionStart = selection ? Math.min(selection.anchor, selection.focus) : -1;
+  const selectionEnd = selection ? Math.max(selection.anchor, selection.focus) : -1;
+
+  // A new transcript (e.g. another language) invalidates the selected line indexes
+  useEffect(() => {
+    setSelection(null);
+    setIsSelecting(false);
+  }, [entries]);
+
+  // Keep the active line in view without scrolling the rest of the page
+  useEffect(() => {
+    const container = containerRef.current;
+    const activeEntry = activeEntryRef.current;
+    if (!container || !activeEntry || filter || isSelecting) return;
+
+    // The list container is positioned, so offsetTop is relative to it
+    const entryTop = activeEntry.offsetTop;
+    const entryBottom = entryTop + activeEntry.offsetHeight;
+    if (entryTop < container.scrollTop || entryBottom > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: entryTop - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex, filter, isSelecting]);
+
+  const handleEntryClick = (index: number) => {
+    if (!isSelecting) {
+      onSeek(entries[index].offset / 1000);
+      return;
+    }
+
+    // First click anchors the selection, the second extends it; a third starts over
+    setSelection(prev => {
+      if (!prev || prev.anchor !== prev.focus) return { anchor: index, focus: index };
+      return { anchor: prev.anchor, focus: index };
+    });
+  };
+
+  const clearSelection = () => {
+    setSelection(null);
+    setIsSelecting(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again after an error
+    if (!file) return;
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      await onUpload(file);
+    } catch (err) {
+      console.error('Error uploading transcript:', err);
+      setUploadError(err instanceof Error ? err.message : 'Failed to upload the subtitle file.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleAsk = () => {
+    if (!selection) return;
+
+    const selected = entries.slice(selectionStart, selectionEnd + 1);
+    const last = selected[selected.length - 1];
+    onAskAboutSelection(
+      selected.map(entry => entry.text).join(' '),
+      selected[0].offset / 1000,
+      (last.offset + last.duration) / 1000
+    );
+    clearSelection();
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-md mt-6 flex-shrink-0 flex flex-col">
+      {/* Panel Header */}
+      <div className="p-4 border-b border-slate-200 flex flex-col gap-3">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="font-medium text-slate-700 flex items-center gap-2">
+            <FileText size={16} className="text-blue-600" />
+            Transcript
+          </h3>
+          {entries.length > 0 && (
+            <div className="flex items-center gap-2">
+              <TranscriptDownloadMenu videoId={videoId} lang={lang} />
+              <button
+                onClick={() => (isSelecting ? clearSelection() : setIsSelecting(true))}
+                className={`text-xs font-medium flex items-center gap-1.5 px-3 py-1.5 rounded-full border transition-colors ${isSelecting
+                  ? 'bg-blue-50 text-blue-700 border-blue-200'
+                  : 'bg-slate-50 text-slate-600 border-slate-200 hover:bg-slate-100'
+                }`}
+                title={isSelecting ? 'Cancel selection' : 'Select lines to ask about'}
+              >
+                {isSelecting ? <X size={12} /> : <MousePointerClick size={12} />}
+                {isSelecting ? 'Cancel' : 'Select lines'}
+              </button>
+            </div>
+          )}
+        </div>
+        {entries.length > 0 && (
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-slate-400">
+              <Search size={14} />
+            </div>
+            <input
+              type="text"
+              placeholder="Filter transcript..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="w-full rounded-lg border border-slate-300 pl-9 pr-3 py-2 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Filter transcript"
+            />
+          </div>
+        )}
+        {isSelecting && (
+          <div className="flex items-center justify-between gap-3 text-xs text-slate-600">
+            <span>
+              {selection
+                ? `Selected ${formatTime(entries[selectionStart].offset / 1000)} - ${formatTime((entries[selectionEnd].offset + entries[selectionEnd].duration) / 1000)}`
+                : 'Click the first and last line of the part you want to ask about.'}
+            </span>
+            <button
+              onClick={handleAsk}
+              disabled={!selection || isAiThinking}
+              className="inline-flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg font-medium disabled:opacity-60 disabled:cursor-not-allowed transition-colors shadow-sm"
+            >
+              <MessageSquarePlus size={14} />
+              Ask about this
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Transcript Lines */}
+      <div ref={containerRef} className="max-h-[320px] overflow-y-auto scrollbar-thin relative">
+        {isLoading && (
+          <div className="animate-pulse space-y-3 p-4">
+            <div className="h-4 bg-slate-200 rounded-full w-3/4"></div>
+            <div className="h-4 bg-slate-200 rounded-full w-2/3"></div>
+            <div className="h-4 bg-slate-200 rounded-full w-1/2"></div>
+          </div>
+        )}
+        {!isLoading && error && (
+          <p className="p-4 text-sm text-slate-500">{error}</p>
+        )}
+        {!isLoading && entries.length === 0 && (
+          <div className="px-4 pb-4 flex flex-col items-start gap-2">
+            <p className="text-sm text-slate-600">
+              Have subtitles for this video? Upload an SRT or WebVTT file and the chat will use it.
+            </p>
+            <label className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${isUploading
+              ? 'bg-slate-100 text-slate-400 border-slate-200 cursor-not-allowed'
+              : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50 cursor-pointer'
+            }`}>
+              {isUploading ? <LoadingSpinner size="small" color="slate" /> : <Upload size={14} />}
+              {isUploading ? 'Uploading...' : 'Upload subtitles'}
+              <input
+                type="file"
+                accept=".srt,.vtt"
+                onChange={handleFileChange}
+                disabled={isUploading}
+                className="sr-only"
+              />
+            </label>
+            {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
+          </div>
+        )}
+        {!isLoading && !error && entries.length > 0 && visibleEntries.length === 0 && (
+          <p className="p-4 text-sm text-slate-500">No lines match &quot;{filter}&quot;.</p>
+        )}
+        {!isLoading && !error && visibleEntries.length > 0 && (
+          <ul className="py-2">
+            {visibleEntries.map(({ entry, index }) => {
+              const isActive = index === activeIndex;
+              const isSelected = index >= selectionStart && index <= selectionEnd;
+              return (
+                <li key={index} ref={isActive ? activeEntryRef : undefined}>
+                  <button
+                    onClick={() => handleEntryClick(index)}
+                    className={`w-full text-left flex gap-3 px-4 py-1.5 text-sm transition-colors ${isSelected
+                      ? 'bg-blue-100 text-blue-900'
+                      : isActive
+                        ? 'bg-blue-50 text-slate-900'
+                        : 'text-slate-600 hover:bg-slate-50'
+                    }`}
+                    title={isSelecting ? 'Select this line' : `Jump to ${formatTime(entry.offset / 1000)}`}
+                  >
+                    <span className={`font-mono text-xs pt-0.5 flex-shrink-0 ${isActive ? 'text-blue-700 font-semibold' : 'text-slate-400'}`}>
+                      {formatTime(entry.offset / 1000)}
+                    </span>
+                    <span className={isActive ? 'font-medium' : ''}>{entry.text}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
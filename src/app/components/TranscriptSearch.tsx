@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { TranscriptSearchHit } from '@/types';
+
+interface TranscriptSearchProps {
+  videoId: string;
+  lang?: string;
+  onSeek: (seconds: number) => void;
+}
+
+export function TranscriptSearch({ videoId, lang, onSeek }: TranscriptSearchProps) {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<TranscriptSearchHit[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Results belong to one transcript; drop them when the video or language changes
+  useEffect(() => {
+    setHits(null);
+    setError(null);
+  }, [videoId, lang]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) return;
+
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ videoId, q: trimmedQuery });
+      if (lang) params.set('lang', lang);
+      const response = await fetch(`/api/transcript/search?${params.toString()}`);
+
+      if (!response.ok) {
+        let errorMessage = `HTTP error! status: ${response.status}`;
+        try {
+          const errorData = await response.json();
+          errorMessage = errorData.message || errorMessage;
+        } catch {
+          errorMessage = response.statusText || errorMessage;
+        }
+        throw new Error(errorMessage);
+      }
+
+      const data = await response.json();
+      setHits(Array.isArray(data.hits) ? data.hits : []);
+    } catch (err) {
+      console.error('Error searching transcript:', err);
+      setError(err instanceof Error ? err.message : 'Failed to search the transcript.');
+      setHits(null);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const clearResults = () => {
+    setQuery('');
+    setHits(null);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-md mt-6 flex-shrink-0">
+      <form onSubmit={handleSubmit} className="flex gap-2 items-center">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-slate-400">
+            <Search size={14} />
+          </div>
+          <input
+            type="text"
+            placeholder="Find where something is said..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full rounded-lg border border-slate-300 pl-9 pr-3 py-2 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="Search the transcript"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!query.trim() || isSearching}
+          className="inline-flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-lg text-sm font-medium disabled:opacity-60 disabled:cursor-not-allowed transition-colors shadow-sm"
+        >
+          {isSearching ? <LoadingSpinner size="small" color="white" /> : 'Search'}
+        </button>
+        {(hits || error) && (
+          <button
+            type="button"
+            onClick={clearResults}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+            title="Clear search"
+          >
+            <X size={16} />
+          </button>
+        )}
+      </form>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {hits && (
+        <div className="mt-3">
+          <p className="text-xs text-slate-500 mb-2">
+            {hits.length === 0 ? 'No matches in the transcript.' : `${hits.length} match${hits.length === 1 ? '' : 'es'}`}
+          </p>
+          <ul className="max-h-[240px] overflow-y-auto scrollbar-thin space-y-1">
+            {hits.map((hit, index) => (
+              <li key={`${hit.entryIndex}-${index}`}>
+                <button
+                  onClick={() => onSeek(hit.offset / 1000)}
+                  className="w-full text-left flex gap-3 px-2 py-1.5 rounded-lg text-sm text-slate-600 hover:bg-slate-50 transition-colors"
+                  title={`Jump to ${hit.label}`}
+                >
+                  <span className="font-mono text-xs text-blue-600 font-medium pt-0.5 flex-shrink-0">{hit.label}</span>
+                  <span>
+                    {hit.before}
+                    <mark className="bg-yellow-100 text-slate-900 rounded px-0.5">{hit.match}</mark>
+                    {hit.after}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import "server-only"
+
+import { NextResponse } from "next/server"
+import type { SupabaseClient, User } from "@supabase/supabase-js"
+import { createClient } from "./supabase/server"
+
+export interface AuthenticatedRequest {
+  user: User
+  supabase: SupabaseClient // Acts as the user, for row-level security
+}
+
+/**
+ * Verify the Supabase session of the request from its cookies
+ * @returns The signed-in user and a client acting as them, or null for anonymous requests
+ */
+export async function authenticateRequest(): Promise<AuthenticatedRequest | null> {
+  try {
+    const supabase = await createClient()
+    // getUser checks the token with Supabase; getSession would trust the cookie as is
+    const { data: { user }, error } = await supabase.auth.getUser()
+    if (error || !user) return null
+    return { user, supabase }
+  } catch (error) {
+    console.error('Error verifying the session:', error)
+    return null
+  }
+}
+
+/**
+ * The response for API calls without a valid session
+ */
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json(
+    { message: 'Please sign in to use this feature.', error: 'UNAUTHENTICATED' },
+    { status: 401 }
+  )
+}
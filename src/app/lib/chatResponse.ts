@@ -0,0 +1,181 @@
+import "server-only"
+
+import type { ChatModelProvider, ChatTurn, ReportedUsage } from "@/utils/llm"
+import { fitHistoryToBudget } from "@/utils/llm/history"
+import { buildChatUsage, createUsageTally, withUsageListener } from "@/utils/llm/usage"
+import { suggestFollowUpQuestions } from "@/utils/llm/suggestions"
+import { CHAT_STREAM_CONTENT_TYPE, encodeChatStreamEvent } from "@/utils/chatStream"
+import { DEFAULT_MAX_OUTPUT_TOKENS, DEFAULT_TEMPERATURE, formatPersonaInstruction, type PersonaSettings } from "@/utils/personas"
+import { buildVideoCitations, type CitationSource } from "@/utils/transcript"
+import { createTimestampNormalizer, type TimestampNormalizerOptions } from "@/utils/transcript/timestampStream"
+import type { ConversationSummary } from "@/types"
+import type { AuthenticatedRequest } from "./auth"
+import { getQuotaHeaders, recordUsage } from "./quota"
+
+/**
+ * A turn of the history as the client sends it, in Gemini's format
+ */
+export interface ClientChatTurn {
+  role: string
+  parts: Array<{ text: string }>
+}
+
+export interface ChatResponseOptions {
+  provider: ChatModelProvider
+  auth: AuthenticatedRequest
+  signal: AbortSignal // The request's signal; the answer stops when the client goes away
+  title: string // What the conversation is about, for the history summary and the follow-up questions
+  systemInstruction: string // Without the persona or the history summary, which are added here
+  persona?: PersonaSettings | null // Answer style; the defaults when missing
+  chatHistory: ClientChatTurn[]
+  historySummary?: ConversationSummary | null // Summary returned with the previous answer
+  userMessage: string
+  transcriptContext: string // Appended to the question: snippets, passages and what the transcripts are
+  hasTranscript: boolean
+  normalizer: TimestampNormalizerOptions // How timestamps of the answer are checked and formatted
+  citationSources: CitationSource[] // The videos of the conversation, in tag order (V1 first)
+  defaultVideo?: number // Tag number of the video untagged timestamps refer to
+  transcriptLang?: string | null
+  transcriptSource?: string | null
+}
+
+/**
+ * Answer a chat question as a stream of chat events (see chatStream), and count it against the user's quota:
+ * the question and any history summary up front, the answer when it ends, fails or is stopped,
+ * and the follow-up questions after it
+ */
+export async function streamChatResponse(options: ChatResponseOptions): Promise<Response> {
+  const { provider, auth, persona, userMessage, transcriptContext } = options
+
+  // The client sends history in Gemini's format; providers take plain turns
+  const history: ChatTurn[] = options.chatHistory.map(turn => ({
+    role: turn.role === "model" ? "model" : "user",
+    text: turn.parts.map(part => part.text).join(""),
+  }))
+
+  // Keep the history under the token budget, folding older turns into a running summary
+  const summaryTally = createUsageTally()
+  const budgeted = await fitHistoryToBudget(withUsageListener(provider, summaryTally.onUsage), options.title, history, options.historySummary)
+  const systemInstruction = `${options.systemInstruction}${persona ? formatPersonaInstruction(persona) : ""}`
+  const fullSystemInstruction = budgeted.summary
+    ? `${systemInstruction}\n\nSUMMARY OF THE EARLIER CONVERSATION (older turns are not repeated below):\n${budgeted.summary.text}`
+    : systemInstruction
+  const fullContext = `${userMessage}${transcriptContext}`
+
+  // The whole prompt, for the token estimate
+  const promptText = [fullSystemInstruction, ...budgeted.history.map(turn => turn.text), fullContext].join("\n")
+
+  // The question counts against the daily quota even if it is stopped, with the tokens of any history summary;
+  // the tokens of the answer are added when it ends
+  const quota = await recordUsage(auth.supabase, auth.user.id, { messages: 1, ...summaryTally.usage })
+
+  // Stopped from the client: the fetch is aborted, which cancels the stream and the request
+  const abortController = new AbortController()
+  options.signal.addEventListener("abort", () => abortController.abort())
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now()
+      let reportedUsage: ReportedUsage | null = null // Assigned by the provider when the stream ends
+      let responseText = ""
+      let answerRecorded = false // Whether the tokens of the answer are already counted
+      try {
+        const streamingResponse = provider.streamChat({
+          systemInstruction: fullSystemInstruction,
+          history: budgeted.history,
+          message: fullContext,
+          config: {
+            maxOutputTokens: persona?.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+            temperature: persona?.temperature ?? DEFAULT_TEMPERATURE,
+            topP: 0.8,
+            topK: 40,
+          },
+          signal: abortController.signal,
+          onUsage: usage => { reportedUsage = usage },
+        })
+
+        // Rewrite timestamps in any format as canonical, transcript-snapped [MM:SS] / [H:MM:SS]
+        const normalizer = createTimestampNormalizer(options.normalizer)
+        const sendChunk = (chunkText: string) => {
+          if (!chunkText) return
+          responseText += chunkText
+          controller.enqueue(encodeChatStreamEvent({ type: "token", text: chunkText }))
+        }
+
+        // The normalizer holds back a possibly split timestamp
+        for await (const rawChunkText of streamingResponse) {
+          if (abortController.signal.aborted) break
+          sendChunk(normalizer.push(rawChunkText))
+        }
+        // Nobody is reading any more; the client keeps what it received as a partial answer
+        if (abortController.signal.aborted) {
+          console.log("Chat response stopped by the client")
+          // Priced like a finished answer; the provider rarely reports counts for a stream cut short
+          await recordUsage(auth.supabase, auth.user.id, buildChatUsage(provider.model, reportedUsage, { prompt: promptText, response: responseText }, startedAt))
+          return
+        }
+        sendChunk(normalizer.flush())
+
+        // Check every cited timestamp against the transcripts
+        for (const citation of buildVideoCitations(responseText, options.citationSources, options.defaultVideo)) {
+          controller.enqueue(encodeChatStreamEvent({ type: "citation", citation }))
+        }
+
+        // The provider's token counts, or an estimate when it reports none
+        const usage = buildChatUsage(provider.model, reportedUsage, { prompt: promptText, response: responseText }, startedAt)
+        controller.enqueue(encodeChatStreamEvent({ type: "usage", usage }))
+        const quotaAfter = await recordUsage(auth.supabase, auth.user.id, usage)
+        answerRecorded = true
+        controller.enqueue(encodeChatStreamEvent({ type: "quota", quota: quotaAfter }))
+
+        controller.enqueue(encodeChatStreamEvent({
+          type: "done",
+          fullResponse: responseText,
+          transcriptLang: options.transcriptLang ?? null,
+          transcriptSource: options.transcriptSource ?? null,
+          historySummary: budgeted.summary,
+          summaryUpdated: budgeted.summaryUpdated,
+        }))
+
+        // Suggest what to ask next; the answer is already complete, so this comes after `done`
+        const suggestionsTally = createUsageTally()
+        const questions = await suggestFollowUpQuestions(withUsageListener(provider, suggestionsTally.onUsage), options.title, userMessage, responseText, transcriptContext, options.hasTranscript)
+        await recordUsage(auth.supabase, auth.user.id, suggestionsTally.usage)
+        if (abortController.signal.aborted) return
+        if (questions.length > 0) {
+          controller.enqueue(encodeChatStreamEvent({ type: "suggestions", questions }))
+        }
+
+        controller.close()
+      } catch (error) {
+        // Whatever the model generated before the failure or the stop is still billed
+        if (!answerRecorded) {
+          await recordUsage(auth.supabase, auth.user.id, buildChatUsage(provider.model, reportedUsage, { prompt: promptText, response: responseText }, startedAt))
+        }
+        if (abortController.signal.aborted) {
+          console.log("Chat response stopped by the client")
+          return
+        }
+        console.error("Error in streaming response:", error)
+        controller.enqueue(encodeChatStreamEvent({
+          type: "error",
+          message: error instanceof Error ? error.message : "Unknown error during streaming",
+          code: "STREAM_ERROR",
+        }))
+        controller.close()
+      }
+    },
+    cancel() {
+      abortController.abort()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": CHAT_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      ...getQuotaHeaders(quota)
+    }
+  })
+}
@@ -0,0 +1,167 @@
+import "server-only"
+
+import { NextResponse } from "next/server"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { QuotaStatus, UsageTotals } from "@/types"
+
+// Daily allowance per user; override with DAILY_MESSAGE_QUOTA and DAILY_TOKEN_QUOTA
+const DEFAULT_DAILY_MESSAGE_QUOTA = 100
+const DEFAULT_DAILY_TOKEN_QUOTA = 500000
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number.parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Today's date in UTC, the key of the usage row
+ */
+function getUsageDay(now: Date = new Date()): string {
+  return now.toISOString().substring(0, 10)
+}
+
+function getNextReset(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+}
+
+function getDailyLimits(): { messageLimit: number; tokenLimit: number } {
+  return {
+    messageLimit: readLimit(process.env.DAILY_MESSAGE_QUOTA, DEFAULT_DAILY_MESSAGE_QUOTA),
+    tokenLimit: readLimit(process.env.DAILY_TOKEN_QUOTA, DEFAULT_DAILY_TOKEN_QUOTA),
+  }
+}
+
+function buildQuotaStatus(messagesUsed: number, tokensUsed: number): QuotaStatus {
+  const { messageLimit, tokenLimit } = getDailyLimits()
+  return {
+    messagesUsed,
+    messageLimit,
+    messagesRemaining: Math.max(messageLimit - messagesUsed, 0),
+    tokensUsed,
+    tokenLimit,
+    tokensRemaining: Math.max(tokenLimit - tokensUsed, 0),
+    resetsAt: getNextReset().toISOString(),
+  }
+}
+
+export function isQuotaExhausted(quota: QuotaStatus): boolean {
+  return quota.messagesRemaining <= 0 || quota.tokensRemaining <= 0
+}
+
+/**
+ * A user's usage today
+ * @param supabase A client acting as the user (see authenticateRequest)
+ */
+export async function getQuotaStatus(supabase: SupabaseClient, userId: string): Promise<QuotaStatus> {
+  try {
+    const { data, error } = await supabase
+      .from('usage_daily')
+      .select('messages, input_tokens, output_tokens')
+      .eq('user_id', userId)
+      .eq('day', getUsageDay())
+      .maybeSingle()
+
+    if (error) throw error
+    return buildQuotaStatus(data?.messages || 0, (data?.input_tokens || 0) + (data?.output_tokens || 0))
+  } catch (error) {
+    // Fail closed: usage that cannot be read counts as used up, so an outage does not lift the limits
+    console.error('Error fetching usage quota:', error)
+    const { messageLimit, tokenLimit } = getDailyLimits()
+    return buildQuotaStatus(messageLimit, tokenLimit)
+  }
+}
+
+/**
+ * Add to the signed-in user's usage today. The increment_usage database function adds to the
+ * counters in one statement, so concurrent requests are all counted; users cannot write usage_daily
+ * themselves, and the function only ever adds to their own row.
+ * @param supabase A client acting as the user (see authenticateRequest)
+ * @returns The quota after the addition
+ */
+export async function recordUsage(
+  supabase: SupabaseClient,
+  userId: string,
+  usage: { messages?: number; inputTokens?: number; outputTokens?: number; costUsd?: number }
+): Promise<QuotaStatus> {
+  try {
+    const { data, error } = await supabase
+      .rpc('increment_usage', {
+        p_messages: usage.messages || 0,
+        p_input_tokens: usage.inputTokens || 0,
+        p_output_tokens: usage.outputTokens || 0,
+        p_cost_usd: usage.costUsd || 0,
+      })
+      .single<{ messages: number; input_tokens: number; output_tokens: number }>()
+
+    if (error) throw error
+    return buildQuotaStatus(data.messages, data.input_tokens + data.output_tokens)
+  } catch (error) {
+    console.error(`Error recording usage for user ${userId}:`, error)
+    return getQuotaStatus(supabase, userId)
+  }
+}
+
+/**
+ * A user's usage over all days
+ * @param supabase A client acting as the user (see authenticateRequest)
+ * @returns The totals, or null when they could not be read
+ */
+export async function getUsageTotals(supabase: SupabaseClient, userId: string): Promise<UsageTotals | null> {
+  try {
+    // One row per day, so even years of use stay small
+    const { data, error } = await supabase
+      .from('usage_daily')
+      .select('day, messages, input_tokens, output_tokens, cost_usd')
+      .eq('user_id', userId)
+      .order('day', { ascending: true })
+
+    if (error) throw error
+    return data.reduce<UsageTotals>(
+      (totals, row) => ({
+        messages: totals.messages + row.messages,
+        inputTokens: totals.inputTokens + row.input_tokens,
+        outputTokens: totals.outputTokens + row.output_tokens,
+        totalTokens: totals.totalTokens + row.input_tokens + row.output_tokens,
+        costUsd: totals.costUsd + Number(row.cost_usd || 0), // NUMERIC columns arrive as strings
+        since: totals.since || row.day,
+      }),
+      { messages: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, since: null }
+    )
+  } catch (error) {
+    console.error('Error fetching usage totals:', error)
+    return null
+  }
+}
+
+/**
+ * Headers telling the client how much of its quota is left
+ */
+export function getQuotaHeaders(quota: QuotaStatus): Record<string, string> {
+  return {
+    'X-Quota-Messages-Remaining': String(quota.messagesRemaining),
+    'X-Quota-Tokens-Remaining': String(quota.tokensRemaining),
+    'X-Quota-Reset': quota.resetsAt,
+  }
+}
+
+/**
+ * The 429 response once the daily quota is used up, retryable at the next reset
+ */
+export function quotaExceededResponse(quota: QuotaStatus): NextResponse {
+  const retryAfterSeconds = Math.max(Math.ceil((Date.parse(quota.resetsAt) - Date.now()) / 1000), 1)
+  const exhausted = quota.messagesRemaining <= 0 ? 'messages' : 'tokens'
+  return NextResponse.json(
+    {
+      message: `You have used today's AI ${exhausted} allowance. It resets at midnight UTC.`,
+      error: 'QUOTA_EXCEEDED',
+      quota,
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(retryAfterSeconds),
+        ...getQuotaHeaders(quota),
+      },
+    }
+  )
+}
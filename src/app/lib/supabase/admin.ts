@@ -0,0 +1,21 @@
+import "server-only"
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+
+let adminClient: SupabaseClient | null = null
+
+/**
+ * A client with the service-role key, for the shared caches users must not write directly
+ * (transcripts, uploaded transcripts and generated chapters). It bypasses row-level security,
+ * so it must only ever run on the server.
+ */
+export function getAdminClient(): SupabaseClient {
+  if (!adminClient) {
+    adminClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    )
+  }
+  return adminClient
+}
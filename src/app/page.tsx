@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { MessageSquare, Search, ArrowRight, LogIn, Youtube } from 'lucide-react';
 import { RecentConversationsGrid } from '@/app/components/RecentConversationsGrid';
 import { useAuth } from '@/contexts/AuthContext';
+import { extractPlaylistId, extractVideoId } from '@/utils/youtube';
 
 export default function HomePage() {
   const [videoUrl, setVideoUrl] = useState('');
@@ -17,20 +18,18 @@ export default function HomePage() {
     e.preventDefault();
     setError('');
 
+    // A playlist opens as a course, starting at the video of a watch URL inside it
+    const playlistId = extractPlaylistId(videoUrl);
     const videoId = extractVideoId(videoUrl);
-    if (videoId) {
+    if (playlistId) {
+      router.push(`/playlist/${playlistId}${videoId ? `?v=${videoId}` : ''}`);
+    } else if (videoId) {
       router.push(`/video/${videoId}`);
     } else {
       setError('Please enter a valid YouTube URL');
     }
   };
 
-  const extractVideoId = (url: string): string | null => {
-    const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-    const match = url.match(regExp);
-    return (match && match[2].length === 11) ? match[2] : null;
-  };
-
   return (
     <div className="min-h-screen bg-white text-slate-800 flex flex-col justify-center">
       <div className="max-w-4xl mx-auto px-4 py-12 w-full">
@@ -51,7 +50,7 @@ export default function HomePage() {
               <div className="text-center mb-12">
                 <h2 className="text-2xl font-semibold mb-4">Discover deeper insights from videos</h2>
                 <p className="text-slate-600 max-w-lg mx-auto">
-                  Enter any YouTube URL below to start an AI-powered conversation about the content.
+                  Enter any YouTube video or playlist URL below to start an AI-powered conversation about the content.
                 </p>
               </div>
 
@@ -61,7 +60,7 @@ export default function HomePage() {
                   <form onSubmit={handleSubmit} className="space-y-6">
                     <div>
                       <label htmlFor="video-url" className="block text-sm font-medium text-slate-700 mb-2">
-                        YouTube Video URL
+                        YouTube Video or Playlist URL
                       </label>
                       <div className="relative">
                         <div className="absolute inset-y-0 left-0 flex items-center pl-4 pointer-events-none text-red-500">
@@ -75,7 +74,7 @@ export default function HomePage() {
                           onChange={(e) => setVideoUrl(e.target.value)}
                           className="w-full rounded-lg border border-slate-300 pl-12 py-3 text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                           required
-                          aria-label="YouTube Video URL Input"
+                          aria-label="YouTube Video or Playlist URL Input"
                         />
                       </div>
                       {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
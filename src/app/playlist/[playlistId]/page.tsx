@@ -0,0 +1,621 @@
+// FILE: src/app/playlist/[playlistId]/page.tsx
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { AlertTriangle } from 'lucide-react';
+import YouTube, { YouTubeEvent, YouTubeProps, YouTubePlayer } from 'react-youtube';
+import { ChatWindow } from '@/app/components/ChatWindow';
+import { NavBar } from '@/app/components/NavBar';
+import { PlaylistVideoList } from '@/app/components/PlaylistVideoList';
+import { formatTime } from '@/utils/formatters';
+import { parseTimeRange, ONE_HOUR_SECONDS } from '@/utils/timestamps';
+import { readChatStream } from '@/utils/chatStream';
+import { branchKey, getActiveThread, getBranchPositions, type BranchSelection } from '@/utils/chatBranches';
+import { getPlaylistProgress, savePlaylistProgress } from '@/utils/playlistStorage';
+import { useAuth } from '@/contexts/AuthContext';
+import { ChatUsage, Citation, ConversationSummary, Message, MessageVersion, Playlist, PlaylistVideoProgress, QuotaStatus } from '@/types';
+
+// A video counts as completed once this share of it has been watched
+const COMPLETION_RATIO = 0.9;
+
+// Progress is saved at most this often while a video plays, and whenever a video is completed
+const PROGRESS_SAVE_INTERVAL_SECONDS = 15;
+
+// Shown, and kept in the history, for an answer stopped before its first word
+const STOPPED_BEFORE_ANSWER_TEXT = '_Stopped before answering._';
+
+const PLAYLIST_STARTER_QUESTIONS = [
+    'What does this course cover, video by video?',
+    'Which videos should I watch first if I am new to the topic?',
+    'Which video covers the hardest material?',
+];
+
+/**
+ * Load a playlist and its videos from the playlist API
+ */
+async function fetchPlaylist(id: string): Promise<Playlist> {
+    const response = await fetch(`/api/youtube/playlist?playlistId=${id}`);
+
+    if (!response.ok) {
+        let errorMessage = `HTTP error! status: ${response.status}`;
+        try {
+            const errorData = await response.json();
+            errorMessage = errorData.message || errorMessage;
+        } catch {
+            errorMessage = response.statusText || errorMessage;
+        }
+        throw new Error(errorMessage);
+    }
+
+    const playlist = await response.json() as Playlist;
+    if (!playlist || !Array.isArray(playlist.videos)) {
+        console.error("Invalid API response format:", playlist);
+        throw new Error('Received invalid playlist format from API.');
+    }
+    return playlist;
+}
+
+export default function PlaylistPage() {
+    const params = useParams();
+    const searchParams = useSearchParams();
+    const playlistId = Array.isArray(params.playlistId) ? params.playlistId[0] : params.playlistId;
+    const requestedVideoId = searchParams.get('v'); // The video of a watch URL inside the playlist
+    const { user, session } = useAuth();
+    const isSignedIn = !!user && !!session;
+
+    const [playlist, setPlaylist] = useState<Playlist | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string | null>(null);
+    const [initialVideoId, setInitialVideoId] = useState<string | null>(null); // Loaded into the player when it is created
+    const [initialStartSeconds, setInitialStartSeconds] = useState<number | undefined>(undefined); // Where the user left off in it
+    const [currentVideoId, setCurrentVideoId] = useState<string | null>(null); // In the player now
+    const [progress, setProgress] = useState<Record<string, PlaylistVideoProgress>>({});
+    const [player, setPlayer] = useState<YouTubePlayer | null>(null);
+    const [currentTimestamp, setCurrentTimestamp] = useState<number>(0);
+    const [messages, setMessages] = useState<Message[]>([]); // Every branch of the playlist conversation
+    const [selectedBranches, setSelectedBranches] = useState<BranchSelection>({});
+    const [isAiThinking, setIsAiThinking] = useState<boolean>(false);
+    const [historySummary, setHistorySummary] = useState<ConversationSummary | null>(null);
+    const [quota, setQuota] = useState<QuotaStatus | null>(null); // What is left of today's allowance
+    const abortControllerRef = useRef<AbortController | null>(null); // Aborts the answer being streamed
+    const savedProgressRef = useRef(new Map<string, PlaylistVideoProgress>()); // Last saved progress, by video ID
+
+    // Load the playlist and the user's progress, then pick the video to start with
+    useEffect(() => {
+        if (!playlistId) return;
+
+        let isCancelled = false;
+        async function loadPlaylist() {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const [loaded, savedProgress] = await Promise.all([
+                    fetchPlaylist(playlistId as string),
+                    isSignedIn && user ? getPlaylistProgress(user.id, playlistId as string) : Promise.resolve({} as Record<string, PlaylistVideoProgress>),
+                ]);
+                if (isCancelled) return;
+                if (loaded.videos.length === 0) {
+                    throw new Error('This playlist has no videos that can be played.');
+                }
+
+                savedProgressRef.current = new Map(Object.entries(savedProgress));
+                setPlaylist(loaded);
+                setProgress(savedProgress);
+
+                // Resume at the first video not completed yet, unless the URL named one
+                const startVideo = loaded.videos.find(video => video.videoId === requestedVideoId)
+                    || loaded.videos.find(video => !savedProgress[video.videoId]?.completed)
+                    || loaded.videos[0];
+                const startProgress = savedProgress[startVideo.videoId];
+                setInitialVideoId(startVideo.videoId);
+                setInitialStartSeconds(startProgress && !startProgress.completed ? startProgress.watchedSeconds : undefined);
+                setCurrentVideoId(startVideo.videoId);
+            } catch (err) {
+                console.error('Error loading playlist:', err);
+                if (!isCancelled) setError(err instanceof Error ? err.message : 'Failed to load the playlist.');
+            } finally {
+                if (!isCancelled) setIsLoading(false);
+            }
+        }
+
+        loadPlaylist();
+        return () => {
+            isCancelled = true;
+        };
+    }, [playlistId, requestedVideoId, isSignedIn, user]);
+
+    // Today's remaining quota, kept up to date by the chat stream afterwards
+    useEffect(() => {
+        if (!isSignedIn) {
+            setQuota(null);
+            return;
+        }
+
+        let isCancelled = false;
+        fetch('/api/usage/quota')
+            .then(response => response.ok ? response.json() : null)
+            .then(data => {
+                if (!isCancelled && data?.quota) setQuota(data.quota);
+            })
+            .catch(err => console.error('Error fetching usage quota:', err));
+        return () => {
+            isCancelled = true;
+        };
+    }, [isSignedIn]);
+
+    const currentIndex = playlist ? playlist.videos.findIndex(video => video.videoId === currentVideoId) : -1;
+    const currentVideo = currentIndex >= 0 && playlist ? playlist.videos[currentIndex] : null;
+
+    // Timestamps of videos of an hour or more are shown as H:MM:SS, like in the answers
+    const isLongVideo = (currentVideo?.durationSeconds || 0) >= ONE_HOUR_SECONDS;
+    const formatVideoTime = useCallback((seconds: number) => formatTime(seconds, isLongVideo), [isLongVideo]);
+    const formatListTime = useCallback((seconds: number) => formatTime(seconds, seconds >= ONE_HOUR_SECONDS), []);
+
+    /**
+     * Remember the furthest position reached in a video, completing it near the end
+     * @param ended The video played to its end
+     */
+    const recordProgress = useCallback((videoId: string, seconds: number, ended: boolean = false) => {
+        const durationSeconds = playlist?.videos.find(video => video.videoId === videoId)?.durationSeconds;
+        setProgress(prev => {
+            const existing = prev[videoId];
+            const watchedSeconds = Math.max(existing?.watchedSeconds || 0, Math.floor(seconds));
+            const completed = !!existing?.completed || ended || (!!durationSeconds && watchedSeconds >= durationSeconds * COMPLETION_RATIO);
+            if (existing && existing.watchedSeconds === watchedSeconds && existing.completed === completed) return prev;
+            return { ...prev, [videoId]: { videoId, watchedSeconds, durationSeconds, completed } };
+        });
+    }, [playlist]);
+
+    // Follow the player position, for the clock and the progress of the video being watched
+    useEffect(() => {
+        if (!player || !currentVideoId || typeof player.getCurrentTime !== 'function') {
+            return;
+        }
+
+        const updateTime = () => {
+            try {
+                const time = player.getCurrentTime();
+                if (typeof time === 'number') {
+                    setCurrentTimestamp(Math.floor(time));
+                    recordProgress(currentVideoId, time);
+                }
+            } catch { /* Ignore */ }
+        };
+
+        updateTime();
+        const intervalId = setInterval(updateTime, 1000);
+        return () => clearInterval(intervalId);
+    }, [player, currentVideoId, recordProgress]);
+
+    // Save progress for signed-in users: on completion, and every few seconds of watching
+    useEffect(() => {
+        if (!isSignedIn || !user || !playlistId) return;
+
+        for (const videoProgress of Object.values(progress)) {
+            const saved = savedProgressRef.current.get(videoProgress.videoId);
+            const isDue = !saved
+                || videoProgress.completed !== saved.completed
+                || videoProgress.watchedSeconds - saved.watchedSeconds >= PROGRESS_SAVE_INTERVAL_SECONDS;
+            if (!isDue) continue;
+
+            savedProgressRef.current.set(videoProgress.videoId, videoProgress);
+            savePlaylistProgress(user.id, playlistId as string, videoProgress).catch(err => {
+                console.error('Error saving playlist progress:', err);
+            });
+        }
+    }, [progress, isSignedIn, user, playlistId]);
+
+    // --- Event Handlers ---
+
+    const handlePlayerReady = useCallback((event: YouTubeEvent<YouTubePlayer>) => {
+        setPlayer(event.target);
+        console.log('YouTube player ready.');
+    }, []);
+
+    const handlePlayerStateChange = useCallback((event: YouTubeEvent<number>) => {
+        // 0: ended
+        if (event.data === 0 && currentVideoId) {
+            recordProgress(currentVideoId, currentVideo?.durationSeconds || currentTimestamp, true);
+        }
+    }, [currentVideoId, currentVideo, currentTimestamp, recordProgress]);
+
+    const handlePlayerError = useCallback((event: YouTubeEvent<number>) => {
+        console.error('YouTube Player Error Code:', event.data);
+        let message = 'An error occurred with the YouTube player.';
+        switch (event.data) {
+            case 2: message = "Invalid video ID or player parameter."; break;
+            case 5: message = "HTML5 Player Error."; break;
+            case 100: message = "Video not found or removed."; break;
+            case 101:
+            case 150: message = "Playback in embedded players has been disabled for this video."; break;
+        }
+        setError(message);
+    }, []);
+
+    /**
+     * Play a video of the playlist, optionally from a position
+     */
+    const playVideo = (videoId: string, seconds?: number) => {
+        if (!player || typeof player.seekTo !== 'function') {
+            console.warn("Player not available to seek.");
+            return;
+        }
+
+        if (videoId !== currentVideoId) {
+            // Resume where the user left off unless a position was asked for
+            const resumeAt = seconds ?? (progress[videoId] && !progress[videoId].completed ? progress[videoId].watchedSeconds : 0);
+            player.loadVideoById({ videoId, startSeconds: resumeAt });
+            setCurrentVideoId(videoId);
+            setCurrentTimestamp(resumeAt);
+            setError(null);
+            return;
+        }
+
+        if (seconds !== undefined) {
+            player.seekTo(seconds, true);
+            if (typeof player.playVideo === 'function') player.playVideo();
+        }
+    };
+
+    // A [V3 12:34] timestamp in an answer plays that moment of the third video
+    const handleTimestampClick = (timeString: string, citedVideoId?: string) => {
+        if (!playlist) return;
+        const range = parseTimeRange(timeString);
+        if (!range) {
+            console.warn(`Could not parse timestamp: ${timeString}`);
+            return;
+        }
+
+        const targetVideoId = citedVideoId
+            || (range.video !== undefined ? playlist.videos[range.video - 1]?.videoId : currentVideoId);
+        if (!targetVideoId) return;
+        playVideo(targetVideoId, range.start);
+    };
+
+    // The branch of the conversation being shown; questions are asked and answered on this path
+    const thread = getActiveThread(messages, selectedBranches);
+    const branchPositions = getBranchPositions(messages, thread);
+
+    /**
+     * Stream the answer to a question about the playlist into a placeholder AI message
+     * @returns The finished answer (partial if it was stopped), or null if it failed
+     */
+    const streamAnswer = async (question: string, previousMessages: Message[], placeholder: Message): Promise<Message | null> => {
+        if (!playlist) return null;
+
+        const replaceAnswer = (answer: Message) => {
+            setMessages(prev => prev.map(msg => msg.id === placeholder.id ? answer : msg));
+        };
+
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        let accumulatedText = '';
+        let finalAiMessage: Message | null = null;
+
+        try {
+            const chatHistory = previousMessages
+                .filter(msg => !msg.isStreaming)
+                .map(msg => ({
+                    role: msg.isAi ? 'model' : 'user',
+                    parts: [{ text: msg.text }]
+                }));
+
+            const response = await fetch('/api/playlist/chat', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    userMessage: question,
+                    chatHistory,
+                    playlist: {
+                        playlistId: playlist.playlistId,
+                        title: playlist.title,
+                        channelTitle: playlist.channelTitle,
+                        videos: playlist.videos,
+                    },
+                    currentVideoId,
+                    timestamp: placeholder.timestamp,
+                    historySummary,
+                }),
+                signal: abortController.signal,
+            });
+
+            if (!response.ok) {
+                let errorText = `Error: ${response.status}`;
+                try {
+                    const errorData = await response.json();
+                    errorText = errorData.message || errorText;
+                    if (errorData.quota) setQuota(errorData.quota); // Over the daily quota
+                } catch (e) {
+                    console.error('Error parsing error response:', e);
+                }
+                throw new Error(errorText);
+            }
+
+            // Read the typed event stream (see utils/chatStream.ts)
+            const citations: Citation[] = [];
+            let usage: ChatUsage | undefined;
+
+            for await (const event of readChatStream(response)) {
+                switch (event.type) {
+                    case 'token':
+                        accumulatedText += event.text;
+                        setMessages(prev =>
+                            prev.map(msg =>
+                                msg.id === placeholder.id ? { ...msg, text: accumulatedText } : msg
+                            )
+                        );
+                        break;
+
+                    case 'citation':
+                        citations.push(event.citation);
+                        break;
+
+                    case 'usage':
+                        usage = event.usage;
+                        break;
+
+                    case 'quota':
+                        setQuota(event.quota);
+                        break;
+
+                    case 'error':
+                        throw new Error(event.message);
+
+                    case 'done':
+                        finalAiMessage = {
+                            ...placeholder,
+                            text: event.fullResponse || accumulatedText,
+                            isStreaming: false,
+                            citations,
+                            usage,
+                        };
+                        replaceAnswer(finalAiMessage);
+                        setHistorySummary(event.historySummary);
+                        break;
+
+                    case 'suggestions':
+                        setMessages(prev =>
+                            prev.map(msg =>
+                                msg.id === placeholder.id ? { ...msg, suggestions: event.questions } : msg
+                            )
+                        );
+                        break;
+                }
+            }
+
+            if (!finalAiMessage) {
+                throw new Error('The response ended unexpectedly.');
+            }
+            return finalAiMessage;
+
+        } catch (error) {
+            if (abortController.signal.aborted) {
+                // Stopped while the follow-up questions were being written: the answer itself is complete
+                if (finalAiMessage) return finalAiMessage;
+
+                const stoppedMessage: Message = {
+                    ...placeholder,
+                    text: accumulatedText || STOPPED_BEFORE_ANSWER_TEXT,
+                    isStreaming: false,
+                    stopped: true,
+                };
+                replaceAnswer(stoppedMessage);
+                return stoppedMessage;
+            }
+
+            console.error('Error calling playlist chat API:', error);
+            replaceAnswer({
+                ...placeholder,
+                text: `Sorry, I couldn't process your request. ${error instanceof Error ? error.message : 'An unknown error occurred.'}`,
+                isStreaming: false,
+            });
+            return null;
+        } finally {
+            if (abortControllerRef.current === abortController) {
+                abortControllerRef.current = null;
+            }
+        }
+    };
+
+    /**
+     * Ask a question after the given messages and stream the answer below it
+     * @param branchOf The question this one is an edited version of, if any
+     */
+    const askQuestion = async (question: string, previousMessages: Message[], messageTimestamp: number, branchOf?: Message) => {
+        const userMsg: Message = {
+            id: Date.now(),
+            user: 'You',
+            text: question,
+            timestamp: messageTimestamp,
+            isAi: false,
+            parentId: previousMessages.length > 0 ? previousMessages[previousMessages.length - 1].id : null,
+            branchOf: branchOf?.id,
+        };
+        const streamingMessage: Message = {
+            id: Date.now() + 1,
+            user: 'AI Assistant',
+            text: '',
+            timestamp: messageTimestamp,
+            isAi: true,
+            isStreaming: true,
+            parentId: userMsg.id,
+        };
+
+        setMessages(prev => [...prev, userMsg, streamingMessage]);
+        setSelectedBranches(prev => ({ ...prev, [branchKey(userMsg.parentId)]: userMsg.id }));
+        setIsAiThinking(true);
+        await streamAnswer(question, previousMessages, streamingMessage);
+        setIsAiThinking(false);
+    };
+
+    const handleSendMessage = async (message: string) => {
+        if (!message || !playlist || isAiThinking) return;
+        await askQuestion(message, thread, currentTimestamp);
+    };
+
+    // Ask an edited version of an earlier question on a new branch; the original branch is kept
+    const handleEditMessage = async (messageId: number, text: string) => {
+        const index = thread.findIndex(msg => msg.id === messageId);
+        const original = thread[index];
+        if (!text || !playlist || isAiThinking || !original || original.isAi) return;
+        await askQuestion(text, thread.slice(0, index), original.timestamp, original);
+    };
+
+    const handleSelectBranch = (messageId: number) => {
+        const message = messages.find(msg => msg.id === messageId);
+        if (!message) return;
+        setSelectedBranches(prev => ({ ...prev, [branchKey(message.parentId)]: message.id }));
+    };
+
+    const handleStopGeneration = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // Answer the last question again; the current answer stays reachable as an earlier version
+    const handleRegenerate = async () => {
+        const answerIndex = thread.length - 1;
+        const previousAnswer = thread[answerIndex];
+        const question = thread[answerIndex - 1];
+        if (isAiThinking || !playlist || !previousAnswer?.isAi || previousAnswer.isStreaming || !question || question.isAi) return;
+
+        const previousVersion: MessageVersion = {
+            text: previousAnswer.text,
+            citations: previousAnswer.citations,
+            stopped: previousAnswer.stopped,
+            usage: previousAnswer.usage,
+        };
+        const streamingMessage: Message = {
+            id: Date.now(),
+            user: 'AI Assistant',
+            text: '',
+            timestamp: question.timestamp,
+            isAi: true,
+            isStreaming: true,
+            versions: [...(previousAnswer.versions || []), previousVersion],
+            parentId: previousAnswer.parentId,
+        };
+
+        setMessages(prev => prev.map(msg => msg.id === previousAnswer.id ? streamingMessage : msg));
+        setIsAiThinking(true);
+        await streamAnswer(question.text, thread.slice(0, answerIndex - 1), streamingMessage);
+        setIsAiThinking(false);
+    };
+
+    const playerOpts: YouTubeProps['opts'] = {
+        height: '100%',
+        width: '100%',
+        playerVars: {
+            autoplay: 0,
+            modestbranding: 1,
+            rel: 0,
+            playsinline: 1,
+            start: initialStartSeconds, // Fixed once loaded: changing player options recreates the player
+        },
+    };
+
+    return (
+        <div className="flex flex-col h-screen bg-white">
+
+            <NavBar />
+
+            <div className="flex flex-col lg:flex-row flex-1 overflow-hidden">
+                {/* Course Column */}
+                <div className="lg:w-1/2 bg-slate-50 p-4 flex flex-col overflow-y-auto">
+                    <div className="aspect-video bg-black rounded-xl overflow-hidden relative shadow-lg mb-6 sticky top-4 z-5 border border-slate-800">
+                        {error && !player ? (
+                            <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-red-50 to-red-100 text-red-700 p-6">
+                                <div className="w-16 h-16 rounded-full bg-red-100 flex items-center justify-center mb-4 shadow-sm">
+                                    <AlertTriangle size={32} className="text-red-500" />
+                                </div>
+                                <h3 className="text-center font-bold text-lg mb-2">Could not open this playlist</h3>
+                                <p className="text-center text-sm max-w-md">{error}</p>
+                                <Link href="/" className="mt-4 bg-red-100 hover:bg-red-200 text-red-700 border border-red-200 px-4 py-2 rounded-full text-sm font-medium transition-colors">
+                                    Go to Home
+                                </Link>
+                            </div>
+                        ) : initialVideoId ? (
+                            <div className="relative w-full h-full">
+                                <YouTube
+                                    videoId={initialVideoId}
+                                    opts={playerOpts}
+                                    onReady={handlePlayerReady}
+                                    onStateChange={handlePlayerStateChange}
+                                    onError={handlePlayerError}
+                                    className="absolute top-0 left-0 w-full h-full"
+                                />
+                                {currentTimestamp > 0 && (
+                                    <div className="absolute bottom-4 right-4 z-10 bg-black/70 text-white px-3 py-1.5 rounded-full text-sm font-medium">
+                                        {formatVideoTime(currentTimestamp)}
+                                    </div>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="absolute inset-0 animate-pulse bg-slate-800" />
+                        )}
+                    </div>
+
+                    {/* Playlist Info Section */}
+                    <div className="bg-white rounded-xl border border-slate-200 p-5 shadow-md mt-8 flex-shrink-0">
+                        {isLoading ? (
+                            <div className="animate-pulse space-y-3">
+                                <div className="h-6 bg-slate-200 rounded-full w-3/4"></div>
+                                <div className="h-5 bg-slate-200 rounded-full w-1/2"></div>
+                            </div>
+                        ) : playlist && (
+                            <>
+                                <p className="text-xs font-medium uppercase tracking-wide text-blue-600 mb-1">Course</p>
+                                <h1 className="text-xl font-semibold text-slate-800">{playlist.title}</h1>
+                                {playlist.channelTitle && <p className="text-sm text-slate-500 mt-1">{playlist.channelTitle}</p>}
+                                {currentVideo && (
+                                    <p className="text-sm text-slate-700 mt-3">
+                                        Now playing: <span className="font-medium">V{currentIndex + 1}. {currentVideo.title}</span>
+                                    </p>
+                                )}
+                                {error && player && <p className="text-sm text-red-600 mt-2">{error}</p>}
+                            </>
+                        )}
+                    </div>
+
+                    {playlist && (
+                        <PlaylistVideoList
+                            videos={playlist.videos}
+                            totalVideos={playlist.totalVideos}
+                            progress={progress}
+                            currentVideoId={currentVideoId}
+                            onPlay={videoId => playVideo(videoId)}
+                            formatTime={formatListTime}
+                        />
+                    )}
+                </div>
+
+                {/* Playlist Chat Column */}
+                <div className="lg:w-1/2 flex flex-col overflow-hidden">
+                    <ChatWindow
+                        messages={thread}
+                        branchPositions={branchPositions}
+                        isLoading={isLoading}
+                        error={error}
+                        videoDetails={playlist ? { title: playlist.title } : null}
+                        playerReady={!!player}
+                        currentTimestamp={currentTimestamp}
+                        isAiThinking={isAiThinking}
+                        onSendMessage={handleSendMessage}
+                        onStopGeneration={handleStopGeneration}
+                        onRegenerate={handleRegenerate}
+                        onEditMessage={handleEditMessage}
+                        onSelectBranch={handleSelectBranch}
+                        onTimestampClick={handleTimestampClick}
+                        formatTime={formatVideoTime}
+                        historySummary={historySummary}
+                        starterQuestions={PLAYLIST_STARTER_QUESTIONS}
+                        quota={quota}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
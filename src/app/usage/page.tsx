@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { BarChart3, Coins, MessageSquare, Youtube } from 'lucide-react';
+import { NavBar } from '@/app/components/NavBar';
+import { LoadingSpinner } from '@/app/components/LoadingSpinner';
+import { useAuth } from '@/contexts/AuthContext';
+import { getConversationUsage, type ConversationUsage } from '@/utils/chatStorage';
+import { formatCost } from '@/utils/formatters';
+import { QuotaStatus, UsageTotals } from '@/types';
+
+/**
+ * The user's token usage and cost overall and per recent conversation, with today's quota
+ */
+export default function UsagePage() {
+    const { user, session } = useAuth();
+    const isSignedIn = !!user && !!session;
+
+    const [conversations, setConversations] = useState<ConversationUsage[]>([]);
+    const [quota, setQuota] = useState<QuotaStatus | null>(null);
+    const [totals, setTotals] = useState<UsageTotals | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+
+    useEffect(() => {
+        if (!isSignedIn || !user) return;
+
+        let isCancelled = false;
+        async function loadUsage(userId: string) {
+            setIsLoading(true);
+            const [usage, quotaData, totalsData] = await Promise.all([
+                getConversationUsage(userId),
+                fetch('/api/usage/quota')
+                    .then(response => response.ok ? response.json() : null)
+                    .catch(err => {
+                        console.error('Error fetching usage quota:', err);
+                        return null;
+                    }),
+                fetch('/api/usage')
+                    .then(response => response.ok ? response.json() : null)
+                    .catch(err => {
+                        console.error('Error fetching usage totals:', err);
+                        return null;
+                    }),
+            ]);
+            if (isCancelled) return;
+            setConversations(usage);
+            setQuota(quotaData?.quota || null);
+            setTotals(totalsData?.totals || null);
+            setIsLoading(false);
+        }
+
+        loadUsage(user.id);
+        return () => {
+            isCancelled = true;
+        };
+    }, [isSignedIn, user]);
+
+    // Conversations the assistant never answered have nothing to show
+    const usedConversations = conversations.filter(conv => conv.answers > 0);
+
+    return (
+        <div className="min-h-screen bg-slate-50">
+
+            <NavBar />
+
+            <main className="max-w-5xl mx-auto px-4 py-8">
+                <h1 className="text-2xl font-bold text-slate-900 flex items-center gap-2 mb-6">
+                    <BarChart3 size={24} className="text-blue-600" />
+                    Usage
+                </h1>
+
+                {isLoading ? (
+                    <div className="flex justify-center p-12">
+                        <LoadingSpinner />
+                    </div>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+                            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5">
+                                <p className="text-sm text-slate-500 flex items-center gap-1.5"><MessageSquare size={14} /> Today</p>
+                                {quota ? (
+                                    <>
+                                        <p className="text-2xl font-semibold text-slate-900 mt-1 tabular-nums">{quota.messagesUsed} / {quota.messageLimit}</p>
+                                        <p className="text-xs text-slate-500 mt-1">
+                                            messages, {quota.tokensUsed.toLocaleString()} of {quota.tokenLimit.toLocaleString()} tokens;
+                                            resets at {new Date(quota.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                        </p>
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-slate-500 mt-2">Not available</p>
+                                )}
+                            </div>
+                            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5">
+                                <p className="text-sm text-slate-500 flex items-center gap-1.5"><BarChart3 size={14} /> Tokens</p>
+                                {totals ? (
+                                    <>
+                                        <p className="text-2xl font-semibold text-slate-900 mt-1 tabular-nums">{totals.totalTokens.toLocaleString()}</p>
+                                        <p className="text-xs text-slate-500 mt-1">
+                                            over {totals.messages.toLocaleString()} messages
+                                            {totals.since && `, since ${new Date(`${totals.since}T00:00:00Z`).toLocaleDateString()}`};
+                                            quizzes, notes and suggestions included
+                                        </p>
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-slate-500 mt-2">Not available</p>
+                                )}
+                            </div>
+                            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5">
+                                <p className="text-sm text-slate-500 flex items-center gap-1.5"><Coins size={14} /> Cost</p>
+                                {totals ? (
+                                    <>
+                                        <p className="text-2xl font-semibold text-slate-900 mt-1 tabular-nums">{formatCost(totals.costUsd)}</p>
+                                        <p className="text-xs text-slate-500 mt-1">at list prices, excluding models without one</p>
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-slate-500 mt-2">Not available</p>
+                                )}
+                            </div>
+                        </div>
+
+                        <h2 className="text-lg font-semibold text-slate-900 mb-1">Recent conversations</h2>
+                        <p className="text-sm text-slate-500 mb-3">Chat answers in your 50 most recently active conversations, regenerated answers included.</p>
+
+                        {usedConversations.length === 0 ? (
+                            <div className="text-center p-8 bg-white rounded-xl border border-slate-200">
+                                <MessageSquare size={32} className="mx-auto mb-3 text-slate-400" />
+                                <p className="text-slate-600">Usage appears here once the assistant has answered your questions.</p>
+                            </div>
+                        ) : (
+                            <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wide">
+                                        <tr>
+                                            <th className="text-left font-medium px-4 py-3">Conversation</th>
+                                            <th className="text-right font-medium px-4 py-3">Answers</th>
+                                            <th className="text-right font-medium px-4 py-3">Prompt</th>
+                                            <th className="text-right font-medium px-4 py-3">Completion</th>
+                                            <th className="text-right font-medium px-4 py-3">Total</th>
+                                            <th className="text-right font-medium px-4 py-3">Cost</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {usedConversations.map(conv => (
+                                            <tr key={conv.conversationId} className="hover:bg-slate-50">
+                                                <td className="px-4 py-3">
+                                                    <Link href={`/video/${conv.videoId}`} className="flex items-center gap-2 text-slate-800 hover:text-blue-600">
+                                                        <Youtube size={16} className="text-red-600 flex-shrink-0" />
+                                                        <span className="line-clamp-1">{conv.videoTitle}</span>
+                                                    </Link>
+                                                    <span className="text-xs text-slate-400">{new Date(conv.lastUpdatedAt).toLocaleString()}</span>
+                                                </td>
+                                                <td className="px-4 py-3 text-right tabular-nums">{conv.answers}</td>
+                                                <td className="px-4 py-3 text-right tabular-nums">{conv.inputTokens.toLocaleString()}</td>
+                                                <td className="px-4 py-3 text-right tabular-nums">{conv.outputTokens.toLocaleString()}</td>
+                                                <td className="px-4 py-3 text-right tabular-nums font-medium">{conv.totalTokens.toLocaleString()}</td>
+                                                <td className="px-4 py-3 text-right tabular-nums">{formatCost(conv.costUsd)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -1,18 +1,74 @@
 // FILE: src/app/video/[videoId]/page.tsx
 'use client'; 
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { AlertTriangle } from 'lucide-react';
+import { AlertTriangle, Languages, Repeat, X } from 'lucide-react';
 import { ChatWindow } from '@/app/components/ChatWindow';
 import { NavBar } from '@/app/components/NavBar';
+import { ChapterList } from '@/app/components/ChapterList';
+import { TranscriptPanel } from '@/app/components/TranscriptPanel';
+import { TranscriptSearch } from '@/app/components/TranscriptSearch';
+import { QuizPanel } from '@/app/components/QuizPanel';
+import { StudyNotesPanel } from '@/app/components/StudyNotesPanel';
+import { ConversationVideos } from '@/app/components/ConversationVideos';
+import type { PersonaDraft } from '@/app/components/PersonaPicker';
 import YouTube, { YouTubeEvent, YouTubeProps, YouTubePlayer } from 'react-youtube';
-import { formatTime } from '@/utils/formatters';
+import { formatTime, formatLanguageName } from '@/utils/formatters';
+import { parseTimeRange, formatTimeRange, ONE_HOUR_SECONDS } from '@/utils/timestamps';
+import { readChatStream } from '@/utils/chatStream';
+import { branchKey, getActiveThread, getBranchPositions, type BranchSelection } from '@/utils/chatBranches';
 import { useAuth } from '@/contexts/AuthContext'; // Import useAuth
-import { saveConversation, saveMessage, getConversationMessages } from '@/utils/chatStorage';
-import { Message, VideoDetails } from '@/types';
+import { saveConversation, saveMessage, updateMessage, getConversationMessages, getConversationSummary, saveConversationSummary, getConversationVideos, saveConversationVideos, getConversationPersona, saveConversationPersona } from '@/utils/chatStorage';
+import { deleteUserPersona, getUserPersonas, saveUserPersona, MAX_USER_PERSONAS } from '@/utils/personaStorage';
+import { DEFAULT_PERSONA_ID, PRESET_PERSONAS, findPersona } from '@/utils/personas';
+import { extractVideoId } from '@/utils/youtube';
+import { AttachedVideo, CaptionTrack, Chapter, ChatUsage, Citation, ConversationSummary, Message, MessageVersion, Persona, QuotaStatus, TranscriptEntry, VideoDetails } from '@/types';
 
+// Longest transcript selection quoted verbatim in an "Ask about this" question
+const MAX_SELECTION_QUOTE_LENGTH = 500;
+
+// Shown, and kept in the history, for an answer stopped before its first word
+const STOPPED_BEFORE_ANSWER_TEXT = '_Stopped before answering._';
+
+// Other videos a conversation can be compared with, tagged V2 to V4 in answers
+const MAX_ATTACHED_VIDEOS = 3;
+
+/**
+ * Load a video's title, description, duration and chapters from the details API
+ */
+async function fetchVideoDetails(id: string): Promise<VideoDetails> {
+    const response = await fetch(`/api/youtube/details?videoId=${id}`);
+
+    if (!response.ok) {
+        let errorMessage = `HTTP error! status: ${response.status}`;
+        try {
+            const errorData = await response.json();
+            errorMessage = errorData.message || errorMessage;
+        } catch {
+            errorMessage = response.statusText || errorMessage;
+        }
+        throw new Error(errorMessage);
+    }
+
+    const videoSnippet = await response.json();
+
+    if (!videoSnippet || typeof videoSnippet.title === 'undefined') {
+        console.error("Invalid API response format:", videoSnippet);
+        throw new Error(`Received invalid video details format from API.`);
+    }
+
+    return {
+        title: videoSnippet.title || 'Untitled Video',
+        channelTitle: videoSnippet.channelTitle || 'Unknown Channel',
+        description: videoSnippet.description || 'No description available.',
+        publishedAt: videoSnippet.publishedAt || new Date().toISOString(),
+        durationSeconds: typeof videoSnippet.durationSeconds === 'number' ? videoSnippet.durationSeconds : undefined,
+        chapters: Array.isArray(videoSnippet.chapters) ? videoSnippet.chapters : [],
+        chaptersSource: videoSnippet.chaptersSource || undefined,
+    };
+}
 
 export default function VideoPage() {
     const params = useParams();
@@ -20,7 +76,8 @@ export default function VideoPage() {
     const { user, session } = useAuth(); // Use Supabase auth context
     const isSignedIn = !!user && !!session; // Check for both user and session
 
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<Message[]>([]); // Every branch of the conversation
+    const [selectedBranches, setSelectedBranches] = useState<BranchSelection>({}); // Branch shown where a question was edited
     const [currentTimestamp, setCurrentTimestamp] = useState<number>(0);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
@@ -29,6 +86,26 @@ export default function VideoPage() {
     const [isAiThinking, setIsAiThinking] = useState<boolean>(false);
     const [conversationId, setConversationId] = useState<string | null>(null);
     const [isLoadingHistory, setIsLoadingHistory] = useState<boolean>(false);
+    const [captionTracks, setCaptionTracks] = useState<CaptionTrack[]>([]);
+    const [transcriptLang, setTranscriptLang] = useState<string>(''); // Empty means YouTube's default track
+    const [transcriptEntries, setTranscriptEntries] = useState<TranscriptEntry[]>([]);
+    const [isTranscriptLoading, setIsTranscriptLoading] = useState<boolean>(false);
+    const [transcriptError, setTranscriptError] = useState<string | null>(null);
+    const [transcriptVersion, setTranscriptVersion] = useState<number>(0); // Bumped to refetch after an upload
+    const [generatedChapters, setGeneratedChapters] = useState<Chapter[]>([]);
+    const [isGeneratingChapters, setIsGeneratingChapters] = useState<boolean>(false);
+    const [historySummary, setHistorySummary] = useState<ConversationSummary | null>(null); // Older turns, compressed by the chat API
+    const [starterQuestions, setStarterQuestions] = useState<string[]>([]); // Video-specific first questions
+    const [activeSegment, setActiveSegment] = useState<{ start: number; end: number; loop: boolean } | null>(null);
+    const [attachedVideos, setAttachedVideos] = useState<AttachedVideo[]>([]); // Other videos compared in this conversation
+    const [playingVideoId, setPlayingVideoId] = useState<string | null>(null); // Attached video in the player, null for this page's video
+    const [isAttachingVideo, setIsAttachingVideo] = useState<boolean>(false);
+    const [attachVideoError, setAttachVideoError] = useState<string | null>(null);
+    const [userPersonas, setUserPersonas] = useState<Persona[]>([]); // Answer styles the user defined
+    const [personaId, setPersonaId] = useState<string>(DEFAULT_PERSONA_ID); // Answer style of this conversation
+    const [quota, setQuota] = useState<QuotaStatus | null>(null); // What is left of today's allowance
+    const abortControllerRef = useRef<AbortController | null>(null); // Aborts the answer being streamed
+    const storageIdsRef = useRef(new Map<number, Promise<string | null>>()); // Saves in flight, by message ID
 
     // Effect to initialize conversation and load existing messages
     useEffect(() => {
@@ -42,10 +119,19 @@ export default function VideoPage() {
                     
                     if (convId) {
                         // Load existing messages if any
-                        const existingMessages = await getConversationMessages(convId);
+                        const [existingMessages, existingSummary, existingVideos, existingPersonaId] = await Promise.all([
+                            getConversationMessages(convId),
+                            getConversationSummary(convId),
+                            getConversationVideos(convId),
+                            getConversationPersona(convId),
+                        ]);
                         if (existingMessages.length > 0) {
                             setMessages(existingMessages);
+                            setSelectedBranches({});
                         }
+                        setHistorySummary(existingSummary);
+                        setAttachedVideos(existingVideos);
+                        setPersonaId(existingPersonaId || DEFAULT_PERSONA_ID);
                     }
                 } catch (error) {
                     console.error('Error initializing conversation:', error);
@@ -60,6 +146,41 @@ export default function VideoPage() {
         }
     }, [isSignedIn, user, videoId, videoDetails]);
 
+    // Load the answer styles the user defined, offered after the presets
+    useEffect(() => {
+        if (!isSignedIn || !user) {
+            setUserPersonas([]);
+            return;
+        }
+
+        let isCancelled = false;
+        getUserPersonas(user.id).then(personas => {
+            if (!isCancelled) setUserPersonas(personas);
+        });
+        return () => {
+            isCancelled = true;
+        };
+    }, [isSignedIn, user]);
+
+    // Today's remaining quota, kept up to date by the chat stream afterwards
+    useEffect(() => {
+        if (!isSignedIn) {
+            setQuota(null);
+            return;
+        }
+
+        let isCancelled = false;
+        fetch('/api/usage/quota')
+            .then(response => response.ok ? response.json() : null)
+            .then(data => {
+                if (!isCancelled && data?.quota) setQuota(data.quota);
+            })
+            .catch(err => console.error('Error fetching usage quota:', err));
+        return () => {
+            isCancelled = true;
+        };
+    }, [isSignedIn]);
+
     useEffect(() => {
         if (!videoId) {
             setIsLoading(false);
@@ -71,47 +192,31 @@ export default function VideoPage() {
         setError(null);
         setVideoDetails(null);
         setMessages([]);
+        setSelectedBranches({});
+        setHistorySummary(null);
+        setAttachedVideos([]);
+        setPlayingVideoId(null);
+        setAttachVideoError(null);
+        setPersonaId(DEFAULT_PERSONA_ID);
 
-        const fetchVideoDetails = async () => {
+        const loadVideoDetails = async () => {
             try {
-                const response = await fetch(`/api/youtube/details?videoId=${videoId}`);
-
-                if (!response.ok) {
-                    let errorMessage = `HTTP error! status: ${response.status}`;
-                    try {
-                        const errorData = await response.json();
-                        errorMessage = errorData.message || errorMessage;
-                    } catch {
-                        errorMessage = response.statusText || errorMessage;
-                    }
-                    throw new Error(errorMessage);
-                }
-
-                const videoSnippet = await response.json();
-
-                if (!videoSnippet || typeof videoSnippet.title === 'undefined') {
-                    console.error("Invalid API response format:", videoSnippet);
-                    throw new Error(`Received invalid video details format from API.`);
-                }
-
-                const details: VideoDetails = {
-                    title: videoSnippet.title || 'Untitled Video',
-                    channelTitle: videoSnippet.channelTitle || 'Unknown Channel',
-                    description: videoSnippet.description || 'No description available.',
-                    publishedAt: videoSnippet.publishedAt || new Date().toISOString(),
-                };
+                const details = await fetchVideoDetails(videoId);
 
                 setVideoDetails(details);
+                const greetingId = Date.now();
                 setMessages([
                     {
-                        id: Date.now() - 1, // Initial user message
+                        id: greetingId - 1, // Initial user message
                         user: 'You',
                         text: `Tell me about "${details.title}"`,
                         timestamp: 0,
                         isAi: false,
+                        parentId: null,
                     },
                     {
-                        id: Date.now(),
+                        id: greetingId,
+                        parentId: greetingId - 1,
                         user: 'AI Assistant',
                         text: `Hello! I've analyzed the video "${details.title}" by ${details.channelTitle}. Feel free to ask me any questions about the content. You can mention timestamps like [MM:SS] to reference specific parts.`,
                         timestamp: 0,
@@ -127,9 +232,160 @@ export default function VideoPage() {
             }
         };
 
-        fetchVideoDetails();
+        loadVideoDetails();
     }, [videoId]);
 
+    // Effect to discover which caption tracks the video offers
+    useEffect(() => {
+        if (!videoId) return;
+
+        setCaptionTracks([]);
+        setTranscriptLang('');
+
+        const fetchCaptionTracks = async () => {
+            try {
+                const response = await fetch(`/api/transcript/tracks?videoId=${videoId}`);
+                if (!response.ok) {
+                    throw new Error(`HTTP error! status: ${response.status}`);
+                }
+                const data = await response.json();
+                setCaptionTracks(Array.isArray(data.tracks) ? data.tracks : []);
+            } catch (err) {
+                // The chat still works on the default track, so this is not fatal
+                console.error("Error fetching caption tracks:", err);
+            }
+        };
+
+        fetchCaptionTracks();
+    }, [videoId]);
+
+    // Effect to load the transcript shown in the transcript panel
+    useEffect(() => {
+        if (!videoId) return;
+
+        setTranscriptEntries([]);
+        setTranscriptError(null);
+        setIsTranscriptLoading(true);
+
+        const fetchTranscript = async () => {
+            try {
+                const langParam = transcriptLang ? `&lang=${encodeURIComponent(transcriptLang)}` : '';
+                const response = await fetch(`/api/transcript?videoId=${videoId}${langParam}`);
+
+                if (!response.ok) {
+                    let errorMessage = `HTTP error! status: ${response.status}`;
+                    try {
+                        const errorData = await response.json();
+                        errorMessage = errorData.message || errorMessage;
+                    } catch {
+                        errorMessage = response.statusText || errorMessage;
+                    }
+                    throw new Error(errorMessage);
+                }
+
+                const data = await response.json();
+                setTranscriptEntries(Array.isArray(data.entries) ? data.entries : []);
+            } catch (err) {
+                console.error("Error fetching transcript:", err);
+                setTranscriptError(err instanceof Error ? err.message : 'Failed to load the transcript.');
+            } finally {
+                setIsTranscriptLoading(false);
+            }
+        };
+
+        fetchTranscript();
+    }, [videoId, transcriptLang, transcriptVersion]);
+
+    // Description chapters win; otherwise chapters are generated from the transcript once it has loaded
+    const hasDescriptionChapters = (videoDetails?.chapters?.length || 0) > 0;
+    const hasTranscript = transcriptEntries.length > 0;
+    const videoTitle = videoDetails?.title;
+
+    // Effect to generate chapters for videos whose description has none
+    useEffect(() => {
+        setGeneratedChapters([]);
+        // Generation counts toward the user's quota, so it waits for sign-in
+        if (!isSignedIn || !videoId || !videoTitle || hasDescriptionChapters || !hasTranscript) return;
+
+        let isCancelled = false;
+        setIsGeneratingChapters(true);
+
+        const fetchGeneratedChapters = async () => {
+            try {
+                const params = new URLSearchParams({ videoId, title: videoTitle });
+                if (transcriptLang) params.set('lang', transcriptLang);
+                const response = await fetch(`/api/chapters?${params.toString()}`);
+                if (!response.ok) {
+                    throw new Error(`HTTP error! status: ${response.status}`);
+                }
+                const data = await response.json();
+                if (!isCancelled) {
+                    setGeneratedChapters(Array.isArray(data.chapters) ? data.chapters : []);
+                }
+            } catch (err) {
+                // Chapters are a convenience; the page works fine without them
+                console.error("Error generating chapters:", err);
+            } finally {
+                if (!isCancelled) setIsGeneratingChapters(false);
+            }
+        };
+
+        fetchGeneratedChapters();
+        return () => {
+            isCancelled = true;
+            setIsGeneratingChapters(false);
+        };
+    }, [isSignedIn, videoId, videoTitle, hasDescriptionChapters, hasTranscript, transcriptLang]);
+
+    // Effect to suggest video-specific first questions from the title, description and chapters
+    useEffect(() => {
+        setStarterQuestions([]);
+        if (!isSignedIn || !videoDetails) return;
+
+        let isCancelled = false;
+
+        const fetchStarterQuestions = async () => {
+            try {
+                const response = await fetch('/api/suggestions', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        title: videoDetails.title,
+                        description: videoDetails.description,
+                        chapters: videoDetails.chapters,
+                    }),
+                });
+                if (!response.ok) {
+                    throw new Error(`HTTP error! status: ${response.status}`);
+                }
+                const data = await response.json();
+                if (!isCancelled) {
+                    setStarterQuestions(Array.isArray(data.questions) ? data.questions : []);
+                }
+            } catch (err) {
+                // Suggestions are a convenience; the chat works fine without them
+                console.error("Error fetching starter questions:", err);
+            }
+        };
+
+        fetchStarterQuestions();
+        return () => {
+            isCancelled = true;
+        };
+    }, [isSignedIn, videoDetails]);
+
+    const chapters = hasDescriptionChapters ? videoDetails?.chapters || [] : generatedChapters;
+    const chaptersSource = hasDescriptionChapters ? 'description' : generatedChapters.length > 0 ? 'generated' : null;
+
+    // A deleted persona falls back to the default
+    const persona = findPersona(personaId, userPersonas);
+
+    // The branch of the conversation being shown; questions are asked and answered on this path
+    const thread = getActiveThread(messages, selectedBranches);
+    const branchPositions = getBranchPositions(messages, thread);
+
     useEffect(() => {
         if (!player || typeof player.getCurrentTime !== 'function') {
             return;
@@ -153,6 +409,33 @@ export default function VideoPage() {
         };
     }, [player]);
 
+    // Effect to stop (or loop) playback at the end of a segment started from a [start-end] range
+    useEffect(() => {
+        if (!player || !activeSegment) return;
+
+        const checkSegmentEnd = () => {
+            try {
+                const time = player.getCurrentTime();
+                if (typeof time !== 'number' || time < activeSegment.end) return;
+
+                if (activeSegment.loop) {
+                    player.seekTo(activeSegment.start, true);
+                } else {
+                    player.pauseVideo();
+                    setActiveSegment(null);
+                }
+            } catch { /* Ignore */ }
+        };
+
+        // Poll faster than the timestamp display so the segment ends close to its end time
+        const intervalId = setInterval(checkSegmentEnd, 250);
+        return () => clearInterval(intervalId);
+    }, [player, activeSegment]);
+
+    // Videos of an hour or more show every timestamp as H:MM:SS so they line up with the answers
+    const isLongVideo = (videoDetails?.durationSeconds || 0) >= ONE_HOUR_SECONDS;
+    const formatVideoTime = useCallback((seconds: number) => formatTime(seconds, isLongVideo), [isLongVideo]);
+
     // --- Event Handlers ---
 
     const handlePlayerReady = useCallback((event: YouTubeEvent<YouTubePlayer>) => {
@@ -187,46 +470,28 @@ export default function VideoPage() {
         setError(message);
     }, []);
 
-    const handleSendMessage = async (message: string) => {
-        if (!message || !videoDetails) return; 
+    /**
+     * Stream the answer to a question into an AI message that is already shown as a placeholder
+     * @param question The user's question
+     * @param previousMessages The conversation before the question
+     * @param placeholder The streaming AI message to fill in
+     * @returns The finished answer (partial if it was stopped), or null if it failed
+     */
+    const streamAnswer = async (question: string, previousMessages: Message[], placeholder: Message): Promise<Message | null> => {
+        if (!videoDetails) return null;
 
-        const messageTimestamp = currentTimestamp;
-
-        const userMsg: Message = {
-            id: Date.now(),
-            user: 'You',
-            text: message,
-            timestamp: messageTimestamp,
-            isAi: false,
+        const replaceAnswer = (answer: Message) => {
+            setMessages(prev => prev.map(msg => msg.id === placeholder.id ? answer : msg));
         };
 
-        // Update UI with user message
-        setMessages(prev => [...prev, userMsg]);
-        setIsAiThinking(true);
-
-        // Save user message to Supabase if signed in
-        if (isSignedIn && conversationId) {
-            saveMessage(conversationId, userMsg).catch(err => {
-                console.error('Error saving user message:', err);
-            });
-        }
-
-        // Create a streaming message placeholder
-        const aiMessageId = Date.now() + 1;
-        const streamingMessage: Message = {
-            id: aiMessageId,
-            user: 'AI Assistant',
-            text: '',  // Start empty and will be filled as we receive chunks
-            timestamp: messageTimestamp,
-            isAi: true,
-            isStreaming: true, // Mark as streaming for UI indicator
-        };
-        
-        setMessages(prev => [...prev, streamingMessage]);
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        let accumulatedText = '';
+        let finalAiMessage: Message | null = null;
 
         try {
             // Prepare chat history in the format expected by the API
-            const chatHistory = messages
+            const chatHistory = previousMessages
                 .filter(msg => !msg.text.includes('Thinking about your question') && !msg.isStreaming) // Filter out thinking/streaming messages
                 .map(msg => ({
                     role: msg.isAi ? 'model' : 'user',
@@ -242,22 +507,43 @@ export default function VideoPage() {
                 });
             }
 
-            // Call the chat API with streaming enabled
+            // Call the chat API with streaming enabled; Stop aborts the request
             const response = await fetch('/api/chat', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({
-                    userMessage: message,
+                    userMessage: question,
                     chatHistory,
                     videoDetails: {
                         title: videoDetails.title,
                         description: videoDetails.description,
+                        durationSeconds: videoDetails.durationSeconds,
+                        chapters,
                     },
                     videoId,
-                    timestamp: messageTimestamp,
+                    // The player position only describes this video when it is the one playing
+                    timestamp: playingVideoId ? undefined : placeholder.timestamp,
+                    lang: transcriptLang || undefined,
+                    historySummary,
+                    videos: attachedVideos.map(video => ({
+                        videoId: video.videoId,
+                        videoDetails: {
+                            title: video.details.title,
+                            description: video.details.description,
+                            durationSeconds: video.details.durationSeconds,
+                            chapters: video.details.chapters,
+                        },
+                    })),
+                    persona: {
+                        name: persona.name,
+                        instruction: persona.instruction,
+                        temperature: persona.temperature,
+                        maxOutputTokens: persona.maxOutputTokens,
+                    },
                 }),
+                signal: abortController.signal,
             });
 
             if (!response.ok) {
@@ -265,153 +551,442 @@ export default function VideoPage() {
                 try {
                     const errorData = await response.json();
                     errorText = errorData.message || errorText;
+                    if (errorData.quota) setQuota(errorData.quota); // Over the daily quota
                 } catch (e) {
                     console.error('Error parsing error response:', e);
                 }
                 throw new Error(errorText);
             }
 
-            if (!response.body) {
-                throw new Error('Response body is not readable');
-            }
+            // Read the typed event stream (see utils/chatStream.ts)
+            const citations: Citation[] = [];
+            let usage: ChatUsage | undefined;
 
-            // Process the streaming response
-            const reader = response.body.getReader();
-            let accumulatedText = '';
-            
-            // Read the stream chunks
-            while (true) {
-                const { done, value } = await reader.read();
-                
-                if (done) {
-                    break;
-                }
-                
-                // Convert the chunk to text
-                const chunkText = new TextDecoder().decode(value);
-                
-                try {
-                    // The response might contain multiple JSON objects, so we need to handle that
-                    const jsonChunks = chunkText.split('\n').filter(Boolean);
-                    
-                    for (const jsonChunk of jsonChunks) {
-                        const parsedChunk = JSON.parse(jsonChunk);
-                        
-                        if (parsedChunk.error) {
-                            throw new Error(parsedChunk.error);
-                        }
-                        
-                        if (parsedChunk.chunk) {
-                            // Append the new text to our accumulated text
-                            accumulatedText += parsedChunk.chunk;
-                            
-                            // Update the message with the accumulated text so far
-                            setMessages(prev => 
-                                prev.map(msg => 
-                                    msg.id === aiMessageId 
-                                        ? {
-                                            ...msg,
-                                            text: accumulatedText,
-                                          }
-                                        : msg
-                                )
-                            );
-                        }
-                        
-                        // If this is the last chunk, finalize the message
-                        if (parsedChunk.done) {
-                            // Use the full response if provided
-                            if (parsedChunk.fullResponse) {
-                                accumulatedText = parsedChunk.fullResponse;
-                            }
-                            
-                            // Update the message one last time and remove the streaming flag
-                            const finalAiMessage = {
-                                id: aiMessageId,
-                                user: 'AI Assistant',
-                                text: accumulatedText,
-                                timestamp: messageTimestamp,
-                                isAi: true,
-                                isStreaming: false
-                            };
-                            
-                            setMessages(prev => 
-                                prev.map(msg => 
-                                    msg.id === aiMessageId ? finalAiMessage : msg
-                                )
-                            );
-                            
-                            // Save AI message to Supabase if signed in
-                            if (isSignedIn && conversationId) {
-                                saveMessage(conversationId, finalAiMessage).catch(err => {
-                                    console.error('Error saving AI message:', err);
-                                });
-                            }
+            for await (const event of readChatStream(response)) {
+                switch (event.type) {
+                    case 'token':
+                        // Append the new text and update the message with the text so far
+                        accumulatedText += event.text;
+                        setMessages(prev =>
+                            prev.map(msg =>
+                                msg.id === placeholder.id ? { ...msg, text: accumulatedText } : msg
+                            )
+                        );
+                        break;
+
+                    case 'citation':
+                        citations.push(event.citation);
+                        break;
+
+                    case 'usage':
+                        usage = event.usage;
+                        break;
+
+                    case 'quota':
+                        setQuota(event.quota);
+                        break;
+
+                    case 'error':
+                        throw new Error(event.message);
+
+                    case 'done':
+                        // Update the message one last time and remove the streaming flag
+                        finalAiMessage = {
+                            ...placeholder,
+                            text: event.fullResponse || accumulatedText,
+                            isStreaming: false,
+                            transcriptLang: event.transcriptLang || null,
+                            transcriptSource: event.transcriptSource ?? null,
+                            citations,
+                            usage,
+                        };
+                        replaceAnswer(finalAiMessage);
+
+                        // Reuse the history summary next time; persist it when it was rewritten
+                        setHistorySummary(event.historySummary);
+                        if (event.summaryUpdated && event.historySummary && isSignedIn && conversationId) {
+                            saveConversationSummary(conversationId, event.historySummary).catch(err => {
+                                console.error('Error saving conversation summary:', err);
+                            });
                         }
-                    }
-                } catch (e) {
-                    console.error('Error parsing stream chunk:', e, chunkText);
+                        break;
+
+                    case 'suggestions':
+                        // Arrives after the answer is complete; only shown, not saved
+                        setMessages(prev =>
+                            prev.map(msg =>
+                                msg.id === placeholder.id ? { ...msg, suggestions: event.questions } : msg
+                            )
+                        );
+                        break;
                 }
             }
+
+            if (!finalAiMessage) {
+                throw new Error('The response ended unexpectedly.');
+            }
+            return finalAiMessage;
             
         } catch (error) {
+            if (abortController.signal.aborted) {
+                // Stopped while the follow-up questions were being written: the answer itself is complete
+                if (finalAiMessage) return finalAiMessage;
+
+                // Stopped by the user: keep what was written so far
+                const stoppedMessage: Message = {
+                    ...placeholder,
+                    text: accumulatedText || STOPPED_BEFORE_ANSWER_TEXT,
+                    isStreaming: false,
+                    stopped: true,
+                };
+                replaceAnswer(stoppedMessage);
+                return stoppedMessage;
+            }
+
             console.error('Error calling chat API:', error);
             
             // Replace streaming message with error
-            setMessages(prev => prev.map(msg => 
-                msg.id === aiMessageId 
-                    ? {
-                        ...msg,
-                        text: `Sorry, I couldn't process your request. ${error instanceof Error ? error.message : 'An unknown error occurred.'}`,
-                        isStreaming: false,
-                      }
-                    : msg
-            ));
+            replaceAnswer({
+                ...placeholder,
+                text: `Sorry, I couldn't process your request. ${error instanceof Error ? error.message : 'An unknown error occurred.'}`,
+                isStreaming: false,
+            });
+            return null;
         } finally {
-            setIsAiThinking(false);
+            if (abortControllerRef.current === abortController) {
+                abortControllerRef.current = null;
+            }
+        }
+    };
+
+    /**
+     * Row ID of a saved message, waiting for the save when it is still in flight
+     */
+    const resolveStorageId = (messageId: number | null | undefined): Promise<string | null> => {
+        if (messageId === null || messageId === undefined) return Promise.resolve(null);
+        const pendingSave = storageIdsRef.current.get(messageId);
+        if (pendingSave) return pendingSave;
+        return Promise.resolve(messages.find(msg => msg.id === messageId)?.storageId || null);
+    };
+
+    // Save a message to Supabase if signed in, linked to the message it follows, or update it when it was saved before
+    const persistMessage = (message: Message) => {
+        if (!isSignedIn || !conversationId) return;
+
+        const previousSave = message.storageId ? Promise.resolve(message.storageId) : storageIdsRef.current.get(message.id);
+        const save = (async () => {
+            const storageId = previousSave ? await previousSave : null;
+            if (storageId) {
+                await updateMessage(storageId, message);
+                return storageId;
+            }
+            // The parent's own save may still be in flight
+            const [parentId, branchOf] = await Promise.all([
+                resolveStorageId(message.parentId),
+                resolveStorageId(message.branchOf),
+            ]);
+            return saveMessage(conversationId, message, { parentId, branchOf });
+        })();
+        storageIdsRef.current.set(message.id, save);
+
+        save
+            .then(storageId => {
+                // Remember the row so a later Regenerate updates it instead of adding one
+                if (storageId) {
+                    setMessages(prev => prev.map(msg => msg.id === message.id ? { ...msg, storageId } : msg));
+                }
+            })
+            .catch(err => {
+                console.error(`Error saving ${message.isAi ? 'AI' : 'user'} message:`, err);
+            });
+    };
+
+    /**
+     * Ask a question after the given messages and stream the answer below it
+     * @param question The question
+     * @param previousMessages The path of the conversation before the question
+     * @param messageTimestamp Player position the question refers to, in seconds
+     * @param branchOf The question this one is an edited version of, if any
+     */
+    const askQuestion = async (question: string, previousMessages: Message[], messageTimestamp: number, branchOf?: Message) => {
+        const userMsg: Message = {
+            id: Date.now(),
+            user: 'You',
+            text: question,
+            timestamp: messageTimestamp,
+            isAi: false,
+            parentId: previousMessages.length > 0 ? previousMessages[previousMessages.length - 1].id : null,
+            branchOf: branchOf?.id,
+        };
+
+        // Create a streaming message placeholder
+        const streamingMessage: Message = {
+            id: Date.now() + 1,
+            user: 'AI Assistant',
+            text: '',  // Start empty and will be filled as we receive chunks
+            timestamp: messageTimestamp,
+            isAi: true,
+            isStreaming: true, // Mark as streaming for UI indicator
+            parentId: userMsg.id,
+        };
+
+        // Update UI with user message; an edited question becomes the branch shown
+        setMessages(prev => [...prev, userMsg, streamingMessage]);
+        setSelectedBranches(prev => ({ ...prev, [branchKey(userMsg.parentId)]: userMsg.id }));
+        setIsAiThinking(true);
+
+        // Save user message to Supabase if signed in
+        persistMessage(userMsg);
+
+        const answer = await streamAnswer(question, previousMessages, streamingMessage);
+        if (answer) {
+            persistMessage(answer);
         }
+        setIsAiThinking(false);
     };
 
-    const handleTimestampClick = (timeString: string) => {
+    const handleSendMessage = async (message: string) => {
+        if (!message || !videoDetails || isAiThinking) return; 
+        await askQuestion(message, thread, currentTimestamp);
+    };
+
+    // Ask an edited version of an earlier question on a new branch; the original branch is kept
+    const handleEditMessage = async (messageId: number, text: string) => {
+        const index = thread.findIndex(msg => msg.id === messageId);
+        const original = thread[index];
+        if (!text || !videoDetails || isAiThinking || !original || original.isAi) return;
+        await askQuestion(text, thread.slice(0, index), original.timestamp, original);
+    };
+
+    const handleSelectBranch = (messageId: number) => {
+        const message = messages.find(msg => msg.id === messageId);
+        if (!message) return;
+        setSelectedBranches(prev => ({ ...prev, [branchKey(message.parentId)]: message.id }));
+    };
+
+    const handleStopGeneration = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // Answer the last question again; the current answer stays reachable as an earlier version
+    const handleRegenerate = async () => {
+        const answerIndex = thread.length - 1;
+        const previousAnswer = thread[answerIndex];
+        const question = thread[answerIndex - 1];
+        if (isAiThinking || !videoDetails || !previousAnswer?.isAi || previousAnswer.isStreaming || !question || question.isAi) return;
+
+        const previousVersion: MessageVersion = {
+            text: previousAnswer.text,
+            citations: previousAnswer.citations,
+            transcriptLang: previousAnswer.transcriptLang,
+            transcriptSource: previousAnswer.transcriptSource,
+            stopped: previousAnswer.stopped,
+            usage: previousAnswer.usage,
+        };
+        const streamingMessage: Message = {
+            id: Date.now(),
+            user: 'AI Assistant',
+            text: '',
+            timestamp: question.timestamp, // Ask from the same player position as the first time
+            isAi: true,
+            isStreaming: true,
+            versions: [...(previousAnswer.versions || []), previousVersion],
+            storageId: previousAnswer.storageId,
+            parentId: previousAnswer.parentId,
+        };
+        // The new answer updates the stored row of the previous one, even while that is still being saved
+        const previousSave = storageIdsRef.current.get(previousAnswer.id);
+        if (previousSave) {
+            storageIdsRef.current.set(streamingMessage.id, previousSave);
+        }
+
+        setMessages(prev => prev.map(msg => msg.id === previousAnswer.id ? streamingMessage : msg));
+        setIsAiThinking(true);
+
+        const answer = await streamAnswer(question.text, thread.slice(0, answerIndex - 1), streamingMessage);
+        if (answer) {
+            persistMessage(answer);
+        }
+        setIsAiThinking(false);
+    };
+
+    /**
+     * Seek the player, first loading another video of the conversation into it when needed
+     * @param targetVideoId An attached video, or null for this page's video
+     */
+    const seekPlayer = (targetVideoId: string | null, seconds: number) => {
         if (!player || typeof player.seekTo !== 'function') {
             console.warn("Player not available to seek.");
             return;
         }
+        if (targetVideoId === playingVideoId) {
+            player.seekTo(seconds, true); // Seek and allow seek ahead
+            return;
+        }
+        player.loadVideoById({ videoId: targetVideoId || videoId, startSeconds: seconds });
+        setPlayingVideoId(targetVideoId);
+    };
 
-        let totalSeconds = 0;
-        
-        // Check if the timeString is in MM:SS format
-        const parts = timeString.match(/(\d{1,2}):(\d{2})/);
-        if (parts) {
-            const minutes = parseInt(parts[1], 10);
-            const seconds = parseInt(parts[2], 10);
-            totalSeconds = (minutes * 60) + seconds;
-        } 
-        // Check if timeString is a numeric value (for TIMESTAMP_X format)
-        else if (!isNaN(Number(timeString))) {
-            // If it's a numeric string, convert to number
-            // The AI might be using seconds or milliseconds, so we need to handle both
-            const numericValue = Number(timeString);
-            
-            // If it's a large number, assume it's milliseconds and convert to seconds
-            if (numericValue > 1000) {
-                totalSeconds = Math.floor(numericValue / 1000);
-            } else {
-                totalSeconds = numericValue;
-            }
-        } else {
+    /**
+     * Seek to a timestamp from an answer; a video tag ("V2 12:34") or a citation's video
+     * switches the player to that video first
+     * @param citedVideoId The video of the clicked citation, when known
+     */
+    const handleTimestampClick = (timeString: string, citedVideoId?: string) => {
+        // Accepts H:MM:SS, MM:SS, plain seconds and ranges like 12:30-14:05, with an optional video tag
+        const range = parseTimeRange(timeString);
+        if (range === null) {
             console.warn("Could not parse timestamp:", timeString);
             return;
         }
+
+        // V1 is this page's video; V2 and up are the attached videos, in order
+        let targetVideoId: string | null = null;
+        if (citedVideoId) {
+            targetVideoId = citedVideoId === videoId ? null : citedVideoId;
+        } else if (range.video !== undefined && range.video > 1) {
+            const attached = attachedVideos[range.video - 2];
+            if (!attached) {
+                console.warn("Timestamp refers to a video that is no longer in the conversation:", timeString);
+                return;
+            }
+            targetVideoId = attached.videoId;
+        }
         
         try {
-            player.seekTo(totalSeconds, true); // Seek and allow seek ahead
-            console.log(`Seeking to ${totalSeconds} seconds`);
+            seekPlayer(targetVideoId, range.start);
+            console.log(`Seeking to ${range.start} seconds`);
+            
+            if (range.end !== undefined) {
+                // Play the segment; the segment effect stops or loops it at the end
+                setActiveSegment(prev => ({ start: range.start, end: range.end as number, loop: prev?.loop ?? false }));
+                player?.playVideo();
+            } else {
+                setActiveSegment(null);
+            }
         } catch (e) {
             console.error("Error seeking video:", e)
         }
     };
 
+    const handleTranscriptSeek = (seconds: number) => {
+        setActiveSegment(null);
+        seekPlayer(null, seconds);
+    };
+
+    const handlePlayVideo = (targetVideoId: string | null) => {
+        setActiveSegment(null);
+        seekPlayer(targetVideoId, 0);
+    };
+
+    const handleAttachVideo = async (input: string) => {
+        const attachedId = extractVideoId(input);
+        if (!attachedId) {
+            setAttachVideoError('Please enter a valid YouTube URL');
+            return;
+        }
+        if (attachedId === videoId || attachedVideos.some(video => video.videoId === attachedId)) {
+            setAttachVideoError('This video is already in the conversation.');
+            return;
+        }
+
+        setIsAttachingVideo(true);
+        setAttachVideoError(null);
+        try {
+            const details = await fetchVideoDetails(attachedId);
+            const updated = [...attachedVideos, { videoId: attachedId, details }].slice(0, MAX_ATTACHED_VIDEOS);
+            setAttachedVideos(updated);
+            if (isSignedIn && conversationId) {
+                await saveConversationVideos(conversationId, updated);
+            }
+        } catch (err) {
+            console.error("Error attaching video:", err);
+            setAttachVideoError(err instanceof Error ? err.message : 'Could not load that video.');
+        } finally {
+            setIsAttachingVideo(false);
+        }
+    };
+
+    const handleDetachVideo = (detachedId: string) => {
+        const updated = attachedVideos.filter(video => video.videoId !== detachedId);
+        setAttachedVideos(updated);
+        if (playingVideoId === detachedId) {
+            handlePlayVideo(null);
+        }
+        if (isSignedIn && conversationId) {
+            saveConversationVideos(conversationId, updated);
+        }
+    };
+
+    const handleSelectPersona = (selectedId: string) => {
+        setPersonaId(selectedId);
+        if (isSignedIn && conversationId) {
+            saveConversationPersona(conversationId, selectedId);
+        }
+    };
+
+    // Create or update one of the user's personas; a new one becomes this conversation's persona
+    const handleSavePersona = async (draft: PersonaDraft): Promise<boolean> => {
+        if (!user) return false;
+        const saved = await saveUserPersona(user.id, draft);
+        if (!saved) return false;
+
+        if (draft.id) {
+            setUserPersonas(prev => prev.map(existing => existing.id === saved.id ? saved : existing));
+        } else {
+            setUserPersonas(prev => [...prev, saved]);
+            handleSelectPersona(saved.id);
+        }
+        return true;
+    };
+
+    const handleDeletePersona = async (deletedId: string) => {
+        if (!user || !(await deleteUserPersona(user.id, deletedId))) return;
+        setUserPersonas(prev => prev.filter(existing => existing.id !== deletedId));
+        if (personaId === deletedId) {
+            handleSelectPersona(DEFAULT_PERSONA_ID);
+        }
+    };
+
+    const handleTranscriptUpload = async (file: File) => {
+        if (!videoId) return;
+
+        const formData = new FormData();
+        formData.append('videoId', videoId);
+        formData.append('file', file);
+        if (transcriptLang) {
+            formData.append('lang', transcriptLang);
+        }
+
+        const response = await fetch('/api/transcript/upload', {
+            method: 'POST',
+            body: formData,
+        });
+
+        if (!response.ok) {
+            let errorMessage = `Upload failed with status ${response.status}`;
+            try {
+                const errorData = await response.json();
+                errorMessage = errorData.message || errorMessage;
+            } catch {
+                errorMessage = response.statusText || errorMessage;
+            }
+            throw new Error(errorMessage);
+        }
+
+        // Reload the transcript so the panel and the chat pick up the upload
+        setTranscriptVersion(prev => prev + 1);
+    };
+
+    const handleAskAboutSelection = (text: string, startSeconds: number, endSeconds: number) => {
+        // The range lets the chat route pull the full segment, so a shortened quote is enough here
+        const quote = text.length > MAX_SELECTION_QUOTE_LENGTH
+            ? `${text.substring(0, MAX_SELECTION_QUOTE_LENGTH - 3)}...`
+            : text;
+        const range = formatTimeRange({ start: Math.floor(startSeconds), end: Math.ceil(endSeconds) }, isLongVideo);
+        handleSendMessage(`Can you explain this part [${range}]?\n\n> ${quote}`);
+    };
+
     const playerOpts: YouTubeProps['opts'] = {
         height: '100%',
         width: '100%',
@@ -472,9 +1047,29 @@ export default function VideoPage() {
                                     onError={handlePlayerError}
                                     className="absolute top-0 left-0 w-full h-full"
                                 />
+                                {activeSegment && (
+                                    <div className="absolute bottom-4 left-4 z-20 flex items-center gap-1 bg-black/70 text-white pl-3 pr-1 py-1 rounded-full text-sm font-medium">
+                                        <span>Segment {formatTimeRange(activeSegment, isLongVideo)}</span>
+                                        <button
+                                            onClick={() => setActiveSegment(prev => prev && { ...prev, loop: !prev.loop })}
+                                            className={`p-1 rounded-full transition-colors ${activeSegment.loop ? 'bg-blue-600 text-white' : 'text-white/70 hover:text-white hover:bg-white/10'}`}
+                                            title={activeSegment.loop ? 'Stop looping this segment' : 'Loop this segment'}
+                                            aria-pressed={activeSegment.loop}
+                                        >
+                                            <Repeat size={14} />
+                                        </button>
+                                        <button
+                                            onClick={() => setActiveSegment(null)}
+                                            className="p-1 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+                                            title="Keep playing past the segment"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                )}
                                 {currentTimestamp > 0 && (
                                     <div className="absolute bottom-4 right-4 z-10 bg-black/70 text-white px-3 py-1.5 rounded-full text-sm font-medium">
-                                        {formatTime(currentTimestamp)}
+                                        {formatVideoTime(currentTimestamp)}
                                     </div>
                                 )}
                             </div>
@@ -519,6 +1114,26 @@ export default function VideoPage() {
                                     <p className="text-xs text-slate-500 px-2 py-1 bg-slate-50 rounded-full border border-slate-200">
                                         {videoDetails.publishedAt ? new Date(videoDetails.publishedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }) : 'Date unavailable'}
                                     </p>
+                                    {captionTracks.length > 0 && (
+                                        <label className="flex items-center gap-2 text-xs text-slate-600 px-2 py-1 bg-slate-50 rounded-full border border-slate-200">
+                                            <Languages size={14} className="text-blue-600" />
+                                            <span className="sr-only">Transcript language</span>
+                                            <select
+                                                value={transcriptLang}
+                                                onChange={(e) => setTranscriptLang(e.target.value)}
+                                                disabled={isAiThinking}
+                                                className="bg-transparent focus:outline-none cursor-pointer disabled:cursor-not-allowed"
+                                                aria-label="Transcript language"
+                                            >
+                                                <option value="">Default transcript</option>
+                                                {captionTracks.map(track => (
+                                                    <option key={`${track.languageCode}-${track.isAutoGenerated}`} value={track.languageCode}>
+                                                        {track.name || formatLanguageName(track.languageCode)}{track.isAutoGenerated ? ' (auto-generated)' : ''}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                    )}
                                 </div>
                                 {videoDetails.description && (
                                     <details open className="mt-4 text-sm text-slate-600 flex flex-col flex-grow">
@@ -540,12 +1155,92 @@ export default function VideoPage() {
                             </>
                         )}
                     </div>
+
+                    {/* Videos compared in this conversation */}
+                    {videoId && videoDetails && (
+                        <ConversationVideos
+                            videoTitle={videoDetails.title}
+                            attachedVideos={attachedVideos}
+                            playingVideoId={playingVideoId}
+                            maxAttached={MAX_ATTACHED_VIDEOS}
+                            isAttaching={isAttachingVideo}
+                            attachError={attachVideoError}
+                            onAttach={handleAttachVideo}
+                            onDetach={handleDetachVideo}
+                            onPlay={handlePlayVideo}
+                        />
+                    )}
+
+                    {/* Chapters */}
+                    <ChapterList
+                        chapters={chapters}
+                        source={chaptersSource}
+                        isGenerating={isGeneratingChapters}
+                        currentTimestamp={currentTimestamp}
+                        onSeek={handleTranscriptSeek}
+                        formatTime={formatVideoTime}
+                    />
+
+                    {/* Study Notes */}
+                    {videoId && videoDetails && (
+                        <StudyNotesPanel
+                            videoId={videoId}
+                            videoTitle={videoDetails.title}
+                            lang={transcriptLang || undefined}
+                            chapters={chapters}
+                            conversationId={isSignedIn ? conversationId : null}
+                            longFormat={isLongVideo}
+                            onSeek={handleTranscriptSeek}
+                            formatTime={formatVideoTime}
+                        />
+                    )}
+
+                    {/* Quiz */}
+                    {videoId && videoDetails && (
+                        <QuizPanel
+                            videoId={videoId}
+                            videoTitle={videoDetails.title}
+                            lang={transcriptLang || undefined}
+                            chapters={chapters}
+                            durationSeconds={videoDetails.durationSeconds}
+                            userId={isSignedIn && user ? user.id : null}
+                            onSeek={handleTranscriptSeek}
+                            formatTime={formatVideoTime}
+                        />
+                    )}
+
+                    {/* Transcript Search */}
+                    {videoId && (
+                        <TranscriptSearch
+                            videoId={videoId}
+                            lang={transcriptLang || undefined}
+                            onSeek={handleTranscriptSeek}
+                        />
+                    )}
+
+                    {/* Transcript Panel */}
+                    {videoId && (
+                        <TranscriptPanel
+                            videoId={videoId}
+                            lang={transcriptLang || undefined}
+                            entries={transcriptEntries}
+                            isLoading={isTranscriptLoading}
+                            error={transcriptError}
+                            currentTimestamp={currentTimestamp}
+                            isAiThinking={isAiThinking}
+                            onSeek={handleTranscriptSeek}
+                            onAskAboutSelection={handleAskAboutSelection}
+                            onUpload={handleTranscriptUpload}
+                            formatTime={formatVideoTime}
+                        />
+                    )}
                 </div>
 
                 {/* Chat Column */}
                 <div className="lg:w-1/2 flex flex-col overflow-hidden">
                     <ChatWindow 
-                        messages={messages}
+                        messages={thread}
+                        branchPositions={branchPositions}
                         isLoading={isLoading || isLoadingHistory}
                         error={error}
                         videoDetails={videoDetails}
@@ -553,8 +1248,25 @@ export default function VideoPage() {
                         currentTimestamp={currentTimestamp}
                         isAiThinking={isAiThinking}
                         onSendMessage={handleSendMessage}
+                        onStopGeneration={handleStopGeneration}
+                        onRegenerate={handleRegenerate}
+                        onEditMessage={handleEditMessage}
+                        onSelectBranch={handleSelectBranch}
                         onTimestampClick={handleTimestampClick}
-                        formatTime={formatTime}
+                        formatTime={formatVideoTime}
+                        historySummary={historySummary}
+                        starterQuestions={starterQuestions}
+                        personaPicker={{
+                            personas: [...PRESET_PERSONAS, ...userPersonas],
+                            selectedId: persona.id,
+                            disabled: isAiThinking,
+                            canCreate: isSignedIn,
+                            isAtLimit: userPersonas.length >= MAX_USER_PERSONAS,
+                            onSelect: handleSelectPersona,
+                            onSave: handleSavePersona,
+                            onDelete: handleDeletePersona,
+                        }}
+                        quota={quota}
                     />
                 </div>
             </div>
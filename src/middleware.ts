@@ -10,8 +10,16 @@ export async function middleware(request: NextRequest) {
 
   const { pathname } = request.nextUrl;
 
-  // If user is not logged in and trying to access a protected route (e.g., /video/*)
-  if (!user && pathname.startsWith('/video/')) {
+  // API routes spend our Gemini and YouTube quotas, so they are for signed-in users only
+  if (!user && pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { message: 'Please sign in to use this feature.', error: 'UNAUTHENTICATED' },
+      { status: 401 }
+    );
+  }
+
+  // If user is not logged in and trying to access a protected route (e.g., /video/*, /playlist/*, /usage)
+  if (!user && (pathname.startsWith('/video/') || pathname.startsWith('/playlist/') || pathname === '/usage')) {
     // Redirect to homepage or a specific login page
     const url = request.nextUrl.clone();
     url.pathname = '/'; 
@@ -7,6 +7,95 @@ export interface Message {
   timestamp: number;
   isAi: boolean;
   isStreaming?: boolean;
+  transcriptLang?: string | null; // Caption track the answer was grounded in
+  transcriptSource?: string | null; // Transcript provider ("youtube", "upload"), null if none was available
+  citations?: Citation[]; // Transcript lines backing the timestamps in an AI answer
+  usage?: ChatUsage; // Token counts reported with an AI answer
+  stopped?: boolean; // The user stopped the answer while it was being written; the text is partial
+  versions?: MessageVersion[]; // Earlier answers to the same question, replaced by Regenerate, oldest first
+  storageId?: string; // Row ID in the Supabase messages table, once saved
+  parentId?: number | null; // The message this one follows; null for the first message
+  branchOf?: number; // The question this one is an edited version of
+  suggestions?: string[]; // Follow-up questions suggested after an AI answer
+}
+
+/**
+ * An earlier answer kept when an AI message is regenerated
+ */
+export type MessageVersion = Pick<Message, 'text' | 'citations' | 'transcriptLang' | 'transcriptSource' | 'stopped' | 'usage'>;
+
+/**
+ * Token counts and cost of one AI answer
+ */
+export interface ChatUsage {
+  inputTokens: number; // System instruction, history, context and question
+  outputTokens: number; // The answer
+  totalTokens: number; // As reported by the provider; may include tokens spent thinking
+  estimated: boolean; // True when counted by the app rather than reported by the provider
+  model: string; // e.g. gemini-2.0-flash
+  latencyMs: number; // From sending the request to the last token
+  costUsd?: number; // At the model's list price; missing for models without a known price
+}
+
+
+/**
+ * A user's daily AI allowance and how much of it is used
+ */
+export interface QuotaStatus {
+  messagesUsed: number;
+  messageLimit: number;
+  messagesRemaining: number;
+  tokensUsed: number; // Input and output tokens together
+  tokenLimit: number;
+  tokensRemaining: number;
+  resetsAt: string; // ISO date-time of the next reset, midnight UTC
+}
+
+/**
+ * Everything a user has used, summed over the daily usage counters
+ */
+export interface UsageTotals {
+  messages: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number; // At list prices; models without a known price count as free
+  since: string | null; // First day with usage, YYYY-MM-DD
+}
+
+/**
+ * A timestamp cited in an AI answer, checked against the transcript
+ */
+export interface Citation {
+  label: string; // As written in the answer, e.g. "[01:23]", "[12:30-14:05]" or "[V2 01:23]"
+  seconds: number; // Cited position
+  endSeconds?: number; // End of a cited range
+  offset: number; // milliseconds, start of the transcript entry at the cited position
+  entryIndex: number;
+  quote: string; // Transcript text at the cited position
+  videoId?: string; // The cited video, in conversations about several videos
+}
+
+/**
+ * Rolling summary of the older part of a conversation, replacing those turns in model requests
+ */
+export interface ConversationSummary {
+  text: string;
+  turnCount: number; // Number of history turns the summary covers, from the start
+  anchor: string; // Start of the last summarized turn, to realign when the history shifts
+}
+
+/**
+ * How the assistant answers: a prompt fragment added to the system instruction, with its own generation settings
+ */
+export interface Persona {
+  id: string; // Preset key such as "socratic", or the row ID of a user-defined persona
+  name: string;
+  description?: string; // One line, shown in the picker
+  instruction: string; // Added to the system instruction; the timestamp rules still apply
+  temperature: number; // 0 to 1
+  maxOutputTokens?: number; // Unset means the chat default
+  isPreset?: boolean; // Built into the app rather than defined by the user
 }
 
 export interface VideoDetails {
@@ -14,4 +103,157 @@ export interface VideoDetails {
   channelTitle?: string;
   description?: string;
   publishedAt?: string;
+  durationSeconds?: number;
+  chapters?: Chapter[]; // Parsed from description timestamps, or generated from the transcript
+  chaptersSource?: ChapterSource;
+}
+
+/**
+ * Another video attached to a conversation, to compare with the video the conversation is about
+ */
+export interface AttachedVideo {
+  videoId: string;
+  details: VideoDetails;
+}
+
+/**
+ * A YouTube playlist opened as a course
+ */
+export interface Playlist {
+  playlistId: string;
+  title: string;
+  channelTitle?: string;
+  description?: string;
+  videos: PlaylistVideo[]; // In playlist order; private and deleted videos are left out
+  totalVideos: number; // Videos in the playlist on YouTube, which may be more than were loaded
+}
+
+export interface PlaylistVideo {
+  videoId: string;
+  title: string;
+  position: number; // 0-based position in the playlist
+  durationSeconds?: number;
+  thumbnailUrl?: string;
+}
+
+/**
+ * How far a user got in one video of a playlist
+ */
+export interface PlaylistVideoProgress {
+  videoId: string;
+  watchedSeconds: number; // Furthest position reached
+  durationSeconds?: number;
+  completed: boolean;
+}
+
+export type ChapterSource = 'description' | 'generated';
+
+export interface Chapter {
+  title: string;
+  start: number; // seconds
+  end?: number; // seconds, start of the next chapter or the end of the video
+}
+
+export type QuizQuestionType = 'multiple_choice' | 'short_answer';
+
+/**
+ * A quiz question generated from the transcript
+ */
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options?: string[]; // Multiple choice only
+  correctOption?: number; // Multiple choice only, index into options
+  answer: string; // The correct option, or a model answer for short-answer questions
+  seconds: number; // Where the answer is found in the video
+  label: string; // "[MM:SS]" or "[H:MM:SS]" of that position
+}
+
+/**
+ * The grade for one answer
+ */
+export interface QuizGrade {
+  questionId: string;
+  response: string; // What the user answered; the option text for multiple choice
+  score: number; // 0 to 1; short answers can get partial credit
+  feedback?: string; // Why a short answer was (partly) wrong
+  gradedBy: 'exact' | 'model' | 'keywords'; // Keywords when model grading was unavailable
+}
+
+/**
+ * A finished quiz, as stored per user and video
+ */
+export interface QuizResult {
+  id?: string;
+  videoId: string;
+  scope: { start: number; end: number; label: string } | null; // Chapter or time range quizzed, null for the whole video
+  questions: QuizQuestion[];
+  grades: QuizGrade[];
+  score: number; // Sum of the grade scores
+  total: number; // Number of questions
+  createdAt?: string;
+}
+
+/**
+ * A key point in the study notes, linked to where it is made in the video
+ */
+export interface StudyNotePoint {
+  text: string;
+  seconds: number;
+  label: string; // "[MM:SS]" or "[H:MM:SS]"
+  details?: string[]; // Supporting sub-points
+}
+
+export interface StudyNoteDefinition {
+  term: string;
+  definition: string;
+  seconds: number;
+  label: string;
+}
+
+/**
+ * The notes for one chapter of the video
+ */
+export interface StudyNotesSection {
+  title: string;
+  start: number; // seconds
+  end: number; // seconds
+  hash: string | null; // Hash of the section's transcript text, null when generation failed
+  points: StudyNotePoint[];
+  definitions: StudyNoteDefinition[];
+}
+
+/**
+ * Study notes for a video: a hierarchical outline with one section per chapter
+ */
+export interface StudyNotes {
+  videoId: string;
+  title: string;
+  lang: string | null; // Transcript language the notes were generated from
+  transcriptHash: string;
+  sections: StudyNotesSection[];
+  generatedAt: number; // epoch milliseconds
+}
+
+export interface CaptionTrack {
+  languageCode: string;
+  name: string;
+  isAutoGenerated: boolean;
+}
+
+export interface TranscriptEntry {
+  text: string;
+  offset: number; // milliseconds
+  duration: number; // milliseconds
+}
+
+export interface TranscriptSearchHit {
+  offset: number; // milliseconds, start of the entry where the match begins
+  entryIndex: number;
+  label: string; // "[MM:SS]"
+  before: string; // Context preceding the match
+  match: string; // The matched transcript text
+  after: string; // Context following the match
+  distance: number; // Edit distance between the query and the match (0 = exact)
 }
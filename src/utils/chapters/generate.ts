@@ -0,0 +1,131 @@
+import type { ChatModelProvider } from '@/utils/llm';
+import { formatTime, ONE_HOUR_SECONDS, parseTime } from '@/utils/timestamps';
+import { chunkTranscript } from '@/utils/transcript/retrieval';
+import { getTranscriptDuration } from '@/utils/transcript';
+import { withChapterEnds } from './index';
+import { getChapterStore } from './store';
+import type { Chapter, TranscriptEntry } from '@/types';
+
+const OUTLINE_WINDOW_MS = 60000; // One outline line per minute of video
+const MAX_OUTLINE_CHARS = 60000; // Keeps the prompt small even for very long videos
+const MIN_GENERATED_CHAPTERS = 2;
+const MAX_GENERATED_CHAPTERS = 15;
+
+/**
+ * Condense the transcript into one timestamped line per window, trimming each line
+ * so that the whole outline fits in the prompt budget
+ */
+function buildTranscriptOutline(transcript: TranscriptEntry[], longFormat: boolean): string {
+  const windows = chunkTranscript(transcript, OUTLINE_WINDOW_MS, 0);
+  const maxLineChars = Math.max(80, Math.floor(MAX_OUTLINE_CHARS / Math.max(windows.length, 1)));
+
+  return windows
+    .map(window => {
+      const text = window.text.length > maxLineChars ? `${window.text.substring(0, maxLineChars)}...` : window.text;
+      return `[${formatTime(window.start / 1000, longFormat)}] ${text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Turn the model's answer into valid chapters: parse times, start at 0:00,
+ * keep ascending order and stay inside the video
+ */
+function parseGeneratedChapters(responseText: string, durationSeconds: number): Chapter[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch (error) {
+    console.error('Error parsing generated chapters:', error);
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const chapters: Chapter[] = [];
+  for (const item of parsed) {
+    if (typeof item?.start !== 'string' || typeof item?.title !== 'string') continue;
+
+    const start = parseTime(item.start);
+    const title = item.title.trim();
+    if (start === null || !title || start >= durationSeconds) continue;
+    if (chapters.length > 0 && start <= chapters[chapters.length - 1].start) continue;
+
+    chapters.push({ title, start: chapters.length === 0 ? 0 : start });
+  }
+
+  if (chapters.length < MIN_GENERATED_CHAPTERS) return [];
+  return withChapterEnds(chapters.slice(0, MAX_GENERATED_CHAPTERS), durationSeconds);
+}
+
+/**
+ * Ask the model to split a video into chapters based on its transcript
+ */
+async function generateChapters(provider: ChatModelProvider, title: string, transcript: TranscriptEntry[]): Promise<Chapter[]> {
+  const durationSeconds = getTranscriptDuration(transcript);
+  const isLongVideo = durationSeconds >= ONE_HOUR_SECONDS;
+  const timeFormat = isLongVideo ? 'H:MM:SS' : 'MM:SS';
+
+  const responseText = await provider.generateJson({
+    prompt: `Split the YouTube video "${title}" into chapters, the way a creator would in the video description.
+
+RULES:
+- Between 3 and 10 chapters, depending on the length and structure of the video.
+- The first chapter starts at ${isLongVideo ? '0:00:00' : '00:00'}; the others start where the topic changes.
+- Use ${timeFormat} start times taken from the outline below.
+- Titles are short (2 to 6 words), specific, and in the language of the transcript.
+
+TRANSCRIPT OUTLINE (one line per minute):
+${buildTranscriptOutline(transcript, isLongVideo)}`,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'string' },
+          title: { type: 'string' },
+        },
+        required: ['start', 'title'],
+      },
+    },
+    config: {
+      temperature: 0.2,
+      maxOutputTokens: 1000,
+    },
+  });
+
+  return parseGeneratedChapters(responseText, durationSeconds);
+}
+
+/**
+ * Get AI-generated chapters for a video without description chapters.
+ * Results are cached per video and transcript language, so each video is only summarized once.
+ * @param provider Provider used to write the chapters, only called when none are cached
+ * @returns The chapters, or null when they could not be generated
+ */
+export async function getGeneratedChapters(
+  provider: ChatModelProvider,
+  videoId: string,
+  title: string,
+  transcript: TranscriptEntry[],
+  lang?: string
+): Promise<Chapter[] | null> {
+  const store = getChapterStore();
+  const cached = await store.get(videoId, lang);
+  if (cached) return cached.chapters;
+
+  if (!provider.isConfigured()) {
+    console.error(`Cannot generate chapters: the ${provider.name} chat provider is not configured.`);
+    return null;
+  }
+
+  try {
+    const chapters = await generateChapters(provider, title, transcript);
+    if (chapters.length === 0) return null;
+
+    await store.set({ videoId, lang: lang || null, chapters, generatedAt: Date.now() }, lang);
+    return chapters;
+  } catch (error) {
+    console.error(`Error generating chapters for video ${videoId}:`, error);
+    return null;
+  }
+}
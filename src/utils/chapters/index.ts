@@ -0,0 +1,101 @@
+import { formatTime, parseTime } from '@/utils/timestamps';
+import type { Chapter } from '@/types';
+
+export type { Chapter, ChapterSource } from '@/types';
+
+// YouTube only shows chapters when there are at least three, starting at 0:00
+const MIN_CHAPTERS = 3;
+const MAX_TITLE_LENGTH = 100;
+
+const TIME_PATTERN = '(?:\\d{1,2}:)?\\d{1,3}:\\d{2}';
+
+// "0:00 Intro", "[12:34] - Setup", "• 1:02:03 | Wrap-up", "(4:20) Q&A"
+const LEADING_TIME_REGEX = new RegExp(`^\\s*(?:[-•*▶►>]\\s*)?[[(]?(${TIME_PATTERN})[\\])]?\\s*(?:[-–—:|.]\\s*)?(.+)$`);
+// "Intro - 0:00", "Setup (12:34)"
+const TRAILING_TIME_REGEX = new RegExp(`^\\s*(?:[-•*▶►>]\\s*)?(.+?)\\s*(?:[-–—:|]\\s*)?[[(]?(${TIME_PATTERN})[\\])]?\\s*$`);
+
+/**
+ * Clean up a chapter title: trim separators left over from the timestamp and cap its length
+ */
+function cleanTitle(title: string): string {
+  const cleaned = title.replace(/^[\s\-–—:|.]+|[\s\-–—:|]+$/g, '').replace(/\s+/g, ' ');
+  return cleaned.length > MAX_TITLE_LENGTH ? `${cleaned.substring(0, MAX_TITLE_LENGTH - 3)}...` : cleaned;
+}
+
+/**
+ * Parse a single description line into a chapter start and title
+ */
+function parseChapterLine(line: string): Chapter | null {
+  const leading = line.match(LEADING_TIME_REGEX);
+  const trailing = leading ? null : line.match(TRAILING_TIME_REGEX);
+  const [time, title] = leading ? [leading[1], leading[2]] : trailing ? [trailing[2], trailing[1]] : [null, null];
+  if (time === null || title === null) return null;
+
+  const start = parseTime(time);
+  const cleanedTitle = cleanTitle(title);
+  // A line holding nothing but timestamps (e.g. "0:00 - 1:30") is not a chapter
+  if (start === null || !cleanedTitle || new RegExp(`^${TIME_PATTERN}$`).test(cleanedTitle)) return null;
+
+  return { title: cleanedTitle, start };
+}
+
+/**
+ * Fill in each chapter's end from the next chapter's start, and the last one from the video duration
+ */
+export function withChapterEnds(chapters: Chapter[], durationSeconds?: number): Chapter[] {
+  return chapters.map((chapter, index) => {
+    const next = chapters[index + 1];
+    const end = next ? next.start : durationSeconds;
+    return end !== undefined && end > chapter.start ? { ...chapter, end } : { title: chapter.title, start: chapter.start };
+  });
+}
+
+/**
+ * Parse chapters from a video description, following YouTube's own rules:
+ * one timestamp per line, the first at 0:00, in ascending order, and at least three of them.
+ * @param description The video description
+ * @param durationSeconds The video length, used as the end of the last chapter
+ * @returns The chapters, or an empty array when the description does not define any
+ */
+export function parseChaptersFromDescription(description: string | undefined, durationSeconds?: number): Chapter[] {
+  if (!description) return [];
+
+  const chapters: Chapter[] = [];
+  for (const line of description.split(/\r?\n/)) {
+    const chapter = parseChapterLine(line);
+    if (!chapter) continue;
+
+    // The list starts at 0:00; anything before that is a timestamp mentioned in the prose
+    if (chapters.length === 0 && chapter.start !== 0) continue;
+    // Skip out-of-order lines instead of rejecting the whole list
+    if (chapters.length > 0 && chapter.start <= chapters[chapters.length - 1].start) continue;
+    if (durationSeconds && chapter.start >= durationSeconds) continue;
+
+    chapters.push(chapter);
+  }
+
+  return chapters.length >= MIN_CHAPTERS ? withChapterEnds(chapters, durationSeconds) : [];
+}
+
+/**
+ * Find the chapter playing at a given position
+ * @param chapters Chapters in ascending order
+ * @param seconds The player position
+ */
+export function findCurrentChapter(chapters: Chapter[] | undefined, seconds: number): Chapter | null {
+  if (!chapters) return null;
+
+  let current: Chapter | null = null;
+  for (const chapter of chapters) {
+    if (chapter.start > seconds) break;
+    current = chapter;
+  }
+  return current;
+}
+
+/**
+ * Format chapters as "[MM:SS] Title" lines for prompts and plain text
+ */
+export function formatChapterList(chapters: Chapter[], longFormat: boolean = false): string {
+  return chapters.map(chapter => `[${formatTime(chapter.start, longFormat)}] ${chapter.title}`).join('\n');
+}
@@ -0,0 +1,94 @@
+import { getAdminClient } from '@/app/lib/supabase/admin';
+import type { Chapter } from '@/types';
+
+export interface StoredChapters {
+  videoId: string;
+  lang: string | null; // Transcript language the chapters were generated from
+  chapters: Chapter[];
+  generatedAt: number; // epoch milliseconds
+}
+
+/**
+ * Cache for AI-generated chapters, so each video and language is only summarized once
+ */
+export interface ChapterStore {
+  get(videoId: string, lang?: string): Promise<StoredChapters | null>;
+  set(stored: StoredChapters, lang?: string): Promise<void>;
+}
+
+const DEFAULT_LANG_KEY = 'default';
+
+/**
+ * In-process store, lost on every cold start
+ */
+export class MemoryChapterStore implements ChapterStore {
+  private entries = new Map<string, StoredChapters>();
+
+  async get(videoId: string, lang?: string): Promise<StoredChapters | null> {
+    return this.entries.get(`${videoId}:${lang || DEFAULT_LANG_KEY}`) || null;
+  }
+
+  async set(stored: StoredChapters, lang?: string): Promise<void> {
+    this.entries.set(`${stored.videoId}:${lang || DEFAULT_LANG_KEY}`, stored);
+  }
+}
+
+/**
+ * Store backed by the `generated_chapters` Supabase table, written with the service-role client
+ */
+export class SupabaseChapterStore implements ChapterStore {
+  constructor(private table: string = 'generated_chapters') {}
+
+  async get(videoId: string, lang?: string): Promise<StoredChapters | null> {
+    const { data, error } = await getAdminClient()
+      .from(this.table)
+      .select('video_id, language, chapters, generated_at')
+      .eq('video_id', videoId)
+      .eq('lang', lang || DEFAULT_LANG_KEY)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reading generated chapters from Supabase:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    return {
+      videoId: data.video_id,
+      lang: data.language,
+      chapters: data.chapters,
+      generatedAt: new Date(data.generated_at).getTime(),
+    };
+  }
+
+  async set(stored: StoredChapters, lang?: string): Promise<void> {
+    const { error } = await getAdminClient()
+      .from(this.table)
+      .upsert({
+        video_id: stored.videoId,
+        lang: lang || DEFAULT_LANG_KEY,
+        language: stored.lang,
+        chapters: stored.chapters,
+        generated_at: new Date(stored.generatedAt).toISOString(),
+      }, { onConflict: 'video_id,lang' });
+
+    if (error) {
+      console.error('Error saving generated chapters to Supabase:', error);
+    }
+  }
+}
+
+let chapterStore: ChapterStore | null = null;
+
+/**
+ * Get the chapter store. Follows TRANSCRIPT_STORE: Supabase when transcripts live there
+ * (the production default), otherwise in memory.
+ */
+export function getChapterStore(): ChapterStore {
+  if (!chapterStore) {
+    const configured = process.env.TRANSCRIPT_STORE
+      || (process.env.NODE_ENV === 'production' ? 'supabase' : 'memory');
+    chapterStore = configured === 'supabase' ? new SupabaseChapterStore() : new MemoryChapterStore();
+  }
+  return chapterStore;
+}
@@ -0,0 +1,85 @@
+// src/utils/chatBranches.ts
+// A conversation is a tree of messages: editing a question adds a sibling of that question,
+// and the conversation continues from the new one. The chat shows one path through the tree.
+
+import { Message } from '@/types';
+
+/**
+ * The child chosen at each branching point, by parent message ID (see branchKey)
+ */
+export type BranchSelection = Record<string, number>;
+
+/**
+ * Where a message sits among its siblings
+ */
+export interface BranchPosition {
+  index: number; // Position of the message among its siblings, oldest first
+  siblingIds: number[]; // The message and its siblings, oldest first
+}
+
+/**
+ * Key of a branching point in a BranchSelection; messages without a parent share the root key
+ */
+export function branchKey(parentId: number | null | undefined): string {
+  return parentId === null || parentId === undefined ? 'root' : String(parentId);
+}
+
+function groupByParent(messages: Message[]): Map<string, Message[]> {
+  const children = new Map<string, Message[]>();
+  for (const message of messages) {
+    const key = branchKey(message.parentId);
+    const siblings = children.get(key);
+    if (siblings) {
+      siblings.push(message);
+    } else {
+      children.set(key, [message]);
+    }
+  }
+  return children;
+}
+
+/**
+ * Follow the selected branches from the first message to the last.
+ * Where nothing was selected, the newest branch is followed, so a new edit is shown right away.
+ * @param messages Every message of the conversation, oldest first
+ * @param selection The branch chosen at each branching point
+ */
+export function getActiveThread(messages: Message[], selection: BranchSelection): Message[] {
+  const children = groupByParent(messages);
+  const thread: Message[] = [];
+  const visited = new Set<number>();
+
+  let key = branchKey(null);
+  let siblings = children.get(key);
+  while (siblings && siblings.length > 0) {
+    const chosen = siblings.find(message => message.id === selection[key]) || siblings[siblings.length - 1];
+    if (visited.has(chosen.id)) break; // Malformed links; never loop
+    visited.add(chosen.id);
+    thread.push(chosen);
+
+    key = branchKey(chosen.id);
+    siblings = children.get(key);
+  }
+
+  return thread;
+}
+
+/**
+ * Positions of the thread's messages that have siblings, by message ID
+ * @param messages Every message of the conversation, oldest first
+ * @param thread The path being shown, from getActiveThread
+ */
+export function getBranchPositions(messages: Message[], thread: Message[]): Record<number, BranchPosition> {
+  const children = groupByParent(messages);
+  const positions: Record<number, BranchPosition> = {};
+
+  for (const message of thread) {
+    const siblings = children.get(branchKey(message.parentId)) || [];
+    if (siblings.length > 1) {
+      const siblingIds = siblings.map(sibling => sibling.id);
+      positions[message.id] = { index: siblingIds.indexOf(message.id), siblingIds };
+    }
+  }
+
+  return positions;
+}
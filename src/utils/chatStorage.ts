@@ -1,7 +1,7 @@
 // src/utils/chatStorage.ts
 
 import { supabase } from './supabase';
-import { Message } from '@/types';
+import { AttachedVideo, ConversationSummary, Message, StudyNotes } from '@/types';
 
 export interface Conversation {
   id: string;
@@ -11,6 +11,21 @@ export interface Conversation {
   lastUpdatedAt: string;
 }
 
+/**
+ * What the AI answers in one conversation used
+ */
+export interface ConversationUsage {
+  conversationId: string;
+  videoId: string;
+  videoTitle: string;
+  lastUpdatedAt: string;
+  answers: number; // AI answers with usage, regenerated versions included
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number; // Answers from models without a known price count as free
+}
+
 export async function saveConversation(userId: string, videoId: string, videoTitle: string): Promise<string | null> {
   try {
     console.log('Saving conversation for user:', userId, 'video:', videoId);
@@ -85,9 +100,202 @@ export async function deleteConversation(conversationId: string): Promise<boolea
   }
 }
 
+/**
+ * Get the rolling history summary stored with a conversation
+ * @param conversationId The conversation ID
+ */
+export async function getConversationSummary(conversationId: string): Promise<ConversationSummary | null> {
+  try {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('history_summary')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.history_summary || null;
+  } catch (error) {
+    console.error('Error fetching conversation summary:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the rolling history summary with a conversation, so later requests can reuse it
+ * @param conversationId The conversation ID
+ * @param summary The summary returned by the chat API
+ */
+export async function saveConversationSummary(conversationId: string, summary: ConversationSummary): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ history_summary: summary })
+      .eq('id', conversationId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving conversation summary:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the other videos attached to a conversation for comparison
+ * @param conversationId The conversation ID
+ */
+export async function getConversationVideos(conversationId: string): Promise<AttachedVideo[]> {
+  try {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('attached_videos')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return Array.isArray(data?.attached_videos) ? data.attached_videos : [];
+  } catch (error) {
+    console.error('Error fetching conversation videos:', error);
+    return [];
+  }
+}
+
+/**
+ * Store the videos attached to a conversation, in the order they are tagged (V2, V3...)
+ * @param conversationId The conversation ID
+ * @param videos The attached videos, without the conversation's own video
+ */
+export async function saveConversationVideos(conversationId: string, videos: AttachedVideo[]): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ attached_videos: videos })
+      .eq('id', conversationId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving conversation videos:', error);
+    return false;
+  }
+}
+
+/**
+ * Get the persona a conversation is answered in
+ * @param conversationId The conversation ID
+ * @returns A preset key or user persona ID, or null for the default persona
+ */
+export async function getConversationPersona(conversationId: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('persona_id')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.persona_id || null;
+  } catch (error) {
+    console.error('Error fetching conversation persona:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the persona a conversation is answered in
+ * @param conversationId The conversation ID
+ * @param personaId A preset key or user persona ID
+ */
+export async function saveConversationPersona(conversationId: string, personaId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ persona_id: personaId })
+      .eq('id', conversationId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving conversation persona:', error);
+    return false;
+  }
+}
+
+const STUDY_NOTES_ARTIFACT = 'study_notes';
+
+/**
+ * Get the study notes saved with a conversation
+ * @param conversationId The conversation ID
+ */
+export async function getStudyNotes(conversationId: string): Promise<StudyNotes | null> {
+  try {
+    const { data, error } = await supabase
+      .from('conversation_artifacts')
+      .select('content')
+      .eq('conversation_id', conversationId)
+      .eq('kind', STUDY_NOTES_ARTIFACT)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.content || null;
+  } catch (error) {
+    console.error('Error fetching study notes:', error);
+    return null;
+  }
+}
+
+/**
+ * Save study notes as an artifact of a conversation, replacing earlier notes
+ * @param conversationId The conversation ID
+ * @param notes The notes returned by the notes API
+ */
+export async function saveStudyNotes(conversationId: string, notes: StudyNotes): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('conversation_artifacts')
+      .upsert({
+        conversation_id: conversationId,
+        kind: STUDY_NOTES_ARTIFACT,
+        content: notes,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'conversation_id,kind' });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving study notes:', error);
+    return false;
+  }
+}
+
 const MAX_CONTENT_SIZE = 1024 * 8; 
 
-export async function saveMessage(conversationId: string, message: Message): Promise<boolean> {
+/**
+ * Message text as stored, truncated to the content size limit
+ */
+function toStoredContent(message: Message): string {
+  let content = typeof message.text === 'string' ? message.text : JSON.stringify(message);
+  if (content.length > MAX_CONTENT_SIZE) {
+    console.warn(`Message content exceeds ${MAX_CONTENT_SIZE} bytes, truncating...`);
+    content = content.substring(0, MAX_CONTENT_SIZE - 3) + '...';
+  }
+  return content;
+}
+
+/**
+ * Links of a stored message to other stored messages, by row ID
+ */
+export interface MessageLinks {
+  parentId?: string | null; // The message this one follows
+  branchOf?: string | null; // The question this one is an edited version of
+}
+
+/**
+ * Save a message to a conversation
+ * @param links Where the message sits in the conversation tree
+ * @returns The ID of the stored row, or null when the message could not be saved
+ */
+export async function saveMessage(conversationId: string, message: Message, links: MessageLinks = {}): Promise<string | null> {
   try {
     console.log('Saving message for conversation:', conversationId);
     
@@ -100,18 +308,7 @@ export async function saveMessage(conversationId: string, message: Message): Pro
     });
     
     // Prepare content, ensuring it doesn't exceed size limits
-    let content: string;
-    if (typeof message.text === 'string') {
-      content = message.text;
-    } else {
-      content = JSON.stringify(message);
-    }
-    
-    // Truncate content if it exceeds the maximum size
-    if (content.length > MAX_CONTENT_SIZE) {
-      console.warn(`Message content exceeds ${MAX_CONTENT_SIZE} bytes, truncating...`);
-      content = content.substring(0, MAX_CONTENT_SIZE - 3) + '...';
-    }
+    const content = toStoredContent(message);
     
     // Check for rate limiting - implement exponential backoff
     const MAX_RETRIES = 3;
@@ -120,14 +317,22 @@ export async function saveMessage(conversationId: string, message: Message): Pro
     
     while (retries <= MAX_RETRIES) {
       try {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('messages')
           .insert({
             conversation_id: conversationId,
             content: content,
             timestamp: message.timestamp || Math.floor(Date.now() / 1000),
-            is_ai: message.isAi
-          });
+            is_ai: message.isAi,
+            citations: message.citations && message.citations.length > 0 ? message.citations : null,
+            versions: message.versions && message.versions.length > 0 ? message.versions : null,
+            usage: message.usage || null,
+            stopped: message.stopped || false,
+            parent_id: links.parentId || null,
+            branch_of: links.branchOf || null
+          })
+          .select('id')
+          .single();
       
         if (error) {
           // Check if it's a rate limit error
@@ -147,7 +352,7 @@ export async function saveMessage(conversationId: string, message: Message): Pro
         }
         
         console.log('Message saved successfully');
-        return true;
+        return data?.id || null;
       } catch (err) {
         lastError = err;
         // Only retry on network errors or rate limits
@@ -172,13 +377,39 @@ export async function saveMessage(conversationId: string, message: Message): Pro
     if (lastError instanceof Error) {
       console.error("Detailed Error:", JSON.stringify(lastError, null, 2));
     }
-    return false;
+    return null;
   } catch (error) {
     console.error('Error saving message:', error); // Log the full error
     console.error("Error saving message:", error);
     if (error instanceof Error) {
       console.error("Detailed Error:", JSON.stringify(error, null, 2));
     }
+    return null;
+  }
+}
+
+/**
+ * Replace a saved AI message with a regenerated answer, keeping the earlier versions with it
+ * @param storageId Row ID returned by saveMessage
+ * @param message The message with its new text and versions
+ */
+export async function updateMessage(storageId: string, message: Message): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('messages')
+      .update({
+        content: toStoredContent(message),
+        citations: message.citations && message.citations.length > 0 ? message.citations : null,
+        versions: message.versions && message.versions.length > 0 ? message.versions : null,
+        usage: message.usage || null,
+        stopped: message.stopped || false
+      })
+      .eq('id', storageId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating message:', error);
     return false;
   }
 }
@@ -297,6 +528,20 @@ export async function getConversationMessages(
       }
     }
     
+    // Rows link to each other by row ID, messages in the UI by message ID
+    const baseId = Date.now();
+    const idsByRow = new Map<string, number>(data.map((msg, index) => [msg.id, baseId + index]));
+    const linksFor = (index: number): Pick<Message, 'parentId' | 'branchOf'> => {
+      const msg = data[index];
+      const branchOf = msg.branch_of ? idsByRow.get(msg.branch_of) : undefined;
+      if (msg.parent_id) {
+        return { parentId: idsByRow.get(msg.parent_id) ?? null, branchOf };
+      }
+      // Messages saved before branching have no links and simply follow the previous row
+      const followsPrevious = !msg.branch_of && index > 0;
+      return { parentId: followsPrevious ? baseId + index - 1 : null, branchOf };
+    };
+
     return data.map((msg, index) => {
       let messageContent = msg.content;
       try {
@@ -304,11 +549,17 @@ export async function getConversationMessages(
         const parsedContent = JSON.parse(msg.content);
         if (typeof parsedContent === 'object' && parsedContent !== null) {
           return {
-            id: Date.now() + index, // Use unique IDs for the UI
+            id: baseId + index, // Use unique IDs for the UI
             user: parsedContent.user || (msg.is_ai ? 'AI Assistant' : 'You'),
             text: parsedContent.text || msg.content,
             timestamp: parsedContent.timestamp || msg.timestamp || 0,
-            isAi: msg.is_ai
+            isAi: msg.is_ai,
+            citations: Array.isArray(msg.citations) ? msg.citations : undefined,
+            versions: Array.isArray(msg.versions) ? msg.versions : undefined,
+            usage: msg.usage || undefined,
+            stopped: msg.stopped || undefined,
+            storageId: msg.id,
+            ...linksFor(index)
           };
         }
       } catch {
@@ -317,15 +568,72 @@ export async function getConversationMessages(
       }
       
       return {
-        id: Date.now() + index, // Use unique IDs for the UI
+        id: baseId + index, // Use unique IDs for the UI
         user: msg.is_ai ? 'AI Assistant' : 'You',
         text: messageContent,
         timestamp: msg.timestamp || 0,
-        isAi: msg.is_ai
+        isAi: msg.is_ai,
+        citations: Array.isArray(msg.citations) ? msg.citations : undefined,
+        versions: Array.isArray(msg.versions) ? msg.versions : undefined,
+        usage: msg.usage || undefined,
+        stopped: msg.stopped || undefined,
+        storageId: msg.id,
+        ...linksFor(index)
       };
     });
   } catch (error) {
     console.error('Error in getConversationMessages:', error); // Log the full error
     return [];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Token usage and cost of the answers in the user's recent conversations, most recently active first.
+ * Only chat answers are stored per conversation; the user's totals come from /api/usage.
+ * @param userId The user ID
+ * @param limit Maximum number of conversations (default: 50)
+ */
+export async function getConversationUsage(
+  userId: string,
+  limit: number = DEFAULT_CONVERSATION_LIMIT
+): Promise<ConversationUsage[]> {
+  try {
+    const { data: conversations, error } = await supabase
+      .from('conversations')
+      .select('id, video_id, video_title, last_updated_at')
+      .eq('user_id', userId)
+      .order('last_updated_at', { ascending: false })
+      .limit(Math.min(limit, 100));
+
+    if (error) throw error;
+    if (conversations.length === 0) return [];
+
+    // Summed per conversation by the conversation_usage view, so no answer is left out however many there are
+    const { data: sums, error: sumsError } = await supabase
+      .from('conversation_usage')
+      .select('conversation_id, answers, input_tokens, output_tokens, total_tokens, cost_usd')
+      .in('conversation_id', conversations.map(conv => conv.id));
+
+    if (sumsError) throw sumsError;
+    const sumsById = new Map(sums.map(sum => [sum.conversation_id, sum]));
+
+    return conversations.map(conv => {
+      const sum = sumsById.get(conv.id);
+      return {
+        conversationId: conv.id,
+        videoId: conv.video_id,
+        videoTitle: conv.video_title,
+        lastUpdatedAt: conv.last_updated_at,
+        // BIGINT and NUMERIC columns can arrive as strings
+        answers: Number(sum?.answers || 0),
+        inputTokens: Number(sum?.input_tokens || 0),
+        outputTokens: Number(sum?.output_tokens || 0),
+        totalTokens: Number(sum?.total_tokens || 0),
+        costUsd: Number(sum?.cost_usd || 0),
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching conversation usage:', error);
+    return [];
+  }
+}
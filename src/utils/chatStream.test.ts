@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createChatStreamParser, encodeChatStreamEvent, readChatStream, type ChatStreamEvent } from './chatStream';
+
+// One event of every type, in the order a stream sends them
+const EVENTS: ChatStreamEvent[] = [
+  { type: 'token', text: 'The answer is at ' },
+  { type: 'token', text: '[01:23] — déjà vu.' },
+  {
+    type: 'citation',
+    citation: { label: '[01:23]', seconds: 83, offset: 82500, entryIndex: 12, quote: 'déjà vu' },
+  },
+  {
+    type: 'usage',
+    usage: { inputTokens: 1200, outputTokens: 40, totalTokens: 1240, estimated: false, model: 'mock', latencyMs: 350, costUsd: 0 },
+  },
+  {
+    type: 'quota',
+    quota: {
+      messagesUsed: 3,
+      messageLimit: 50,
+      messagesRemaining: 47,
+      tokensUsed: 1240,
+      tokenLimit: 200000,
+      tokensRemaining: 198760,
+      resetsAt: '2026-10-20T00:00:00.000Z',
+    },
+  },
+  {
+    type: 'done',
+    fullResponse: 'The answer is at [01:23] — déjà vu.',
+    transcriptLang: 'en',
+    transcriptSource: 'youtube',
+    historySummary: null,
+    summaryUpdated: false,
+  },
+  { type: 'suggestions', questions: ['What comes next?'] },
+  { type: 'error', message: 'The model is unavailable.', code: 'MODEL_ERROR' },
+];
+
+/**
+ * A response whose body arrives in the given chunks
+ */
+function streamResponse(chunks: Uint8Array[]): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+async function readAll(response: Response): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatStream(response)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('readChatStream', () => {
+  it('reads back every event type it encodes', async () => {
+    const events = await readAll(streamResponse(EVENTS.map(encodeChatStreamEvent)));
+    expect(events).toEqual(EVENTS);
+  });
+
+  it('reassembles lines and characters split across reads', async () => {
+    const bytes = new Uint8Array(EVENTS.flatMap(event => Array.from(encodeChatStreamEvent(event))));
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += 7) {
+      chunks.push(bytes.slice(i, i + 7));
+    }
+
+    expect(await readAll(streamResponse(chunks))).toEqual(EVENTS);
+  });
+});
+
+describe('createChatStreamParser', () => {
+  it('parses a last line without a newline on flush', () => {
+    const parser = createChatStreamParser();
+    expect(parser.push('{"type":"token","text":"a"}\n{"type":"token",')).toEqual([{ type: 'token', text: 'a' }]);
+    expect(parser.push('"text":"b"}')).toEqual([]);
+    expect(parser.flush()).toEqual([{ type: 'token', text: 'b' }]);
+  });
+
+  it('skips blank lines and unknown events', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const parser = createChatStreamParser();
+    expect(parser.push('\n{"type":"unknown"}\n{"type":"toString"}\n{"text":"no type"}\n')).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,144 @@
+// src/utils/chatStream.ts
+// The /api/chat streaming protocol, shared by the route and the video page.
+//
+// The response body is newline-delimited JSON (Content-Type: application/x-ndjson):
+// one event object per line, each with a `type`. A stream is a series of `token`
+// events, then `citation`, `usage` and `quota` events, then exactly one `done` or `error`.
+// A `done` can be followed by one `suggestions` event, written once the answer is complete.
+
+import { Citation, ChatUsage, ConversationSummary, QuotaStatus } from '@/types';
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+/** A piece of answer text, appended to what came before */
+export interface TokenEvent {
+  type: 'token';
+  text: string;
+}
+
+/** A timestamp in the answer, verified against the transcript */
+export interface CitationEvent {
+  type: 'citation';
+  citation: Citation;
+}
+
+/** Token counts, model, latency and cost of the request and the answer */
+export interface UsageEvent {
+  type: 'usage';
+  usage: ChatUsage;
+}
+
+/** The user's daily quota, once this answer is counted */
+export interface QuotaEvent {
+  type: 'quota';
+  quota: QuotaStatus;
+}
+
+/** Follow-up questions suggested after the answer */
+export interface SuggestionsEvent {
+  type: 'suggestions';
+  questions: string[];
+}
+
+/** The answer failed; no `done` event follows */
+export interface ErrorEvent {
+  type: 'error';
+  message: string;
+  code?: string;
+}
+
+/** The answer is complete */
+export interface DoneEvent {
+  type: 'done';
+  fullResponse: string; // The whole answer, equal to the concatenated tokens
+  transcriptLang: string | null;
+  transcriptSource: string | null;
+  historySummary: ConversationSummary | null;
+  summaryUpdated: boolean;
+}
+
+export type ChatStreamEvent = TokenEvent | CitationEvent | UsageEvent | QuotaEvent | SuggestionsEvent | ErrorEvent | DoneEvent;
+
+/**
+ * Serialize an event as one NDJSON line
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): Uint8Array {
+  return new TextEncoder().encode(`${JSON.stringify(event)}\n`);
+}
+
+// Keyed by every event type, so adding an event to the union fails to compile until it is listed here
+const CHAT_STREAM_EVENT_TYPES: Record<ChatStreamEvent['type'], true> = {
+  token: true,
+  citation: true,
+  usage: true,
+  quota: true,
+  suggestions: true,
+  error: true,
+  done: true,
+};
+
+function isChatStreamEvent(value: unknown): value is ChatStreamEvent {
+  const type = typeof value === 'object' && value !== null ? (value as { type?: unknown }).type : undefined;
+  return typeof type === 'string' && Object.hasOwn(CHAT_STREAM_EVENT_TYPES, type);
+}
+
+/**
+ * Incremental NDJSON parser. Network reads can split a line or carry several,
+ * so partial lines are buffered until their newline arrives.
+ */
+export function createChatStreamParser() {
+  let buffer = '';
+
+  const parseLine = (line: string): ChatStreamEvent | null => {
+    if (!line.trim()) return null;
+    const parsed = JSON.parse(line);
+    if (!isChatStreamEvent(parsed)) {
+      console.warn('Ignoring unknown chat stream event:', parsed);
+      return null;
+    }
+    return parsed;
+  };
+
+  return {
+    /** Add decoded text and return the events completed by it */
+    push(text: string): ChatStreamEvent[] {
+      buffer += text;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      return lines.map(parseLine).filter((event): event is ChatStreamEvent => event !== null);
+    },
+    /** Parse a final line that was not terminated by a newline */
+    flush(): ChatStreamEvent[] {
+      const rest = buffer;
+      buffer = '';
+      const event = parseLine(rest);
+      return event ? [event] : [];
+    },
+  };
+}
+
+/**
+ * Read the events of a /api/chat response as they arrive
+ */
+export async function* readChatStream(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) {
+    throw new Error('Response body is not readable');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createChatStreamParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // stream: true keeps multi-byte characters that straddle reads intact
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { formatLanguageName, formatTime } from './formatters';
+
+describe('formatTime', () => {
+  it('is the shared timestamp formatter', () => {
+    expect(formatTime(83)).toBe('01:23');
+    expect(formatTime(5712)).toBe('1:35:12');
+    expect(formatTime(83, true)).toBe('0:01:23');
+  });
+});
+
+describe('formatLanguageName', () => {
+  it('names known languages', () => {
+    expect(formatLanguageName('en')).toBe('English');
+    expect(formatLanguageName('pt-BR')).toBe('Brazilian Portuguese');
+  });
+
+  it('returns invalid codes as they are', () => {
+    expect(formatLanguageName('not a code')).toBe('not a code');
+  });
+});
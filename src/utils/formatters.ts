@@ -1,14 +1,26 @@
+// Timestamps are formatted by the shared timestamp module (H:MM:SS for long videos, MM:SS otherwise)
+export { formatTime } from './timestamps';
+
 /**
- * Formats seconds into a MM:SS timestamp format
- * @param seconds - Number of seconds to format
- * @returns Formatted timestamp string in MM:SS format
+ * Formats a language code (e.g. "en", "pt-BR") as a readable language name
+ * @param languageCode - BCP 47 language code
+ * @returns The English name of the language, or the code itself if unknown
  */
-export const formatTime = (seconds: number): string => {
-  if (isNaN(seconds) || seconds < 0) {
-    return '00:00';
+export const formatLanguageName = (languageCode: string): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(languageCode) || languageCode;
+  } catch {
+    return languageCode;
   }
-  const totalSeconds = Math.floor(seconds);
-  const mins = Math.floor(totalSeconds / 60);
-  const secs = totalSeconds % 60;
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Formats a cost in US dollars, with more decimals for the fractions of a cent a single answer costs
+ * @param usd - Cost in US dollars
+ * @returns e.g. "$1.25", "$0.0031", or "<$0.0001" for tiny non-zero amounts
+ */
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.0001) return '<$0.0001';
+  return `$${usd.toFixed(usd < 0.01 ? 4 : 2)}`;
 };
@@ -0,0 +1,114 @@
+import { GoogleGenAI, HarmCategory, HarmBlockThreshold, Type, type GenerateContentResponseUsageMetadata, type Schema } from '@google/genai';
+import type { ChatCompletionRequest, ChatModelProvider, JsonCompletionRequest, JsonSchema, ReportedUsage } from './index';
+
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+
+const SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+];
+
+const SCHEMA_TYPES = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+/**
+ * Gemini's OpenAPI-style schema for a JSON Schema
+ */
+function toGeminiSchema(schema: JsonSchema): Schema {
+  switch (schema.type) {
+    case 'array':
+      return { type: Type.ARRAY, items: toGeminiSchema(schema.items) };
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property)])),
+        ...(schema.required ? { required: schema.required } : {}),
+      };
+    case 'string':
+      return { type: Type.STRING, ...(schema.enum ? { enum: schema.enum } : {}) };
+    default:
+      return { type: SCHEMA_TYPES[schema.type] };
+  }
+}
+
+function toReportedUsage({ promptTokenCount = 0, candidatesTokenCount = 0, totalTokenCount }: GenerateContentResponseUsageMetadata): ReportedUsage {
+  return {
+    inputTokens: promptTokenCount,
+    outputTokens: candidatesTokenCount,
+    totalTokens: totalTokenCount ?? promptTokenCount + candidatesTokenCount,
+  };
+}
+
+/**
+ * Google Gemini through the @google/genai SDK
+ */
+export class GeminiChatProvider implements ChatModelProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private ai: GoogleGenAI | null = null;
+
+  constructor(private apiKey: string | undefined, model: string = DEFAULT_MODEL) {
+    this.model = model;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private client(): GoogleGenAI {
+    if (!this.ai) {
+      this.ai = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.ai;
+  }
+
+  async *streamChat({ systemInstruction, history, message, config = {}, signal, onUsage }: ChatCompletionRequest): AsyncIterable<string> {
+    const chat = this.client().chats.create({
+      model: this.model,
+      history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+      config: {
+        systemInstruction,
+        ...config,
+        safetySettings: SAFETY_SETTINGS,
+      },
+    });
+
+    const stream = await chat.sendMessageStream({ message });
+    let usage: ReportedUsage | null = null;
+    for await (const chunk of stream) {
+      // The SDK cannot cancel a request, so stop reading; leaving the loop closes the response
+      if (signal?.aborted) return;
+      // Every chunk carries the counts so far; the last one has the totals
+      if (chunk.usageMetadata) {
+        usage = toReportedUsage(chunk.usageMetadata);
+      }
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+    if (usage) onUsage?.(usage);
+  }
+
+  async generateJson({ prompt, schema, config = {}, onUsage }: JsonCompletionRequest): Promise<string> {
+    const response = await this.client().models.generateContent({
+      model: this.model,
+      contents: prompt,
+      config: {
+        ...config,
+        safetySettings: SAFETY_SETTINGS,
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(schema),
+      },
+    });
+    if (response.usageMetadata) onUsage?.(toReportedUsage(response.usageMetadata));
+    return response.text || '';
+  }
+}
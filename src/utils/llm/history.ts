@@ -0,0 +1,144 @@
+import { completeChat, type ChatModelProvider, type ChatTurn } from './index';
+import type { ConversationSummary } from '@/types';
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 6000;
+
+// After compressing, keep the verbatim turns well under the budget so the next
+// few requests can reuse the summary instead of summarizing again
+const RECENT_SHARE_AFTER_SUMMARY = 0.5;
+const MIN_RECENT_TURNS = 2; // Always keep the last exchange verbatim
+const SUMMARY_MAX_OUTPUT_TOKENS = 500;
+const ANCHOR_LENGTH = 100;
+
+export interface BudgetedHistory {
+  history: ChatTurn[]; // Turns to send verbatim
+  summary: ConversationSummary | null; // Summary of everything before them
+  summaryUpdated: boolean; // True when the summary was (re)written for this request
+}
+
+/**
+ * Rough token estimate (about four characters per token for English text).
+ * Good enough for budgeting; no provider-specific tokenizer needed.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * The configured history budget in tokens, from CHAT_HISTORY_TOKEN_BUDGET
+ */
+export function getHistoryTokenBudget(): number {
+  const configured = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '', 10);
+  return configured > 0 ? configured : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+function anchorFor(turn: ChatTurn): string {
+  return turn.text.substring(0, ANCHOR_LENGTH);
+}
+
+/**
+ * Find how many turns of this history a stored summary covers.
+ * The client may send a shifted history (e.g. without the greeting after a reload),
+ * so the anchor turn is searched for when it is not where the count says.
+ * @returns The number of covered turns, or 0 when the summary does not belong to this history
+ */
+function coveredTurnCount(history: ChatTurn[], summary: ConversationSummary): number {
+  const expected = summary.turnCount - 1;
+  if (expected >= 0 && expected < history.length && anchorFor(history[expected]) === summary.anchor) {
+    return summary.turnCount;
+  }
+  for (let i = Math.min(expected, history.length - 1); i >= 0; i--) {
+    if (anchorFor(history[i]) === summary.anchor) return i + 1;
+  }
+  return 0;
+}
+
+function totalTokens(turns: ChatTurn[]): number {
+  return turns.reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+}
+
+/**
+ * Fold older turns into the running summary
+ */
+async function summarizeTurns(
+  provider: ChatModelProvider,
+  videoTitle: string,
+  previousSummary: string | null,
+  turns: ChatTurn[]
+): Promise<string> {
+  const transcript = turns
+    .map(turn => `${turn.role === 'model' ? 'ASSISTANT' : 'USER'}: ${turn.text}`)
+    .join('\n\n');
+
+  return completeChat(provider, {
+    systemInstruction: `You maintain a running summary of a conversation between a user and an assistant about the YouTube video "${videoTitle}".
+- Merge the existing summary with the new turns into one updated summary.
+- Keep what the user asked, the key facts and conclusions, and every [MM:SS] or [H:MM:SS] timestamp that was referenced.
+- Keep the user's stated goals and preferences.
+- Write at most 250 words of plain prose, no headings.`,
+    history: [],
+    message: `${previousSummary ? `EXISTING SUMMARY:\n${previousSummary}\n\n` : ''}NEW TURNS:\n${transcript}`,
+    config: {
+      maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS,
+      temperature: 0.2,
+    },
+  });
+}
+
+/**
+ * Keep the chat history under a token budget.
+ * Recent turns stay verbatim; older turns are folded into a running summary, which is
+ * reused across requests and only rewritten when the verbatim part outgrows the budget.
+ * @param provider Provider used to write the summary
+ * @param videoTitle Title of the video, for the summarization prompt
+ * @param history The full history, oldest first
+ * @param summary The summary returned with the previous answer, if any
+ * @param budget Maximum estimated tokens for summary plus verbatim turns
+ */
+export async function fitHistoryToBudget(
+  provider: ChatModelProvider,
+  videoTitle: string,
+  history: ChatTurn[],
+  summary: ConversationSummary | null | undefined,
+  budget: number = getHistoryTokenBudget()
+): Promise<BudgetedHistory> {
+  const covered = summary ? coveredTurnCount(history, summary) : 0;
+  const currentSummary = summary && covered > 0 ? { ...summary, turnCount: covered } : null;
+  const recent = history.slice(covered);
+
+  const summaryTokens = currentSummary ? estimateTokens(currentSummary.text) : 0;
+  if (summaryTokens + totalTokens(recent) <= budget || recent.length <= MIN_RECENT_TURNS) {
+    return { history: recent, summary: currentSummary, summaryUpdated: false };
+  }
+
+  // Walk back from the newest turn until half the budget is used
+  const recentBudget = budget * RECENT_SHARE_AFTER_SUMMARY;
+  let cut = history.length - MIN_RECENT_TURNS;
+  let recentTokens = totalTokens(history.slice(cut));
+  while (cut > covered && recentTokens + estimateTokens(history[cut - 1].text) <= recentBudget) {
+    cut--;
+    recentTokens += estimateTokens(history[cut].text);
+  }
+  // Model requests must start with a user turn
+  while (cut < history.length - 1 && history[cut].role !== 'user') {
+    cut++;
+  }
+  if (cut <= covered) {
+    return { history: recent, summary: currentSummary, summaryUpdated: false };
+  }
+
+  try {
+    const text = await summarizeTurns(provider, videoTitle, currentSummary?.text || null, history.slice(covered, cut));
+    if (!text) throw new Error('Empty summary');
+
+    return {
+      history: history.slice(cut),
+      summary: { text, turnCount: cut, anchor: anchorFor(history[cut - 1]) },
+      summaryUpdated: true,
+    };
+  } catch (error) {
+    // Better to lose some old context than to fail the question
+    console.error('Error summarizing chat history:', error);
+    return { history: history.slice(cut), summary: currentSummary, summaryUpdated: false };
+  }
+}
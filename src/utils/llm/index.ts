@@ -0,0 +1,111 @@
+import { GeminiChatProvider } from './gemini';
+import { OpenAICompatibleChatProvider } from './openai';
+import { MockChatProvider } from './mock';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface GenerationConfig {
+  maxOutputTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number; // Ignored by providers that do not support it
+}
+
+/**
+ * Token counts a provider reports for a completion
+ */
+export interface ReportedUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionRequest {
+  systemInstruction: string;
+  history: ChatTurn[];
+  message: string;
+  config?: GenerationConfig;
+  signal?: AbortSignal; // Aborted when the client stops the answer; providers stop streaming
+  onUsage?: (usage: ReportedUsage) => void; // Called once the stream ends, by providers that report token counts
+}
+
+/**
+ * The shape of a structured reply: the subset of JSON Schema that Gemini and OpenAI both accept
+ */
+export type JsonSchema =
+  | { type: 'string'; enum?: string[] }
+  | { type: 'number' | 'integer' | 'boolean' }
+  | { type: 'array'; items: JsonSchema }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[] };
+
+export interface JsonCompletionRequest {
+  prompt: string;
+  schema: JsonSchema;
+  config?: GenerationConfig;
+  onUsage?: (usage: ReportedUsage) => void; // Called once the reply is complete, by providers that report token counts
+}
+
+/**
+ * A chat model backend that streams completions for a conversation
+ */
+export interface ChatModelProvider {
+  name: string;
+  model: string;
+  /** Whether the provider has the credentials it needs to serve requests */
+  isConfigured(): boolean;
+  /** Stream the reply to the last message, one text chunk at a time */
+  streamChat(request: ChatCompletionRequest): AsyncIterable<string>;
+  /** Generate a reply matching the schema, returned as JSON text */
+  generateJson(request: JsonCompletionRequest): Promise<string>;
+}
+
+export { GeminiChatProvider } from './gemini';
+export { OpenAICompatibleChatProvider } from './openai';
+export { MockChatProvider } from './mock';
+
+/**
+ * Create the chat provider selected by CHAT_PROVIDER (`gemini`, `openai` or `mock`, default `gemini`).
+ * CHAT_MODEL overrides the provider's default model.
+ */
+function createChatModelProvider(): ChatModelProvider {
+  const configured = process.env.CHAT_PROVIDER || 'gemini';
+  const model = process.env.CHAT_MODEL || undefined;
+
+  switch (configured) {
+    case 'gemini':
+      return new GeminiChatProvider(process.env.GEMINI_API_KEY, model);
+    case 'openai':
+      return new OpenAICompatibleChatProvider(process.env.OPENAI_BASE_URL, process.env.OPENAI_API_KEY, model);
+    case 'mock':
+      return new MockChatProvider();
+    default:
+      console.warn(`Unknown CHAT_PROVIDER "${configured}", falling back to Gemini`);
+      return new GeminiChatProvider(process.env.GEMINI_API_KEY, model);
+  }
+}
+
+/**
+ * Run a chat request to completion and return the whole reply
+ */
+export async function completeChat(provider: ChatModelProvider, request: ChatCompletionRequest): Promise<string> {
+  let text = '';
+  for await (const chunk of provider.streamChat(request)) {
+    text += chunk;
+  }
+  return text.trim();
+}
+
+let chatModelProvider: ChatModelProvider | null = null;
+
+/**
+ * Get the configured chat model provider
+ */
+export function getChatModelProvider(): ChatModelProvider {
+  if (!chatModelProvider) {
+    chatModelProvider = createChatModelProvider();
+  }
+  return chatModelProvider;
+}
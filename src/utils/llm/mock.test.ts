@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { MockChatProvider } from './mock';
+
+describe('MockChatProvider.generateJson', () => {
+  it('returns JSON of the requested shape', async () => {
+    const reply = await new MockChatProvider().generateJson({
+      prompt: 'Split the video into chapters',
+      schema: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            kind: { type: 'string', enum: ['intro', 'main'] },
+            start: { type: 'string' },
+            title: { type: 'string' },
+            order: { type: 'integer' },
+          },
+          required: ['start', 'title'],
+        },
+      },
+    });
+
+    expect(JSON.parse(reply)).toEqual([
+      { kind: 'intro', start: '00:00', title: 'Mock title 1', order: 0 },
+      { kind: 'intro', start: '01:00', title: 'Mock title 2', order: 0 },
+      { kind: 'intro', start: '02:00', title: 'Mock title 3', order: 0 },
+    ]);
+  });
+});
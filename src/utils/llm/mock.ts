@@ -0,0 +1,60 @@
+import { formatTime } from '@/utils/timestamps';
+import type { ChatCompletionRequest, ChatModelProvider, JsonCompletionRequest, JsonSchema } from './index';
+
+const CHUNK_DELAY_MS = 20; // Enough to watch the stream render without slowing tests down
+const SAMPLE_ARRAY_LENGTH = 3;
+const TIME_PROPERTIES = ['timestamp', 'start']; // Filled with times a minute apart, so replies pass timestamp checks
+
+/**
+ * A value of the schema's shape: the first allowed string, zero, false, and a few items per array
+ */
+function sampleJson(schema: JsonSchema, property: string, index: number): unknown {
+  switch (schema.type) {
+    case 'string':
+      if (schema.enum) return schema.enum[0];
+      return TIME_PROPERTIES.includes(property) ? formatTime(index * 60) : `Mock ${property || 'text'} ${index + 1}`;
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return Array.from({ length: SAMPLE_ARRAY_LENGTH }, (_, itemIndex) => sampleJson(schema.items, property, itemIndex));
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([name, value]) => [name, sampleJson(value, name, index)])
+      );
+  }
+}
+
+/**
+ * Deterministic offline provider for local development and tests.
+ * The reply depends only on the request, and echoes the first timestamp in the context
+ * so that timestamp rendering can be exercised without a real model.
+ */
+export class MockChatProvider implements ChatModelProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async *streamChat({ history, message, signal }: ChatCompletionRequest): AsyncIterable<string> {
+    const [question] = message.split('\n');
+    const timestamp = message.match(/\[(?:\d{1,2}:)?\d{1,3}:\d{2}(?:\s*[-–]\s*(?:\d{1,2}:)?\d{1,3}:\d{2})?\]/)?.[0] || '[00:00]';
+    const reply = `This is a mock answer to "${question.trim()}" (turn ${Math.floor(history.length / 2) + 1}). `
+      + `The most relevant part of the video starts at ${timestamp}.`;
+
+    // Stream word by word, like a real model
+    for (const word of reply.match(/\S+\s*/g) || []) {
+      await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+      if (signal?.aborted) return;
+      yield word;
+    }
+  }
+
+  async generateJson({ schema }: JsonCompletionRequest): Promise<string> {
+    return JSON.stringify(sampleJson(schema, '', 0));
+  }
+}
@@ -0,0 +1,128 @@
+import type { ChatCompletionRequest, ChatModelProvider, GenerationConfig, JsonCompletionRequest, ReportedUsage } from './index';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Any endpoint speaking the OpenAI chat completions API: OpenAI itself, or self-hosted
+ * servers such as vLLM, Ollama and llama.cpp. Self-hosted servers usually need no API key.
+ */
+export class OpenAICompatibleChatProvider implements ChatModelProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(baseUrl: string | undefined, private apiKey: string | undefined, model: string = DEFAULT_MODEL) {
+    this.baseUrl = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.model = model;
+  }
+
+  isConfigured(): boolean {
+    // OpenAI itself needs a key; a custom base URL points at a server that may not
+    return !!this.apiKey || this.baseUrl !== DEFAULT_BASE_URL;
+  }
+
+  /**
+   * POST a chat completion request, throwing the server's error message when it fails
+   */
+  private async requestCompletion(
+    body: Record<string, unknown>,
+    config: GenerationConfig,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        ...body,
+        max_tokens: config.maxOutputTokens,
+        temperature: config.temperature,
+        top_p: config.topP,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      let errorMessage = `Chat completion request failed with status ${response.status}`;
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error?.message || errorMessage;
+      } catch {
+        errorMessage = response.statusText || errorMessage;
+      }
+      throw new Error(errorMessage);
+    }
+    return response;
+  }
+
+  async *streamChat({ systemInstruction, history, message, config = {}, signal, onUsage }: ChatCompletionRequest): AsyncIterable<string> {
+    const response = await this.requestCompletion({
+      stream: true,
+      stream_options: { include_usage: true }, // Token counts in a last chunk with no choices
+      messages: [
+        { role: 'system', content: systemInstruction },
+        ...history.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+        { role: 'user', content: message },
+      ],
+    }, config, signal);
+
+    if (!response.body) {
+      throw new Error('Chat completion response has no body');
+    }
+
+    // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let usage: ReportedUsage | null = null;
+
+    read: while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || !data) continue;
+        if (data === '[DONE]') break read;
+
+        const parsed = JSON.parse(data);
+        if (parsed.error) {
+          throw new Error(parsed.error.message || 'Chat completion stream failed');
+        }
+        if (parsed.usage) {
+          const { prompt_tokens = 0, completion_tokens = 0, total_tokens } = parsed.usage;
+          usage = { inputTokens: prompt_tokens, outputTokens: completion_tokens, totalTokens: total_tokens ?? prompt_tokens + completion_tokens };
+        }
+        const text = parsed.choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+    if (usage) onUsage?.(usage);
+  }
+
+  async generateJson({ prompt, schema, config = {}, onUsage }: JsonCompletionRequest): Promise<string> {
+    const response = await this.requestCompletion({
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_schema', json_schema: { name: 'reply', schema } },
+    }, config);
+
+    const data = await response.json();
+    if (data.usage) {
+      const { prompt_tokens = 0, completion_tokens = 0, total_tokens } = data.usage;
+      onUsage?.({ inputTokens: prompt_tokens, outputTokens: completion_tokens, totalTokens: total_tokens ?? prompt_tokens + completion_tokens });
+    }
+    return data.choices?.[0]?.message?.content || '';
+  }
+}
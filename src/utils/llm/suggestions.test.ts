@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseSuggestedQuestions } from './suggestions';
+
+describe('parseSuggestedQuestions', () => {
+  it('strips list markers and quotes and skips other lines', () => {
+    const reply = 'Here are some questions:\n1. What is a closure?\n- "Why use recursion?"\n* How fast is it?';
+    expect(parseSuggestedQuestions(reply, 3)).toEqual(['What is a closure?', 'Why use recursion?', 'How fast is it?']);
+  });
+
+  it('keeps at most the requested number, without duplicates', () => {
+    expect(parseSuggestedQuestions('Why?\nwhy?\nHow?\nWhat?', 2)).toEqual(['Why?', 'How?']);
+  });
+
+  it('accepts full-width and Arabic question marks', () => {
+    const reply = '1. 闭包是什么？\n2. なぜ再帰を使うのですか？\n3. ما هي الدالة؟';
+    expect(parseSuggestedQuestions(reply, 3)).toEqual(['闭包是什么？', 'なぜ再帰を使うのですか？', 'ما هي الدالة؟']);
+  });
+});
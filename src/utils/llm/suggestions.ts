@@ -0,0 +1,115 @@
+import { completeChat, type ChatModelProvider } from './index';
+import { formatChapterList } from '@/utils/chapters';
+import type { Chapter } from '@/types';
+
+const MAX_FOLLOW_UP_QUESTIONS = 3;
+const MAX_STARTER_QUESTIONS = 4;
+const MAX_QUESTION_LENGTH = 150;
+const MAX_DESCRIPTION_CHARS = 3000;
+const SUGGESTIONS_MAX_OUTPUT_TOKENS = 200;
+const QUESTION_MARK_REGEX = /[?？؟]$/; // Latin, full-width (Chinese, Japanese) and Arabic
+
+// Offered when no video-specific starters could be generated
+export const FALLBACK_STARTER_QUESTIONS = [
+  'What are the main points covered in this video?',
+  'Can you summarize this video in 3 bullet points?',
+];
+
+const OUTPUT_RULES = `- Each question is short (at most 15 words) and ends with a question mark.
+- Write one question per line, with no numbering, bullets or other text.`;
+
+/**
+ * Pull the questions out of a model reply: one per line, without list markers or quotes
+ */
+export function parseSuggestedQuestions(text: string, max: number): string[] {
+  const questions: string[] = [];
+  for (const line of text.split('\n')) {
+    const question = line
+      .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+      .replace(/^["“]|["”]$/g, '')
+      .trim();
+    if (!QUESTION_MARK_REGEX.test(question) || question.length > MAX_QUESTION_LENGTH) continue;
+    if (questions.some(existing => existing.toLowerCase() === question.toLowerCase())) continue;
+
+    questions.push(question);
+    if (questions.length === max) break;
+  }
+  return questions;
+}
+
+/**
+ * Suggest what to ask next after an answer, limited to what the transcript context covers
+ * @param provider Provider used to write the suggestions
+ * @param videoTitle Title of the video
+ * @param question The question that was just answered
+ * @param answer The answer
+ * @param transcriptContext The transcript context the answer was given
+ * @param hasTranscript Whether any transcript was available; without one the context only says so
+ * @returns Up to three questions; none when they could not be generated
+ */
+export async function suggestFollowUpQuestions(
+  provider: ChatModelProvider,
+  videoTitle: string,
+  question: string,
+  answer: string,
+  transcriptContext: string,
+  hasTranscript: boolean
+): Promise<string[]> {
+  try {
+    const reply = await completeChat(provider, {
+      systemInstruction: `You suggest follow-up questions a viewer could ask next about the YouTube video "${videoTitle}".
+- Suggest 2 or 3 questions that go further than the answer, not questions it already answers.
+- Only ask about things the transcript excerpts cover, so each question can be answered from the video.${hasTranscript ? '' : ' No transcript is available, so stay close to the topics of the answer.'}
+- Write in the language of the user's question.
+${OUTPUT_RULES}`,
+      history: [],
+      message: `QUESTION:\n${question}\n\nANSWER:\n${answer}${hasTranscript ? `\n\nTRANSCRIPT EXCERPTS:${transcriptContext}` : ''}`,
+      config: {
+        maxOutputTokens: SUGGESTIONS_MAX_OUTPUT_TOKENS,
+        temperature: 0.5,
+      },
+    });
+    return parseSuggestedQuestions(reply, MAX_FOLLOW_UP_QUESTIONS);
+  } catch (error) {
+    // Suggestions are optional; the answer itself is already complete
+    console.error('Error suggesting follow-up questions:', error);
+    return [];
+  }
+}
+
+/**
+ * Suggest first questions for a video from its title, description and chapters
+ * @returns Video-specific questions, or the generic fallback when they could not be generated
+ */
+export async function suggestStarterQuestions(
+  provider: ChatModelProvider,
+  title: string,
+  description: string,
+  chapters: Chapter[]
+): Promise<string[]> {
+  const trimmedDescription = description.length > MAX_DESCRIPTION_CHARS
+    ? `${description.substring(0, MAX_DESCRIPTION_CHARS)}...`
+    : description;
+
+  try {
+    const reply = await completeChat(provider, {
+      systemInstruction: `You suggest the first questions a viewer could ask an assistant about a YouTube video they are about to watch.
+- Suggest ${MAX_STARTER_QUESTIONS} questions specific to this video: its topics, claims, steps or chapters.
+- Mix an overview question with questions about specific parts.
+- Write in the language of the title.
+${OUTPUT_RULES}`,
+      history: [],
+      message: `TITLE: ${title}\n\nDESCRIPTION:\n${trimmedDescription || '(none)'}${chapters.length > 0 ? `\n\nCHAPTERS:\n${formatChapterList(chapters)}` : ''}`,
+      config: {
+        maxOutputTokens: SUGGESTIONS_MAX_OUTPUT_TOKENS,
+        temperature: 0.7,
+      },
+    });
+
+    const questions = parseSuggestedQuestions(reply, MAX_STARTER_QUESTIONS);
+    return questions.length > 0 ? questions : FALLBACK_STARTER_QUESTIONS;
+  } catch (error) {
+    console.error('Error suggesting starter questions:', error);
+    return FALLBACK_STARTER_QUESTIONS;
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createUsageTally, estimateCost, withUsageListener } from './usage';
+import type { ChatModelProvider, ReportedUsage } from './index';
+
+/**
+ * A provider that replies with fixed text, and reports the given token counts when there are any
+ */
+function fakeProvider(reply: string, reported: ReportedUsage | null): ChatModelProvider {
+  return {
+    name: 'fake',
+    model: 'fake',
+    isConfigured: () => true,
+    async *streamChat({ onUsage }) {
+      for (const word of reply.split(' ')) {
+        yield `${word} `;
+      }
+      if (reported) onUsage?.(reported);
+    },
+    async generateJson({ onUsage }) {
+      if (reported) onUsage?.(reported);
+      return reply;
+    },
+  };
+}
+
+const REPORTED: ReportedUsage = { inputTokens: 120, outputTokens: 30, totalTokens: 150 };
+
+describe('withUsageListener', () => {
+  it('passes on the reported token counts of every call', async () => {
+    const tally = createUsageTally();
+    const seenByCaller: ReportedUsage[] = [];
+    const provider = withUsageListener(fakeProvider('["a", "b"]', REPORTED), tally.onUsage);
+
+    await provider.generateJson({ prompt: 'Two letters', schema: { type: 'array', items: { type: 'string' } } });
+    for await (const chunk of provider.streamChat({
+      systemInstruction: 'Be brief.',
+      history: [],
+      message: 'Hello',
+      onUsage: usage => seenByCaller.push(usage),
+    })) {
+      expect(chunk).toBeTruthy();
+    }
+
+    expect(tally.usage).toEqual({ inputTokens: 240, outputTokens: 60, costUsd: 0 });
+    expect(seenByCaller).toEqual([REPORTED]);
+  });
+
+  it('estimates the tokens of providers that report none', async () => {
+    const tally = createUsageTally();
+    const provider = withUsageListener(fakeProvider('12345678', null), tally.onUsage);
+
+    await provider.generateJson({ prompt: 'abcdefghijkl', schema: { type: 'string' } });
+    expect(tally.usage).toEqual({ inputTokens: 3, outputTokens: 2, costUsd: 0 });
+  });
+
+  it('counts a stream the caller stops reading', async () => {
+    const tally = createUsageTally();
+    const provider = withUsageListener(fakeProvider('one two three four', null), tally.onUsage);
+
+    for await (const chunk of provider.streamChat({ systemInstruction: '', history: [], message: 'abcdefg' })) {
+      expect(chunk).toBe('one ');
+      break;
+    }
+    expect(tally.usage).toEqual({ inputTokens: 2, outputTokens: 1, costUsd: 0 });
+  });
+});
+
+describe('createUsageTally', () => {
+  it('adds up tokens and the cost of priced models', () => {
+    const tally = createUsageTally();
+    tally.onUsage({ inputTokens: 1_000_000, outputTokens: 1_000_000, totalTokens: 2_000_000 }, 'gemini-2.0-flash');
+    tally.onUsage(REPORTED, 'self-hosted');
+    expect(tally.usage).toEqual({ inputTokens: 1_000_120, outputTokens: 1_000_030, costUsd: 0.5 });
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices dated variants like their model', () => {
+    expect(estimateCost('gemini-2.0-flash-001', 1_000_000, 1_000_000)).toBeCloseTo(0.5);
+  });
+
+  it('has no price for unknown models', () => {
+    expect(estimateCost('llama-3-70b', 1000, 1000)).toBeUndefined();
+  });
+});
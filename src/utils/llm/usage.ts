@@ -0,0 +1,131 @@
+import { estimateTokens } from './history';
+import type { ChatCompletionRequest, ChatModelProvider, JsonCompletionRequest, ReportedUsage } from './index';
+import type { ChatUsage } from '@/types';
+
+/**
+ * List prices in US dollars per million tokens. Models are matched by prefix,
+ * so dated and preview variants (e.g. gemini-2.0-flash-001) share a price.
+ */
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+  { prefix: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+  { prefix: 'gemini-2.0-flash-lite', input: 0.075, output: 0.3 },
+  { prefix: 'gemini-2.0-flash', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-1.5-pro', input: 1.25, output: 5 },
+  { prefix: 'gemini-1.5-flash', input: 0.075, output: 0.3 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'mock', input: 0, output: 0 },
+];
+
+/**
+ * What a completion costs at the model's list price
+ * @returns The cost in US dollars, or undefined for models without a known price (e.g. self-hosted ones)
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | undefined {
+  const price = MODEL_PRICES.find(entry => model.startsWith(entry.prefix));
+  if (!price) return undefined;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Usage of one answer: the provider's token counts when it reported them, estimated from the text otherwise
+ * @param startedAt When the request was sent, from Date.now()
+ */
+export function buildChatUsage(
+  model: string,
+  reported: ReportedUsage | null,
+  text: { prompt: string; response: string },
+  startedAt: number
+): ChatUsage {
+  const inputTokens = reported ? reported.inputTokens : estimateTokens(text.prompt);
+  const outputTokens = reported ? reported.outputTokens : estimateTokens(text.response);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: reported ? reported.totalTokens : inputTokens + outputTokens,
+    estimated: !reported,
+    model,
+    latencyMs: Date.now() - startedAt,
+    costUsd: estimateCost(model, inputTokens, outputTokens),
+  };
+}
+
+export type UsageListener = (usage: ReportedUsage, model: string) => void;
+
+/**
+ * Running token and cost total of the model calls made for one request
+ */
+export interface UsageTally {
+  usage: { inputTokens: number; outputTokens: number; costUsd: number };
+  onUsage: UsageListener;
+}
+
+export function createUsageTally(): UsageTally {
+  const usage = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  return {
+    usage,
+    onUsage: (reported, model) => {
+      usage.inputTokens += reported.inputTokens;
+      usage.outputTokens += reported.outputTokens;
+      usage.costUsd += estimateCost(model, reported.inputTokens, reported.outputTokens) || 0;
+    },
+  };
+}
+
+function estimateUsage(prompt: string, response: string): ReportedUsage {
+  const inputTokens = estimateTokens(prompt);
+  const outputTokens = estimateTokens(response);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * Wrap a provider so that every call made through it also reports its tokens to a listener:
+ * the provider's counts when it reports them, estimated from the text otherwise.
+ * Lets a route count the summaries, suggestions and generated documents it asks for.
+ */
+export function withUsageListener(provider: ChatModelProvider, listener: UsageListener): ChatModelProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    isConfigured: () => provider.isConfigured(),
+
+    async *streamChat(request: ChatCompletionRequest): AsyncIterable<string> {
+      let reported: ReportedUsage | null = null;
+      let response = '';
+      try {
+        for await (const chunk of provider.streamChat({
+          ...request,
+          onUsage: usage => {
+            reported = usage;
+            request.onUsage?.(usage);
+          },
+        })) {
+          response += chunk;
+          yield chunk;
+        }
+      } finally {
+        // Also counted when the caller stops reading early
+        const prompt = [request.systemInstruction, ...request.history.map(turn => turn.text), request.message].join('\n');
+        listener(reported ?? estimateUsage(prompt, response), provider.model);
+      }
+    },
+
+    async generateJson(request: JsonCompletionRequest): Promise<string> {
+      let reported: ReportedUsage | null = null;
+      const response = await provider.generateJson({
+        ...request,
+        onUsage: usage => {
+          reported = usage;
+          request.onUsage?.(usage);
+        },
+      });
+      listener(reported ?? estimateUsage(request.prompt, response), provider.model);
+      return response;
+    },
+  };
+}
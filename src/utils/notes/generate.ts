@@ -0,0 +1,239 @@
+import type { ChatModelProvider } from '@/utils/llm';
+import { formatTime, ONE_HOUR_SECONDS, parseTime } from '@/utils/timestamps';
+import { chunkTranscript } from '@/utils/transcript/retrieval';
+import { getTranscriptDuration } from '@/utils/transcript';
+import { getNotesSectionRanges, hashText, hashTranscriptRange } from './index';
+import type { Chapter, StudyNoteDefinition, StudyNotePoint, StudyNotes, StudyNotesSection, TranscriptEntry } from '@/types';
+
+const EXCERPT_WINDOW_MS = 20000; // One excerpt line per 20 seconds
+const MAX_EXCERPT_CHARS = 40000; // Per section
+const MAX_POINTS_PER_SECTION = 8;
+const MAX_DETAILS_PER_POINT = 4;
+const MAX_DEFINITIONS_PER_SECTION = 6;
+
+export interface StudyNotesOptions {
+  lang?: string;
+  previous?: StudyNotes | null; // Earlier notes; sections whose transcript is unchanged are reused
+}
+
+export interface StudyNotesGeneration {
+  notes: StudyNotes;
+  reused: number; // Sections taken over from the previous notes
+  generated: number; // Sections written by the model
+}
+
+type SectionRange = { title: string; start: number; end: number };
+
+function buildSectionExcerpt(entries: TranscriptEntry[], longFormat: boolean): string {
+  const windows = chunkTranscript(entries, EXCERPT_WINDOW_MS, 0);
+  const maxLineChars = Math.max(200, Math.floor(MAX_EXCERPT_CHARS / Math.max(windows.length, 1)));
+
+  return windows
+    .map(window => {
+      const text = window.text.length > maxLineChars ? `${window.text.substring(0, maxLineChars)}...` : window.text;
+      return `[${formatTime(window.start / 1000, longFormat)}] ${text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Read a model timestamp and snap it to the start of the entry spoken there,
+ * or null when it falls outside the section
+ */
+function resolvePosition(value: unknown, entries: TranscriptEntry[], range: SectionRange): number | null {
+  const seconds = typeof value === 'string' ? parseTime(value) : null;
+  if (seconds === null || seconds < range.start || seconds > range.end) return null;
+
+  let snapped = entries[0].offset;
+  for (const entry of entries) {
+    if (entry.offset > seconds * 1000) break;
+    snapped = entry.offset;
+  }
+  return Math.floor(snapped / 1000);
+}
+
+/**
+ * Turn the model's answer into key points and definitions, dropping any without a valid position
+ */
+function parseSectionNotes(
+  responseText: string,
+  entries: TranscriptEntry[],
+  range: SectionRange,
+  longFormat: boolean
+): Pick<StudyNotesSection, 'points' | 'definitions'> | null {
+  let parsed: { points?: unknown; definitions?: unknown };
+  try {
+    parsed = JSON.parse(responseText);
+  } catch (error) {
+    console.error('Error parsing generated study notes:', error);
+    return null;
+  }
+
+  const points: StudyNotePoint[] = [];
+  for (const item of Array.isArray(parsed?.points) ? parsed.points : []) {
+    const text = typeof item?.text === 'string' ? item.text.trim() : '';
+    const seconds = resolvePosition(item?.timestamp, entries, range);
+    if (!text || seconds === null) continue;
+
+    const details = Array.isArray(item.details)
+      ? item.details.filter((detail: unknown): detail is string => typeof detail === 'string' && detail.trim() !== '').map((detail: string) => detail.trim())
+      : [];
+    points.push({
+      text,
+      seconds,
+      label: `[${formatTime(seconds, longFormat)}]`,
+      ...(details.length > 0 ? { details: details.slice(0, MAX_DETAILS_PER_POINT) } : {}),
+    });
+  }
+
+  const definitions: StudyNoteDefinition[] = [];
+  for (const item of Array.isArray(parsed?.definitions) ? parsed.definitions : []) {
+    const term = typeof item?.term === 'string' ? item.term.trim() : '';
+    const definition = typeof item?.definition === 'string' ? item.definition.trim() : '';
+    const seconds = resolvePosition(item?.timestamp, entries, range);
+    if (!term || !definition || seconds === null) continue;
+
+    definitions.push({ term, definition, seconds, label: `[${formatTime(seconds, longFormat)}]` });
+  }
+
+  if (points.length === 0) return null;
+  return {
+    points: points.sort((a, b) => a.seconds - b.seconds).slice(0, MAX_POINTS_PER_SECTION),
+    definitions: definitions.slice(0, MAX_DEFINITIONS_PER_SECTION),
+  };
+}
+
+/**
+ * Ask the model for the key points and definitions of one section
+ */
+async function generateSectionNotes(
+  provider: ChatModelProvider,
+  videoTitle: string,
+  range: SectionRange,
+  entries: TranscriptEntry[],
+  longFormat: boolean
+): Promise<Pick<StudyNotesSection, 'points' | 'definitions'> | null> {
+  const timeFormat = longFormat ? 'H:MM:SS' : 'MM:SS';
+
+  const responseText = await provider.generateJson({
+    prompt: `Write study notes for the part "${range.title}" (${formatTime(range.start, longFormat)} to ${formatTime(range.end, longFormat)}) of the YouTube video "${videoTitle}".
+
+RULES:
+- points: up to ${MAX_POINTS_PER_SECTION} key points, in the order they are made. Each is one concise sentence, with up to ${MAX_DETAILS_PER_POINT} short supporting details (examples, steps, numbers) when useful.
+- definitions: terms the video defines or relies on, with a one-sentence definition. Leave empty when there are none.
+- timestamp is the ${timeFormat} line of the transcript where the point is made or the term is explained.
+- Only use what is said in the transcript below. Write in the language of the transcript.
+
+TRANSCRIPT:
+${buildSectionExcerpt(entries, longFormat)}`,
+    schema: {
+      type: 'object',
+      properties: {
+        points: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              text: { type: 'string' },
+              timestamp: { type: 'string' },
+              details: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['text', 'timestamp'],
+          },
+        },
+        definitions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              term: { type: 'string' },
+              definition: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+            required: ['term', 'definition', 'timestamp'],
+          },
+        },
+      },
+      required: ['points'],
+    },
+    config: {
+      temperature: 0.2,
+      maxOutputTokens: 2000,
+    },
+  });
+
+  return parseSectionNotes(responseText, entries, range, longFormat);
+}
+
+/**
+ * Generate study notes for a video: one section per chapter with key points, definitions and timestamps.
+ * Generation is incremental: a section of the previous notes is reused when its range and
+ * transcript text are unchanged, so regenerating only writes sections that changed or failed before.
+ * @param provider Provider used to write the sections that cannot be reused
+ * @returns The notes, or null when no section could be generated
+ */
+export async function generateStudyNotes(
+  provider: ChatModelProvider,
+  videoId: string,
+  title: string,
+  transcript: TranscriptEntry[],
+  chapters: Chapter[],
+  options: StudyNotesOptions = {}
+): Promise<StudyNotesGeneration | null> {
+  const durationSeconds = getTranscriptDuration(transcript);
+  const isLongVideo = durationSeconds >= ONE_HOUR_SECONDS;
+  const lang = options.lang || null;
+  // Notes in another transcript language cannot be reused
+  const previous = options.previous && options.previous.videoId === videoId && options.previous.lang === lang
+    ? options.previous
+    : null;
+
+  const isConfigured = provider.isConfigured();
+  if (!isConfigured) console.error(`Cannot generate study notes: the ${provider.name} chat provider is not configured.`);
+
+  let reused = 0;
+  let generated = 0;
+  const sections: StudyNotesSection[] = [];
+
+  // One section at a time, to stay within the model's rate limits on long videos
+  for (const range of getNotesSectionRanges(chapters, durationSeconds, title)) {
+    const hash = hashTranscriptRange(transcript, range.start, range.end);
+    const earlier = previous?.sections.find(section =>
+      section.hash === hash && section.start === range.start && section.end === range.end
+    );
+    if (earlier) {
+      sections.push({ ...earlier, title: range.title });
+      reused++;
+      continue;
+    }
+
+    const entries = transcript.filter(entry => entry.offset >= range.start * 1000 && entry.offset < range.end * 1000);
+    let notes: Pick<StudyNotesSection, 'points' | 'definitions'> | null = null;
+    if (isConfigured && entries.length > 0) {
+      try {
+        notes = await generateSectionNotes(provider, title, range, entries, isLongVideo);
+      } catch (error) {
+        console.error(`Error generating study notes for ${videoId} at ${range.start}s:`, error);
+      }
+    }
+
+    if (notes) generated++;
+    // A failed section keeps no hash, so the next regeneration retries it
+    sections.push({ ...range, hash: notes ? hash : null, points: notes?.points || [], definitions: notes?.definitions || [] });
+  }
+
+  if (!sections.some(section => section.points.length > 0)) return null;
+
+  return {
+    notes: {
+      videoId,
+      title,
+      lang,
+      transcriptHash: hashText(transcript.map(entry => `${entry.offset}|${entry.text}`).join('\n')),
+      sections,
+      generatedAt: generated > 0 || !previous ? Date.now() : previous.generatedAt,
+    },
+    reused,
+    generated,
+  };
+}
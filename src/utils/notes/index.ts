@@ -0,0 +1,118 @@
+import { formatTime } from '@/utils/timestamps';
+import type { Chapter, StudyNotePoint, StudyNotes, TranscriptEntry } from '@/types';
+
+export type { StudyNotes, StudyNotesSection, StudyNotePoint, StudyNoteDefinition } from '@/types';
+
+/**
+ * Short, stable hash of a string (32-bit FNV-1a), used to tell whether a transcript changed.
+ * Not cryptographic; it only has to notice edits, and it runs the same in the browser and on the server.
+ */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Hash of the transcript entries between two positions, including their timing
+ * @param start Section start in seconds
+ * @param end Section end in seconds (exclusive)
+ */
+export function hashTranscriptRange(transcript: TranscriptEntry[], start: number, end: number): string {
+  return hashText(
+    transcript
+      .filter(entry => entry.offset >= start * 1000 && entry.offset < end * 1000)
+      .map(entry => `${entry.offset}|${entry.text}`)
+      .join('\n')
+  );
+}
+
+/**
+ * Link to a video on YouTube, starting at the given position
+ */
+export function buildVideoUrl(videoId: string, seconds?: number): string {
+  const url = `https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`;
+  return seconds !== undefined ? `${url}&t=${Math.max(0, Math.floor(seconds))}s` : url;
+}
+
+/**
+ * The ranges the notes are split into: one per chapter, or the whole video when there are none
+ * @param chapters Chapters in ascending order
+ * @param durationSeconds Video length, used as the end of the last chapter
+ * @param fallbackTitle Section title when the video has no chapters
+ */
+export function getNotesSectionRanges(
+  chapters: Chapter[],
+  durationSeconds: number,
+  fallbackTitle: string
+): Array<{ title: string; start: number; end: number }> {
+  const ranges = chapters
+    .map((chapter, index) => ({
+      title: chapter.title,
+      start: chapter.start,
+      end: chapter.end ?? chapters[index + 1]?.start ?? durationSeconds,
+    }))
+    .filter(range => range.end > range.start && range.start < durationSeconds);
+
+  // Chapters usually start at 0:00, but nothing before the first one should be left out
+  if (ranges.length > 0 && ranges[0].start > 0) ranges[0] = { ...ranges[0], start: 0 };
+  return ranges.length > 0 ? ranges : [{ title: fallbackTitle, start: 0, end: durationSeconds }];
+}
+
+/**
+ * Markdown link to a position in the video, e.g. "[12:34](https://www.youtube.com/watch?v=ID&t=754s)"
+ */
+function formatTimeLink(videoId: string, seconds: number, longFormat: boolean): string {
+  return `[${formatTime(seconds, longFormat)}](${buildVideoUrl(videoId, seconds)})`;
+}
+
+function formatPoint(videoId: string, point: StudyNotePoint, longFormat: boolean): string {
+  const lines = [`- ${point.text} (${formatTimeLink(videoId, point.seconds, longFormat)})`];
+  for (const detail of point.details || []) {
+    lines.push(`  - ${detail}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render study notes as Markdown, with every timestamp linking to that moment on YouTube
+ * @param longFormat Use H:MM:SS, for videos of an hour or more
+ */
+export function formatStudyNotesMarkdown(notes: StudyNotes, longFormat: boolean = false): string {
+  const blocks = [
+    `# ${notes.title}`,
+    `Study notes for [${notes.title}](${buildVideoUrl(notes.videoId)})`,
+  ];
+
+  for (const section of notes.sections) {
+    const lines = [`## ${section.title} (${formatTimeLink(notes.videoId, section.start, longFormat)})`];
+
+    if (section.points.length > 0) {
+      lines.push('', ...section.points.map(point => formatPoint(notes.videoId, point, longFormat)));
+    } else {
+      lines.push('', '_No notes could be generated for this part of the video._');
+    }
+
+    if (section.definitions.length > 0) {
+      lines.push('', '**Definitions**', '');
+      lines.push(...section.definitions.map(definition =>
+        `- **${definition.term}**: ${definition.definition} (${formatTimeLink(notes.videoId, definition.seconds, longFormat)})`
+      ));
+    }
+
+    blocks.push(lines.join('\n'));
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * File name for downloaded notes, e.g. "How_to_bake_bread-notes.md"
+ */
+export function getStudyNotesFileName(notes: StudyNotes): string {
+  const base = notes.title.replace(/[^\p{L}\p{N}_.-]+/gu, '_').replace(/^_+|_+$/g, '').substring(0, 80);
+  return `${base || notes.videoId}-notes.md`;
+}
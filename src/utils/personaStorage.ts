@@ -0,0 +1,104 @@
+// src/utils/personaStorage.ts
+
+import { supabase } from './supabase';
+import { Persona } from '@/types';
+import { sanitizePersona, MAX_PERSONA_DESCRIPTION_LENGTH } from './personas';
+
+// Most personas a user can define (to stay within free tier limits)
+export const MAX_USER_PERSONAS = 20;
+
+/**
+ * Get the personas a user defined, oldest first
+ * @param userId The user ID
+ */
+export async function getUserPersonas(userId: string): Promise<Persona[]> {
+  try {
+    const { data, error } = await supabase
+      .from('personas')
+      .select('id, name, description, instruction, temperature, max_output_tokens')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .limit(MAX_USER_PERSONAS);
+
+    if (error) throw error;
+
+    return data.map(row => ({
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      instruction: row.instruction,
+      temperature: row.temperature,
+      maxOutputTokens: row.max_output_tokens ?? undefined,
+    }));
+  } catch (error) {
+    console.error('Error fetching personas:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a persona for a user, or update it when it has an ID.
+ * A new persona is refused once the user has MAX_USER_PERSONAS of them.
+ * @returns The stored persona, or null when it could not be saved
+ */
+export async function saveUserPersona(userId: string, persona: Omit<Persona, 'id'> & { id?: string }): Promise<Persona | null> {
+  const settings = sanitizePersona(persona);
+  if (!settings.name || !settings.instruction) return null;
+
+  const row = {
+    user_id: userId,
+    name: settings.name,
+    description: persona.description?.trim().substring(0, MAX_PERSONA_DESCRIPTION_LENGTH) || null,
+    instruction: settings.instruction,
+    temperature: settings.temperature,
+    max_output_tokens: settings.maxOutputTokens ?? null,
+  };
+
+  try {
+    if (!persona.id) {
+      const { count, error: countError } = await supabase
+        .from('personas')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (countError) throw countError;
+      if ((count ?? 0) >= MAX_USER_PERSONAS) {
+        console.warn(`User ${userId} already has ${MAX_USER_PERSONAS} personas`);
+        return null;
+      }
+    }
+
+    const { data, error } = persona.id
+      ? await supabase.from('personas').update(row).eq('id', persona.id).eq('user_id', userId).select('id').single()
+      : await supabase.from('personas').insert(row).select('id').single();
+
+    if (error) throw error;
+    return {
+      ...settings,
+      id: data.id,
+      description: row.description || undefined,
+    };
+  } catch (error) {
+    console.error('Error saving persona:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete one of a user's personas; conversations using it fall back to the default
+ */
+export async function deleteUserPersona(userId: string, personaId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('personas')
+      .delete()
+      .eq('id', personaId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting persona:', error);
+    return false;
+  }
+}
@@ -0,0 +1,105 @@
+// src/utils/personas.ts
+
+import type { Persona } from '@/types';
+
+export type { Persona } from '@/types';
+
+export const DEFAULT_PERSONA_ID = 'default';
+
+// Chat generation settings when no persona changes them
+export const DEFAULT_TEMPERATURE = 0.3;
+export const DEFAULT_MAX_OUTPUT_TOKENS = 1500;
+
+// Limits for user-defined personas
+export const MAX_PERSONA_NAME_LENGTH = 40;
+export const MAX_PERSONA_DESCRIPTION_LENGTH = 120;
+export const MAX_PERSONA_INSTRUCTION_LENGTH = 1500;
+const MIN_OUTPUT_TOKENS = 200;
+
+/**
+ * Answer styles built into the app, available to everyone
+ */
+export const PRESET_PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Assistant',
+    description: 'Friendly, direct answers grounded in the video',
+    instruction: '',
+    temperature: DEFAULT_TEMPERATURE,
+    isPreset: true,
+  },
+  {
+    id: 'socratic',
+    name: 'Socratic tutor',
+    description: 'Guides you with questions instead of giving the answer away',
+    instruction: `Act as a Socratic tutor. Do not hand over the full answer at once: point to the relevant moment of the video, give a hint, and end with one question that makes the user reason out the next step. When the user answers, tell them what they got right, correct what they got wrong, and ask the next question. Give the full answer only when the user asks for it explicitly.`,
+    temperature: 0.5,
+    isPreset: true,
+  },
+  {
+    id: 'concise',
+    name: 'Just the facts',
+    description: 'Terse answers, no introductions or filler',
+    instruction: `Be terse. Answer in as few words as possible, preferably one to three sentences or a short list. No greetings, no restating the question, no closing offers of further help. Keep the timestamps.`,
+    temperature: 0.1,
+    maxOutputTokens: 500,
+    isPreset: true,
+  },
+  {
+    id: 'beginner',
+    name: "Explain like I'm new",
+    description: 'Plain language, defines jargon, uses everyday analogies',
+    instruction: `Assume the user is new to the topic. Use plain language and short sentences, define every technical term the first time you use it, and explain ideas with an everyday analogy or a small concrete example. Build up from what the video says first before adding detail.`,
+    temperature: 0.4,
+    isPreset: true,
+  },
+  {
+    id: 'critic',
+    name: 'Critical reviewer',
+    description: 'Points out weak claims, missing evidence and counterarguments',
+    instruction: `Act as a critical reviewer of the video. Along with answering, assess the claims involved: say which are well supported in the video and which are asserted without evidence, oversimplified, outdated or contested, and mention the strongest counterarguments or caveats. Be fair and specific, citing the moment each claim is made. Separate what the video says from your own assessment.`,
+    temperature: 0.3,
+    isPreset: true,
+  },
+];
+
+/**
+ * Find a persona by ID among the presets and the user's own, falling back to the default
+ */
+export function findPersona(personaId: string | null | undefined, userPersonas: Persona[] = []): Persona {
+  return [...PRESET_PERSONAS, ...userPersonas].find(persona => persona.id === personaId) || PRESET_PERSONAS[0];
+}
+
+/**
+ * What the chat API needs of a persona
+ */
+export type PersonaSettings = Pick<Persona, 'name' | 'instruction' | 'temperature' | 'maxOutputTokens'>;
+
+/**
+ * Keep a persona's settings within the limits the chat API accepts
+ */
+export function sanitizePersona(persona: PersonaSettings): PersonaSettings {
+  const temperature = Number.isFinite(persona.temperature) ? Math.min(Math.max(persona.temperature, 0), 1) : DEFAULT_TEMPERATURE;
+  const maxOutputTokens = typeof persona.maxOutputTokens === 'number' && Number.isFinite(persona.maxOutputTokens)
+    ? Math.round(Math.min(Math.max(persona.maxOutputTokens, MIN_OUTPUT_TOKENS), DEFAULT_MAX_OUTPUT_TOKENS))
+    : undefined;
+
+  return {
+    name: (persona.name || '').trim().substring(0, MAX_PERSONA_NAME_LENGTH),
+    instruction: (persona.instruction || '').trim().substring(0, MAX_PERSONA_INSTRUCTION_LENGTH),
+    temperature,
+    ...(maxOutputTokens !== undefined ? { maxOutputTokens } : {}),
+  };
+}
+
+/**
+ * The part of the system instruction describing the persona's answer style, empty for the default
+ */
+export function formatPersonaInstruction(persona: Pick<Persona, 'name' | 'instruction'>): string {
+  if (!persona.instruction) return '';
+  return `
+
+ANSWER STYLE - ${persona.name.toUpperCase()}:
+${persona.instruction}
+(This style replaces the tone and length guidance above. The timestamp formatting rules still apply in full.)`;
+}
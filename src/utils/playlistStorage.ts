@@ -0,0 +1,69 @@
+// src/utils/playlistStorage.ts
+
+import { supabase } from './supabase';
+import { PlaylistVideoProgress } from '@/types';
+
+/**
+ * Get a user's progress through the videos of a playlist
+ * @param userId The user ID
+ * @param playlistId The playlist ID
+ * @returns Progress by video ID; videos never started are missing
+ */
+export async function getPlaylistProgress(
+  userId: string,
+  playlistId: string
+): Promise<Record<string, PlaylistVideoProgress>> {
+  try {
+    const { data, error } = await supabase
+      .from('playlist_progress')
+      .select('video_id, watched_seconds, duration_seconds, completed')
+      .eq('user_id', userId)
+      .eq('playlist_id', playlistId);
+
+    if (error) throw error;
+
+    const progress: Record<string, PlaylistVideoProgress> = {};
+    for (const row of data) {
+      progress[row.video_id] = {
+        videoId: row.video_id,
+        watchedSeconds: row.watched_seconds || 0,
+        durationSeconds: row.duration_seconds ?? undefined,
+        completed: !!row.completed,
+      };
+    }
+    return progress;
+  } catch (error) {
+    console.error('Error fetching playlist progress:', error);
+    return {};
+  }
+}
+
+/**
+ * Store how far a user got in one video of a playlist
+ * @returns Whether the progress was saved
+ */
+export async function savePlaylistProgress(
+  userId: string,
+  playlistId: string,
+  progress: PlaylistVideoProgress
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('playlist_progress')
+      .upsert({
+        user_id: userId,
+        playlist_id: playlistId,
+        video_id: progress.videoId,
+        watched_seconds: Math.floor(progress.watchedSeconds),
+        duration_seconds: progress.durationSeconds ?? null,
+        completed: progress.completed,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,playlist_id,video_id' });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving playlist progress:', error);
+    return false;
+  }
+}
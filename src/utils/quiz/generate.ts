@@ -0,0 +1,166 @@
+import type { ChatModelProvider } from '@/utils/llm';
+import { formatTime, ONE_HOUR_SECONDS, parseTime } from '@/utils/timestamps';
+import { chunkTranscript } from '@/utils/transcript/retrieval';
+import { getTranscriptDuration } from '@/utils/transcript';
+import { MAX_QUIZ_QUESTIONS } from './index';
+import type { QuizQuestion, TranscriptEntry } from '@/types';
+
+const EXCERPT_WINDOW_MS = 30000; // One excerpt line per 30 seconds
+const MAX_EXCERPT_CHARS = 80000;
+const MIN_OPTIONS = 3;
+const MAX_OPTIONS = 5;
+
+export interface QuizOptions {
+  count: number;
+  start?: number; // seconds; quiz only this part of the video
+  end?: number; // seconds
+}
+
+/**
+ * The transcript between two positions as timestamped lines, trimmed to fit the prompt
+ */
+function buildTranscriptExcerpt(transcript: TranscriptEntry[], longFormat: boolean): string {
+  const windows = chunkTranscript(transcript, EXCERPT_WINDOW_MS, 0);
+  const maxLineChars = Math.max(200, Math.floor(MAX_EXCERPT_CHARS / Math.max(windows.length, 1)));
+
+  return windows
+    .map(window => {
+      const text = window.text.length > maxLineChars ? `${window.text.substring(0, maxLineChars)}...` : window.text;
+      return `[${formatTime(window.start / 1000, longFormat)}] ${text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Start of the entry being spoken at a position, so the cited time lands at the start of a sentence
+ */
+function snapToEntry(transcript: TranscriptEntry[], seconds: number): number {
+  let snapped = transcript[0].offset;
+  for (const entry of transcript) {
+    if (entry.offset > seconds * 1000) break;
+    snapped = entry.offset;
+  }
+  return Math.floor(snapped / 1000);
+}
+
+/**
+ * Turn the model's answer into valid questions: complete options, a correct option
+ * that exists, and an answer position inside the quizzed part of the video
+ */
+function parseGeneratedQuestions(
+  responseText: string,
+  transcript: TranscriptEntry[],
+  start: number,
+  end: number,
+  longFormat: boolean
+): QuizQuestion[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch (error) {
+    console.error('Error parsing generated quiz:', error);
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const questions: QuizQuestion[] = [];
+  for (const item of parsed) {
+    if (typeof item?.question !== 'string' || typeof item?.timestamp !== 'string') continue;
+
+    const question = item.question.trim();
+    const position = parseTime(item.timestamp);
+    if (!question || position === null || position < start || position > end) continue;
+
+    const seconds = snapToEntry(transcript, position);
+    const base = {
+      id: `q${questions.length + 1}`,
+      question,
+      seconds,
+      label: `[${formatTime(seconds, longFormat)}]`,
+    };
+
+    if (item.type === 'multiple_choice') {
+      const options = Array.isArray(item.options)
+        ? item.options.filter((option: unknown): option is string => typeof option === 'string' && option.trim() !== '').map((option: string) => option.trim())
+        : [];
+      const correctOption = item.correctOption;
+      if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) continue;
+      if (!Number.isInteger(correctOption) || correctOption < 0 || correctOption >= options.length) continue;
+
+      questions.push({ ...base, type: 'multiple_choice', options, correctOption, answer: options[correctOption] });
+    } else if (item.type === 'short_answer' && typeof item.answer === 'string' && item.answer.trim()) {
+      questions.push({ ...base, type: 'short_answer', answer: item.answer.trim() });
+    }
+  }
+
+  return questions;
+}
+
+/**
+ * Generate a quiz about a video, or about one part of it, from its transcript
+ * @param provider Provider used to write the questions
+ * @returns The questions, or null when the quiz could not be generated
+ */
+export async function generateQuiz(
+  provider: ChatModelProvider,
+  title: string,
+  transcript: TranscriptEntry[],
+  options: QuizOptions
+): Promise<QuizQuestion[] | null> {
+  if (!provider.isConfigured()) {
+    console.error(`Cannot generate a quiz: the ${provider.name} chat provider is not configured.`);
+    return null;
+  }
+
+  const durationSeconds = getTranscriptDuration(transcript);
+  const start = Math.max(0, options.start ?? 0);
+  const end = Math.min(durationSeconds, options.end ?? durationSeconds);
+  const excerpt = transcript.filter(entry => entry.offset >= start * 1000 && entry.offset <= end * 1000);
+  if (excerpt.length === 0) return null;
+
+  const count = Math.min(Math.max(1, options.count), MAX_QUIZ_QUESTIONS);
+  const isLongVideo = durationSeconds >= ONE_HOUR_SECONDS;
+  const timeFormat = isLongVideo ? 'H:MM:SS' : 'MM:SS';
+
+  try {
+    const responseText = await provider.generateJson({
+      prompt: `Write a quiz that tests whether a viewer understood the YouTube video "${title}".
+
+RULES:
+- Write ${count} questions, about two thirds multiple choice and the rest short answer.
+- Every question must be answerable from the transcript below; ask about ideas, facts and steps, not trivia about wording.
+- Multiple choice: ${MIN_OPTIONS} or 4 plausible options, exactly one correct; correctOption is its index, starting at 0.
+- Short answer: a question answered in a sentence or less; answer is the model answer.
+- timestamp is the ${timeFormat} line of the transcript where the answer is found.
+- Write in the language of the transcript.
+
+TRANSCRIPT${options.start !== undefined || options.end !== undefined ? ` (from ${formatTime(start, isLongVideo)} to ${formatTime(end, isLongVideo)})` : ''}:
+${buildTranscriptExcerpt(excerpt, isLongVideo)}`,
+      schema: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['multiple_choice', 'short_answer'] },
+            question: { type: 'string' },
+            options: { type: 'array', items: { type: 'string' } },
+            correctOption: { type: 'integer' },
+            answer: { type: 'string' },
+            timestamp: { type: 'string' },
+          },
+          required: ['type', 'question', 'timestamp'],
+        },
+      },
+      config: {
+        temperature: 0.4,
+        maxOutputTokens: 3000,
+      },
+    });
+
+    const questions = parseGeneratedQuestions(responseText, excerpt, start, end, isLongVideo);
+    return questions.length > 0 ? questions.slice(0, count) : null;
+  } catch (error) {
+    console.error('Error generating quiz:', error);
+    return null;
+  }
+}
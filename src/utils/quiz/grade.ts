@@ -0,0 +1,103 @@
+import type { ChatModelProvider } from '@/utils/llm';
+import { gradeMultipleChoice, gradeShortAnswerByKeywords, type QuizResponse } from './index';
+import type { QuizGrade, QuizQuestion } from '@/types';
+
+/**
+ * Ask the model to grade short answers against the model answers, allowing other wordings
+ * @returns Grades by question ID
+ */
+async function gradeShortAnswersWithModel(
+  provider: ChatModelProvider,
+  answers: Array<{ question: QuizQuestion; response: string }>
+): Promise<Map<string, QuizGrade>> {
+  const responseText = await provider.generateJson({
+    prompt: `Grade these short answers to quiz questions about a video.
+
+RULES:
+- Compare each answer with the model answer. Accept other wordings, synonyms and extra detail, as long as the meaning is right.
+- score is 1 for a correct answer, 0.5 for a partly correct or incomplete one, 0 for a wrong or empty one.
+- feedback is one short sentence saying what was missing or wrong, in the language of the question; leave it empty for correct answers.
+
+ANSWERS:
+${JSON.stringify(answers.map(({ question, response }) => ({
+  questionId: question.id,
+  question: question.question,
+  modelAnswer: question.answer,
+  answer: response,
+})), null, 2)}`,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          questionId: { type: 'string' },
+          score: { type: 'number' },
+          feedback: { type: 'string' },
+        },
+        required: ['questionId', 'score'],
+      },
+    },
+    config: {
+      temperature: 0,
+      maxOutputTokens: 1500,
+    },
+  });
+
+  const grades = new Map<string, QuizGrade>();
+  const parsed: unknown = JSON.parse(responseText || '[]');
+  if (!Array.isArray(parsed)) return grades;
+
+  for (const item of parsed) {
+    const answer = answers.find(({ question }) => question.id === item?.questionId);
+    if (!answer || typeof item.score !== 'number') continue;
+
+    // Only the three grades the model was asked for
+    const score = item.score >= 0.75 ? 1 : item.score >= 0.25 ? 0.5 : 0;
+    grades.set(answer.question.id, {
+      questionId: answer.question.id,
+      response: answer.response,
+      score,
+      feedback: score < 1 && typeof item.feedback === 'string' && item.feedback.trim() ? item.feedback.trim() : undefined,
+      gradedBy: 'model',
+    });
+  }
+  return grades;
+}
+
+/**
+ * Grade a quiz. Multiple choice is checked exactly; short answers are graded by the model,
+ * or by key words when the model is unavailable.
+ * @param provider Provider used to grade short answers
+ * @param questions The quiz questions
+ * @param responses The user's answers, by question ID
+ * @returns One grade per question, in question order
+ */
+export async function gradeQuiz(provider: ChatModelProvider, questions: QuizQuestion[], responses: Record<string, QuizResponse>): Promise<QuizGrade[]> {
+  const shortAnswers = questions
+    .filter(question => question.type === 'short_answer')
+    .map(question => ({ question, response: String(responses[question.id] ?? '').trim() }))
+    .filter(({ response }) => response !== '');
+
+  let modelGrades = new Map<string, QuizGrade>();
+  if (shortAnswers.length > 0 && provider.isConfigured()) {
+    try {
+      modelGrades = await gradeShortAnswersWithModel(provider, shortAnswers);
+    } catch (error) {
+      console.error('Error grading short answers, falling back to key words:', error);
+    }
+  }
+
+  return questions.map(question => {
+    const response = responses[question.id] ?? null;
+
+    if (question.type === 'multiple_choice') {
+      return gradeMultipleChoice(question, typeof response === 'number' ? response : null);
+    }
+
+    const text = String(response ?? '').trim();
+    if (!text) {
+      return { questionId: question.id, response: '', score: 0, feedback: `Expected something like: ${question.answer}`, gradedBy: 'exact' };
+    }
+    return modelGrades.get(question.id) || gradeShortAnswerByKeywords(question, text);
+  });
+}
@@ -0,0 +1,63 @@
+import { tokenize } from '@/utils/transcript/retrieval';
+import type { QuizGrade, QuizQuestion } from '@/types';
+
+export const QUIZ_QUESTION_COUNTS = [3, 5, 10];
+export const DEFAULT_QUIZ_QUESTION_COUNT = 5;
+export const MAX_QUIZ_QUESTIONS = 10;
+
+/**
+ * An answer to a quiz question: the chosen option index for multiple choice,
+ * the text for short answers, null when skipped
+ */
+export type QuizResponse = number | string | null;
+
+// Share of the model answer's key words a short answer needs to count as correct without the model
+const KEYWORD_PASS_RATIO = 0.6;
+const KEYWORD_PARTIAL_RATIO = 0.3;
+
+/**
+ * Grade a multiple-choice answer
+ * @param optionIndex The chosen option, or null when the question was skipped
+ */
+export function gradeMultipleChoice(question: QuizQuestion, optionIndex: number | null): QuizGrade {
+  const options = question.options || [];
+  return {
+    questionId: question.id,
+    response: optionIndex !== null ? options[optionIndex] ?? '' : '',
+    score: optionIndex !== null && optionIndex === question.correctOption ? 1 : 0,
+    gradedBy: 'exact',
+  };
+}
+
+/**
+ * Grade a short answer by the key words it shares with the model answer.
+ * Used when the model cannot grade; it cannot tell a right answer worded differently from a wrong one.
+ */
+export function gradeShortAnswerByKeywords(question: QuizQuestion, response: string): QuizGrade {
+  const expected = new Set(tokenize(question.answer));
+  const given = new Set(tokenize(response));
+  const matched = [...expected].filter(word => given.has(word)).length;
+  const ratio = expected.size > 0 ? matched / expected.size : 0;
+
+  return {
+    questionId: question.id,
+    response,
+    score: ratio >= KEYWORD_PASS_RATIO ? 1 : ratio >= KEYWORD_PARTIAL_RATIO ? 0.5 : 0,
+    feedback: ratio >= KEYWORD_PASS_RATIO ? undefined : `Expected something like: ${question.answer}`,
+    gradedBy: 'keywords',
+  };
+}
+
+/**
+ * Total score of a graded quiz
+ */
+export function sumQuizScore(grades: QuizGrade[]): number {
+  return grades.reduce((sum, grade) => sum + grade.score, 0);
+}
+
+/**
+ * Format a score such as 3.5 as "3.5", and whole scores without decimals
+ */
+export function formatQuizScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(1);
+}
@@ -0,0 +1,73 @@
+// src/utils/quizStorage.ts
+
+import { supabase } from './supabase';
+import { QuizResult } from '@/types';
+
+// Default limit for quiz results to fetch (to stay within free tier limits)
+const DEFAULT_QUIZ_RESULT_LIMIT = 10;
+
+/**
+ * Store a graded quiz for a user and video
+ * @returns The ID of the stored row, or null when it could not be saved
+ */
+export async function saveQuizResult(userId: string, result: QuizResult): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from('quiz_results')
+      .insert({
+        user_id: userId,
+        video_id: result.videoId,
+        scope: result.scope,
+        questions: result.questions,
+        grades: result.grades,
+        score: result.score,
+        total: result.total
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data?.id || null;
+  } catch (error) {
+    console.error('Error saving quiz result:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a user's latest quiz results for a video, newest first
+ * @param userId The user ID
+ * @param videoId The video ID
+ * @param limit Maximum number of results to fetch (default: 10)
+ */
+export async function getQuizResults(
+  userId: string,
+  videoId: string,
+  limit: number = DEFAULT_QUIZ_RESULT_LIMIT
+): Promise<QuizResult[]> {
+  try {
+    const { data, error } = await supabase
+      .from('quiz_results')
+      .select('id, video_id, scope, questions, grades, score, total, created_at')
+      .eq('user_id', userId)
+      .eq('video_id', videoId)
+      .order('created_at', { ascending: false })
+      .limit(Math.min(limit, 50));
+
+    if (error) throw error;
+
+    return data.map(row => ({
+      id: row.id,
+      videoId: row.video_id,
+      scope: row.scope || null,
+      questions: Array.isArray(row.questions) ? row.questions : [],
+      grades: Array.isArray(row.grades) ? row.grades : [],
+      score: row.score,
+      total: row.total,
+      createdAt: row.created_at
+    }));
+  } catch (error) {
+    console.error('Error fetching quiz results:', error);
+    return [];
+  }
+}
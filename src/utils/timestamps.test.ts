@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { findTimestamps, formatTime, formatTimeRange, parseIsoDuration, parseTime, parseTimeRange } from './timestamps';
+
+describe('formatTime', () => {
+  it('uses MM:SS under an hour', () => {
+    expect(formatTime(0)).toBe('00:00');
+    expect(formatTime(83)).toBe('01:23');
+    expect(formatTime(3599)).toBe('59:59');
+  });
+
+  it('uses H:MM:SS from one hour on', () => {
+    expect(formatTime(3600)).toBe('1:00:00');
+    expect(formatTime(5712)).toBe('1:35:12');
+    expect(formatTime(10 * 3600 + 5)).toBe('10:00:05');
+  });
+
+  it('always includes the hour for long videos', () => {
+    expect(formatTime(83, true)).toBe('0:01:23');
+  });
+
+  it('drops fractions of a second', () => {
+    expect(formatTime(83.9)).toBe('01:23');
+  });
+
+  it('falls back to zero for invalid input', () => {
+    expect(formatTime(NaN)).toBe('00:00');
+    expect(formatTime(-5)).toBe('00:00');
+    expect(formatTime(-5, true)).toBe('0:00:00');
+  });
+});
+
+describe('parseTime', () => {
+  it('parses H:MM:SS', () => {
+    expect(parseTime('1:35:12')).toBe(5712);
+    expect(parseTime('01:35:12')).toBe(5712);
+  });
+
+  it('parses MM:SS and M:SS', () => {
+    expect(parseTime('01:23')).toBe(83);
+    expect(parseTime('1:23')).toBe(83);
+  });
+
+  it('reads minutes past 59 without an hour', () => {
+    expect(parseTime('95:12')).toBe(5712);
+    expect(parseTime('[95:12]')).toBe(5712);
+  });
+
+  it('parses bare seconds', () => {
+    expect(parseTime('185')).toBe(185);
+    expect(parseTime('185.7')).toBe(185);
+    expect(parseTime(' [42] ')).toBe(42);
+  });
+
+  it('rejects invalid timestamps', () => {
+    expect(parseTime('')).toBeNull();
+    expect(parseTime('abc')).toBeNull();
+    expect(parseTime('1:60')).toBeNull(); // seconds out of range
+    expect(parseTime('1:60:00')).toBeNull(); // minutes out of range with an hour
+    expect(parseTime('1:2:3')).toBeNull(); // seconds need two digits
+    expect(parseTime('1:23:45:67')).toBeNull();
+    expect(parseTime('-1:23')).toBeNull();
+    expect(parseTime('12:3')).toBeNull();
+  });
+});
+
+describe('parseTimeRange', () => {
+  it('parses a single time', () => {
+    expect(parseTimeRange('12:30')).toEqual({ start: 750 });
+  });
+
+  it('parses ranges with a hyphen or an en dash', () => {
+    expect(parseTimeRange('12:30-14:05')).toEqual({ start: 750, end: 845 });
+    expect(parseTimeRange('[1:02:00 – 1:05:30]')).toEqual({ start: 3720, end: 3930 });
+  });
+
+  it('keeps the video tag', () => {
+    expect(parseTimeRange('V2 12:30-14:05')).toEqual({ start: 750, end: 845, video: 2 });
+    expect(parseTimeRange('[V3 95:12]')).toEqual({ start: 5712, video: 3 });
+  });
+
+  it('rejects ranges that end before they start, and malformed ranges', () => {
+    expect(parseTimeRange('14:05-12:30')).toBeNull();
+    expect(parseTimeRange('12:30-12:30')).toBeNull();
+    expect(parseTimeRange('1:00-2:00-3:00')).toBeNull();
+    expect(parseTimeRange('12:30-later')).toBeNull();
+  });
+});
+
+describe('formatTimeRange', () => {
+  it('formats single times, ranges and video tags', () => {
+    expect(formatTimeRange({ start: 750 })).toBe('12:30');
+    expect(formatTimeRange({ start: 750, end: 845 })).toBe('12:30-14:05');
+    expect(formatTimeRange({ start: 750, video: 2 }, true)).toBe('V2 0:12:30');
+  });
+});
+
+describe('findTimestamps', () => {
+  it('finds every bracketed form with its position', () => {
+    const text = 'See [01:23], then [1:35:12] and [95:12].';
+    expect(findTimestamps(text)).toEqual([
+      { index: 4, fullMatch: '[01:23]', seconds: 83 },
+      { index: 18, fullMatch: '[1:35:12]', seconds: 5712 },
+      { index: 32, fullMatch: '[95:12]', seconds: 5712 },
+    ]);
+  });
+
+  it('finds ranges and video tags', () => {
+    expect(findTimestamps('[12:30-14:05] vs [V2 03:00]')).toEqual([
+      { index: 0, fullMatch: '[12:30-14:05]', seconds: 750, endSeconds: 845 },
+      { index: 17, fullMatch: '[V2 03:00]', seconds: 180, video: 2 },
+    ]);
+  });
+
+  it('treats a range that ends before it starts as a single point', () => {
+    expect(findTimestamps('[14:05-12:30]')).toEqual([{ index: 0, fullMatch: '[14:05-12:30]', seconds: 845 }]);
+  });
+
+  it('ignores unbracketed and invalid timestamps', () => {
+    expect(findTimestamps('at 01:23, [1:75], [1:60:00], [abc] or [42]')).toEqual([]);
+  });
+});
+
+describe('parseIsoDuration', () => {
+  it('parses YouTube durations', () => {
+    expect(parseIsoDuration('PT1H2M3S')).toBe(3723);
+    expect(parseIsoDuration('PT45S')).toBe(45);
+    expect(parseIsoDuration('P1DT1S')).toBe(86401);
+  });
+
+  it('rejects other strings', () => {
+    expect(parseIsoDuration('1:02:03')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+// src/utils/timestamps.ts
+// Shared parsing and formatting for video timestamps: H:MM:SS, MM:SS and plain seconds
+
+export const ONE_HOUR_SECONDS = 3600;
+
+const TIME_SOURCE = '(?:(\\d{1,2}):)?(\\d{1,3}):(\\d{2})';
+
+// "V2 " before a time says which video of a multi-video conversation it refers to
+export const VIDEO_TAG_SOURCE = 'V(\\d{1,2})\\s+';
+
+/**
+ * Matches bracketed timestamps such as [1:35:12], [95:12] or [01:23],
+ * ranges such as [12:30-14:05], and either of them qualified by a video tag ([V2 12:34]).
+ * Groups: 1 = video number (optional); 2-4 = start hours (optional), minutes, seconds; 5-7 = the same for the range end.
+ * Minutes may exceed 59 when no hours are given, so [95:12] is read as 1:35:12.
+ */
+export const BRACKETED_TIMESTAMP_SOURCE = `\\[(?:${VIDEO_TAG_SOURCE})?${TIME_SOURCE}(?:\\s*[-–]\\s*${TIME_SOURCE})?\\]`;
+
+export interface TimestampMatch {
+  index: number; // Position in the original string
+  fullMatch: string; // e.g. "[1:35:12]", "[12:30-14:05]" or "[V2 01:23]"
+  seconds: number;
+  endSeconds?: number; // Set when the match is a range
+  video?: number; // Video number from a "V2" tag, starting at 1
+}
+
+export interface TimeRange {
+  start: number; // seconds
+  end?: number; // seconds, set for ranges
+  video?: number; // Video number from a "V2" tag, starting at 1
+}
+
+/**
+ * Formats seconds as a timestamp.
+ * Uses H:MM:SS at or beyond one hour (or when forced for long videos), MM:SS otherwise.
+ * @param seconds - Number of seconds to format
+ * @param longFormat - Always include the hour component
+ */
+export const formatTime = (seconds: number, longFormat: boolean = false): string => {
+  if (isNaN(seconds) || seconds < 0) {
+    return longFormat ? '0:00:00' : '00:00';
+  }
+  const totalSeconds = Math.floor(seconds);
+  const hours = Math.floor(totalSeconds / ONE_HOUR_SECONDS);
+  const mins = Math.floor((totalSeconds % ONE_HOUR_SECONDS) / 60);
+  const secs = totalSeconds % 60;
+
+  if (hours > 0 || longFormat) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Parses a timestamp into seconds.
+ * Accepts "H:MM:SS", "MM:SS", "M:SS" and plain seconds ("185"), with or without brackets.
+ * @returns Seconds, or null if the value is not a valid timestamp
+ */
+export const parseTime = (value: string): number | null => {
+  const trimmed = value.trim().replace(/^\[/, '').replace(/\]$/, '');
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.floor(Number(trimmed));
+  }
+
+  const match = trimmed.match(/^(?:(\d{1,2}):)?(\d{1,3}):(\d{2})$/);
+  if (!match) return null;
+
+  return timestampPartsToSeconds(match[1], match[2], match[3]);
+};
+
+/**
+ * Parses a timestamp or a timestamp range ("12:30-14:05") into seconds,
+ * optionally qualified by a video tag ("V2 12:30-14:05")
+ * @returns The start (and end for ranges), or null if the value is not valid
+ */
+export const parseTimeRange = (value: string): TimeRange | null => {
+  const trimmed = value.trim().replace(/^\[/, '').replace(/\]$/, '');
+  const tagged = trimmed.match(new RegExp(`^${VIDEO_TAG_SOURCE}(.+)$`));
+  const video = tagged ? { video: parseInt(tagged[1], 10) } : {};
+  const [startPart, endPart, ...rest] = (tagged ? tagged[2] : trimmed).split(/\s*[-–]\s*/);
+  if (rest.length > 0) return null;
+
+  const start = parseTime(startPart);
+  if (start === null) return null;
+  if (endPart === undefined) return { start, ...video };
+
+  const end = parseTime(endPart);
+  if (end === null || end <= start) return null;
+  return { start, end, ...video };
+};
+
+/**
+ * The tag that qualifies timestamps of the nth video in a conversation, e.g. "V2"
+ * @param index Position of the video in the conversation, starting at 0
+ */
+export const formatVideoTag = (index: number): string => `V${index + 1}`;
+
+/**
+ * Formats a range as "start-end", or a single time when there is no end, with its video tag if any
+ */
+export const formatTimeRange = (range: TimeRange, longFormat: boolean = false): string => {
+  const start = formatTime(range.start, longFormat);
+  const time = range.end !== undefined ? `${start}-${formatTime(range.end, longFormat)}` : start;
+  return range.video !== undefined ? `${formatVideoTag(range.video - 1)} ${time}` : time;
+};
+
+/**
+ * Finds every bracketed timestamp and timestamp range in a piece of text
+ */
+export const findTimestamps = (text: string): TimestampMatch[] => {
+  const regex = new RegExp(BRACKETED_TIMESTAMP_SOURCE, 'g');
+  const matches: TimestampMatch[] = [];
+
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const seconds = timestampPartsToSeconds(match[2], match[3], match[4]);
+    if (seconds === null) continue;
+    const video = match[1] !== undefined ? { video: parseInt(match[1], 10) } : {};
+
+    if (match[6] === undefined) {
+      matches.push({ index: match.index, fullMatch: match[0], seconds, ...video });
+      continue;
+    }
+
+    // Ranges that end before they start are treated as a single point
+    const endSeconds = timestampPartsToSeconds(match[5], match[6], match[7]);
+    matches.push({
+      index: match.index,
+      fullMatch: match[0],
+      seconds,
+      ...(endSeconds !== null && endSeconds > seconds ? { endSeconds } : {}),
+      ...video,
+    });
+  }
+
+  return matches;
+};
+
+/**
+ * Parses an ISO 8601 duration as returned by the YouTube Data API (e.g. "PT1H2M3S")
+ * @returns Seconds, or null if the value is not a valid duration
+ */
+export const parseIsoDuration = (value: string): number | null => {
+  const match = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, days, hours, minutes, seconds] = match.map(part => parseInt(part || '0', 10));
+  return days * 86400 + hours * ONE_HOUR_SECONDS + minutes * 60 + seconds;
+};
+
+function timestampPartsToSeconds(hours: string | undefined, minutes: string, seconds: string): number | null {
+  const h = hours !== undefined ? parseInt(hours, 10) : 0;
+  const m = parseInt(minutes, 10);
+  const s = parseInt(seconds, 10);
+
+  // With an hour component the minutes must be a clock value
+  if (s > 59 || (hours !== undefined && m > 59)) return null;
+
+  return h * ONE_HOUR_SECONDS + m * 60 + s;
+}
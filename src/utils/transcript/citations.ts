@@ -0,0 +1,92 @@
+import { findTimestamps } from '@/utils/timestamps';
+import type { Citation, TranscriptEntry } from '@/types';
+
+// A cited time may fall in a pause between entries; accept the entry just before it within this gap
+const MAX_CITATION_GAP_MS = 5000;
+const MAX_QUOTE_LENGTH = 200;
+
+/**
+ * Index of the entry being spoken at a position, or -1 when nothing is said near it
+ */
+function entryIndexAt(transcript: TranscriptEntry[], ms: number): number {
+  let index = -1;
+  for (let i = 0; i < transcript.length && transcript[i].offset <= ms; i++) {
+    index = i;
+  }
+  if (index === -1) {
+    // Before the first entry: accept it when the cited time is close
+    return transcript.length > 0 && transcript[0].offset - ms <= MAX_CITATION_GAP_MS ? 0 : -1;
+  }
+
+  const entry = transcript[index];
+  return ms <= entry.offset + entry.duration + MAX_CITATION_GAP_MS ? index : -1;
+}
+
+function quoteEntries(entries: TranscriptEntry[]): string {
+  const text = entries.map(entry => entry.text).join(' ').replace(/\s+/g, ' ').trim();
+  return text.length > MAX_QUOTE_LENGTH ? `${text.substring(0, MAX_QUOTE_LENGTH - 3)}...` : text;
+}
+
+/**
+ * A video whose transcript an answer may cite
+ */
+export interface CitationSource {
+  videoId: string;
+  transcript: TranscriptEntry[] | null;
+}
+
+/**
+ * Cite the timestamps of an answer against one transcript per video. Timestamps tagged with a
+ * video ([V2 12:34]) are checked against that video's transcript, untagged ones against the default one.
+ * Timestamps that do not land on anything said in the video (e.g. invented ones, or times
+ * past the end) are left out, so every citation points at a real transcript line.
+ * @param answer The full answer text
+ * @param sources The videos of the conversation, in tag order (V1 first)
+ * @param defaultVideo Tag number of the video untagged timestamps refer to
+ */
+export function buildVideoCitations(answer: string, sources: CitationSource[], defaultVideo: number = 1): Citation[] {
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+  const isMultiVideo = sources.length > 1;
+
+  for (const { fullMatch, seconds, endSeconds, video } of findTimestamps(answer)) {
+    const source = sources[(video ?? defaultVideo) - 1];
+    const transcript = source?.transcript;
+    if (!transcript || transcript.length === 0) continue;
+
+    const key = `${source.videoId}-${seconds}-${endSeconds ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const entryIndex = entryIndexAt(transcript, seconds * 1000);
+    if (entryIndex === -1) continue;
+
+    // A range quotes its opening lines; a point quotes the line being spoken
+    const quoted = endSeconds !== undefined
+      ? transcript.slice(entryIndex).filter(entry => entry.offset < endSeconds * 1000).slice(0, 3)
+      : [transcript[entryIndex]];
+
+    citations.push({
+      label: fullMatch,
+      seconds,
+      ...(endSeconds !== undefined ? { endSeconds } : {}),
+      offset: transcript[entryIndex].offset,
+      entryIndex,
+      quote: quoteEntries(quoted.length > 0 ? quoted : [transcript[entryIndex]]),
+      ...(isMultiVideo ? { videoId: source.videoId } : {}),
+    });
+  }
+
+  // Grouped by video, then in video order
+  const order = (citation: Citation) => sources.findIndex(source => source.videoId === citation.videoId);
+  return citations.sort((a, b) => order(a) - order(b) || a.seconds - b.seconds);
+}
+
+/**
+ * Turn the timestamps in an answer into citations backed by the transcript of a single video
+ * @param answer The full answer text
+ * @param transcript The transcript the answer was grounded in
+ */
+export function buildCitations(answer: string, transcript: TranscriptEntry[] | null): Citation[] {
+  return buildVideoCitations(answer, [{ videoId: '', transcript }]);
+}
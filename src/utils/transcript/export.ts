@@ -0,0 +1,168 @@
+import { formatTime } from '@/utils/formatters';
+import type { TranscriptEntry } from '@/types';
+import type { SubtitleFormat } from './subtitles';
+
+export type TranscriptExportFormat = SubtitleFormat | 'txt' | 'json';
+
+export const TRANSCRIPT_EXPORT_FORMATS: TranscriptExportFormat[] = ['srt', 'vtt', 'txt', 'json'];
+
+export interface TranscriptCue {
+  start: number; // milliseconds
+  end: number; // milliseconds
+  text: string;
+}
+
+export interface TranscriptExportOptions {
+  videoId: string;
+  lang?: string | null;
+  includeTimestamps?: boolean; // Prefix each plain text line with its [MM:SS] time
+  longFormat?: boolean; // Use [H:MM:SS] in plain text, for videos of an hour or more
+}
+
+export interface TranscriptExport {
+  body: string;
+  contentType: string;
+  fileName: string;
+}
+
+// Auto-generated captions arrive in fragments of a word or two; merge those into readable cues
+const MIN_CUE_DURATION_MS = 1500;
+const MIN_CUE_CHARS = 20;
+const MAX_CUE_DURATION_MS = 7000;
+const MAX_CUE_CHARS = 84; // Two subtitle lines of 42 characters
+const MAX_MERGE_GAP_MS = 1000;
+const DEFAULT_CUE_DURATION_MS = 2000; // For a last entry without a duration
+const PARAGRAPH_PAUSE_MS = 2000; // Start a new paragraph in plain text after a pause this long
+
+const CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+export function isTranscriptExportFormat(value: string): value is TranscriptExportFormat {
+  return (TRANSCRIPT_EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Turn transcript entries into non-overlapping cues, merging tiny fragments with their neighbours.
+ * YouTube cues often overlap the next one, so every cue ends no later than the next one starts.
+ */
+export function buildTranscriptCues(transcript: TranscriptEntry[]): TranscriptCue[] {
+  const entries = transcript
+    .filter(entry => entry.text.trim() !== '')
+    .sort((a, b) => a.offset - b.offset);
+
+  const timed: TranscriptCue[] = entries.map((entry, index) => {
+    const next = entries[index + 1];
+    let end = entry.offset + entry.duration;
+    if (next && next.offset > entry.offset) {
+      end = Math.min(end, next.offset);
+    }
+    if (end <= entry.offset) {
+      end = next && next.offset > entry.offset ? next.offset : entry.offset + DEFAULT_CUE_DURATION_MS;
+    }
+    return { start: entry.offset, end, text: entry.text.replace(/\s+/g, ' ').trim() };
+  });
+
+  const isTiny = (cue: TranscriptCue) => cue.end - cue.start < MIN_CUE_DURATION_MS || cue.text.length < MIN_CUE_CHARS;
+
+  const cues: TranscriptCue[] = [];
+  for (const cue of timed) {
+    const last = cues[cues.length - 1];
+    const canMerge = last
+      && (isTiny(last) || isTiny(cue))
+      && cue.start - last.end <= MAX_MERGE_GAP_MS
+      && cue.end - last.start <= MAX_CUE_DURATION_MS
+      && last.text.length + 1 + cue.text.length <= MAX_CUE_CHARS;
+
+    if (canMerge) {
+      cues[cues.length - 1] = { start: last.start, end: cue.end, text: `${last.text} ${cue.text}` };
+    } else {
+      cues.push({ ...cue });
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * Format milliseconds as a cue time: "00:01:02,500" for SRT, "00:01:02.500" for WebVTT
+ */
+function formatCueTime(ms: number, format: SubtitleFormat): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  const separator = format === 'srt' ? ',' : '.';
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${separator}${String(millis).padStart(3, '0')}`;
+}
+
+/**
+ * Serialize cues as an SRT or WebVTT file
+ */
+export function formatSubtitles(cues: TranscriptCue[], format: SubtitleFormat): string {
+  const blocks = cues.map((cue, index) => {
+    const timing = `${formatCueTime(cue.start, format)} --> ${formatCueTime(cue.end, format)}`;
+    // WebVTT cue text is markup, so literal &, < and > must be escaped
+    const text = format === 'vtt'
+      ? cue.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+      : cue.text;
+    return format === 'srt' ? `${index + 1}\n${timing}\n${text}` : `${timing}\n${text}`;
+  });
+
+  const body = blocks.join('\n\n');
+  return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+}
+
+/**
+ * Plain text, either one timestamped line per cue or paragraphs split at longer pauses
+ */
+function formatPlainText(cues: TranscriptCue[], includeTimestamps: boolean, longFormat: boolean): string {
+  if (includeTimestamps) {
+    return cues
+      .map(cue => `[${formatTime(Math.floor(cue.start / 1000), longFormat)}] ${cue.text}`)
+      .join('\n') + '\n';
+  }
+
+  const paragraphs: string[][] = [];
+  cues.forEach((cue, index) => {
+    const previous = cues[index - 1];
+    if (!previous || cue.start - previous.end >= PARAGRAPH_PAUSE_MS) {
+      paragraphs.push([]);
+    }
+    paragraphs[paragraphs.length - 1].push(cue.text);
+  });
+
+  return paragraphs.map(paragraph => paragraph.join(' ')).join('\n\n') + '\n';
+}
+
+/**
+ * Render a transcript as a downloadable file in the requested format
+ */
+export function exportTranscript(
+  transcript: TranscriptEntry[],
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions
+): TranscriptExport {
+  const { videoId, lang, includeTimestamps = false, longFormat = false } = options;
+  const baseName = lang ? `${videoId}.${lang}` : videoId;
+
+  let body: string;
+  if (format === 'json') {
+    // JSON keeps the original entries so other tools can do their own processing
+    body = JSON.stringify({ videoId, lang: lang || null, entries: transcript }, null, 2);
+  } else if (format === 'txt') {
+    body = formatPlainText(buildTranscriptCues(transcript), includeTimestamps, longFormat);
+  } else {
+    body = formatSubtitles(buildTranscriptCues(transcript), format);
+  }
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    fileName: `${baseName.replace(/[^a-zA-Z0-9_.-]/g, '_')}.${format}`,
+  };
+}
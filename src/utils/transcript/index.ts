@@ -1,129 +1,122 @@
-import { YoutubeTranscript } from 'youtube-transcript';
+import { findTimestamps } from '@/utils/timestamps';
+import { getTranscriptStore, getUploadedTranscriptStore, MISSING_TRANSCRIPT_TTL, TRANSCRIPT_TTL, type StoredTranscript } from './store';
+import { transcriptProviders, UPLOAD_PROVIDER_NAME } from './providers';
+import { YOUTUBE_PROVIDER_NAME } from './youtube';
+import type { TranscriptEntry } from '@/types';
 
-interface TranscriptEntry {
-  text: string;
-  offset: number;
-  duration: number;
-}
-
-interface CachedTranscript {
-  entries: TranscriptEntry[];
-  timestamp: number;
-}
+export type { TranscriptEntry, TranscriptSearchHit } from '@/types';
 
-const transcriptCache = new Map<string, CachedTranscript>();
-const CACHE_DURATION = 60 * 60 * 1000; // 1 hour in milliseconds
+export { retrieveRelevantPassages, retrievePassagesAcrossTranscripts, formatPassagesForPrompt } from './retrieval';
+export type { RetrievedPassage, SourcedPassage } from './retrieval';
+export { searchTranscript } from './search';
+export { getTranscriptStore } from './store';
+export type { TranscriptStore, StoredTranscript } from './store';
+export { listCaptionTracks } from './tracks';
+export { transcriptProviders, describeTranscriptSource, UPLOAD_PROVIDER_NAME } from './providers';
+export type { TranscriptProvider } from './providers';
+export { parseSubtitles, detectSubtitleFormat } from './subtitles';
+export type { SubtitleFormat } from './subtitles';
+export { exportTranscript, buildTranscriptCues, formatSubtitles, isTranscriptExportFormat, TRANSCRIPT_EXPORT_FORMATS } from './export';
+export type { TranscriptExportFormat, TranscriptCue } from './export';
+export { buildCitations, buildVideoCitations } from './citations';
+export type { CitationSource } from './citations';
 
-// Track rate limiting for transcript API
-interface RateLimitTracker {
-  lastRequestTime: number;
-  requestCount: number;
-  resetTime: number;
+export interface TranscriptOptions {
+  lang?: string; // Caption track language code, e.g. "en" or "de"; defaults to YouTube's first track
 }
 
-const rateLimitTracker: RateLimitTracker = {
-  lastRequestTime: 0,
-  requestCount: 0,
-  resetTime: Date.now() + 60000 // Reset after 1 minute initially
-};
-
-// Maximum requests per minute to avoid rate limiting
-const MAX_REQUESTS_PER_MINUTE = 10;
+/**
+ * Get the transcript for a YouTube video, reading through the transcript store
+ * so that repeat requests for the same video never hit YouTube again
+ */
+export async function getTranscript(videoId: string, options: TranscriptOptions = {}): Promise<TranscriptEntry[] | null> {
+  const record = await getTranscriptRecord(videoId, options);
+  return record ? record.entries : null;
+}
 
 /**
- * Fetch transcript for a YouTube video and cache it with rate limiting and retries
+ * Same as getTranscript, but also returns the track language, provider and fetch time
  */
-export async function getTranscript(videoId: string): Promise<TranscriptEntry[] | null> {
-  // Check if we have a valid cached transcript
-  const cached = transcriptCache.get(videoId);
-  const now = Date.now();
-  
-  if (cached && now - cached.timestamp < CACHE_DURATION) {
-    console.log(`Using cached transcript for video ${videoId}`);
-    return cached.entries;
-  }
+export async function getTranscriptRecord(videoId: string, options: TranscriptOptions = {}): Promise<StoredTranscript | null> {
+  const { lang } = options;
+  const store = getTranscriptStore();
+  const cached = await store.get({ videoId, lang });
   
-  // Check rate limiting
-  if (now > rateLimitTracker.resetTime) {
-    // Reset counter if we're past the reset time
-    rateLimitTracker.requestCount = 0;
-    rateLimitTracker.resetTime = now + 60000; // Reset after 1 minute
+  // An entry without lines records that no provider had a transcript, so YouTube is not asked on every request
+  if (cached && cached.entries.length === 0 && Date.now() - cached.fetchedAt < MISSING_TRANSCRIPT_TTL) {
+    console.log(`No transcript for video ${videoId} (${lang || 'default track'}), checked recently`);
+    return null;
   }
-  
-  if (rateLimitTracker.requestCount >= MAX_REQUESTS_PER_MINUTE) {
-    // Calculate time to wait before next request
-    const timeToWait = rateLimitTracker.resetTime - now;
-    if (timeToWait > 0) {
-      console.log(`Rate limit reached for transcript API. Waiting ${timeToWait}ms before retrying.`);
-      // Wait until reset time
-      await new Promise(resolve => setTimeout(resolve, timeToWait + 100)); // Add 100ms buffer
-      // Recursively call this function after waiting
-      return getTranscript(videoId);
-    }
+  if (cached && cached.entries.length > 0 && Date.now() - cached.fetchedAt < TRANSCRIPT_TTL) {
+    console.log(`Using stored transcript for video ${videoId} (${lang || 'default track'})`);
+    // Entries stored before providers existed all came from YouTube
+    return { ...cached, source: cached.source || YOUTUBE_PROVIDER_NAME };
   }
   
-  // Implement retry logic
-  const MAX_RETRIES = 3;
-  let retries = 0;
-  let lastError: Error | unknown = null;
-  
-  while (retries < MAX_RETRIES) {
-    try {
-      // Update rate limit tracking
-      rateLimitTracker.lastRequestTime = Date.now();
-      rateLimitTracker.requestCount++;
-      
-      console.log(`Fetching transcript for video ${videoId} (attempt ${retries + 1}/${MAX_RETRIES})`);
-      const transcript = await YoutubeTranscript.fetchTranscript(videoId);
-      
-      if (!transcript || transcript.length === 0) {
-        console.log(`No transcript available for video ${videoId}`);
-        return null;
-      }
-      
-      // Cache the transcript
-      transcriptCache.set(videoId, {
-        entries: transcript,
-        timestamp: now
-      });
-      
-      return transcript;
-    } catch (error: unknown) {
-      lastError = error;
-      
-      // Check if this is a rate limiting or temporary error
-      const errorObj = error as Record<string, unknown>;
-      const errorMessage = typeof errorObj.message === 'string' ? errorObj.message : '';
-      const isRateLimited = 
-        errorMessage.includes('rate') || 
-        errorMessage.includes('429') || 
-        errorMessage.includes('too many');
-        
-      const isTemporaryError = 
-        errorMessage.includes('timeout') || 
-        errorMessage.includes('network') || 
-        errorMessage.includes('temporary');
-      
-      if (isRateLimited || isTemporaryError) {
-        retries++;
-        if (retries < MAX_RETRIES) {
-          // Exponential backoff: wait 2^retries * 500ms before retrying
-          const delay = Math.pow(2, retries) * 500;
-          console.log(`Retrying transcript fetch in ${delay}ms (attempt ${retries}/${MAX_RETRIES})...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-      } else {
-        // Don't retry for other errors
-        break;
-      }
-    }
+  // Try each provider in order until one has a transcript
+  for (const provider of transcriptProviders) {
+    const fetched = await provider.fetchTranscript(videoId, lang);
+    if (!fetched) continue;
+    
+    console.log(`Transcript for video ${videoId} supplied by ${provider.name}`);
+    await store.set({ videoId, lang }, fetched);
+    return fetched;
   }
   
-  console.error(`Error fetching transcript for video ${videoId}:`, lastError);
+  console.log(`No provider could supply a transcript for video ${videoId}`);
+  await store.set({ videoId, lang }, { videoId, lang: lang || null, entries: [], source: '', fetchedAt: Date.now() });
   return null;
 }
 
+/**
+ * The stored transcript of a video, without asking any provider: for requests that need many
+ * transcripts at once and cannot wait for YouTube (see getTranscriptRecord to fetch the others)
+ * @returns Null when the transcript was never fetched, has expired, or does not exist
+ */
+export async function getStoredTranscriptRecord(videoId: string, options: TranscriptOptions = {}): Promise<StoredTranscript | null> {
+  const { lang } = options;
+  const cached = await getTranscriptStore().get({ videoId, lang });
+  if (!cached || cached.entries.length === 0 || Date.now() - cached.fetchedAt >= TRANSCRIPT_TTL) return null;
+  return { ...cached, source: cached.source || YOUTUBE_PROVIDER_NAME };
+}
+
+/**
+ * Save a user-uploaded transcript for a video and drop any cached copy so it is used right away.
+ * Uploads serve every user, so only the user who uploaded the first file for a video and language can replace it.
+ * @param lang Language of the upload; an upload without a language serves every language
+ * @param uploaderId The user uploading the file
+ * @returns False when another user's upload already exists for this video and language
+ */
+export async function saveUploadedTranscript(
+  videoId: string,
+  entries: TranscriptEntry[],
+  lang: string | undefined,
+  uploaderId: string
+): Promise<boolean> {
+  const store = getUploadedTranscriptStore();
+  const existing = await store.get({ videoId, lang });
+  if (existing && existing.uploadedBy !== uploaderId) return false;
+
+  await store.set({ videoId, lang }, {
+    videoId,
+    lang: lang || null,
+    entries,
+    source: UPLOAD_PROVIDER_NAME,
+    fetchedAt: Date.now(),
+    uploadedBy: uploaderId,
+  });
+  await invalidateTranscript(videoId, lang);
+  return true;
+}
+
+/**
+ * Drop the stored transcript for a video so the next request fetches it again
+ * @param lang Only drop this language; every stored language is dropped when omitted
+ */
+export async function invalidateTranscript(videoId: string, lang?: string): Promise<void> {
+  await getTranscriptStore().invalidate(videoId, lang);
+}
+
 /**
  * Extract transcript snippet around a specific timestamp
  * @param transcript The full transcript
@@ -156,31 +149,56 @@ export function getTranscriptSnippet(
 }
 
 /**
- * Parse a timestamp string in [MM:SS] format to milliseconds
+ * Extract the transcript text spoken during a time range
+ * @param transcript The full transcript
+ * @param startMs Start of the range in milliseconds
+ * @param endMs End of the range in milliseconds
  */
-export function parseTimestamp(timestampStr: string): number | null {
-  const match = timestampStr.match(/\[(\d{1,2}):(\d{2})\]/);
-  if (!match) return null;
+export function getTranscriptRange(
+  transcript: TranscriptEntry[],
+  startMs: number,
+  endMs: number
+): string {
+  if (!transcript || transcript.length === 0) return '';
   
-  const minutes = parseInt(match[1], 10);
-  const seconds = parseInt(match[2], 10);
+  // Keep every entry that overlaps the range
+  const relevantEntries = transcript.filter(entry =>
+    entry.offset < endMs && entry.offset + entry.duration > startMs
+  );
   
-  return (minutes * 60 + seconds) * 1000; // Convert to milliseconds
+  return relevantEntries.map(entry => entry.text).join(' ');
 }
 
 /**
- * Extract timestamps from a message
+ * Parse a bracketed timestamp string ([H:MM:SS] or [MM:SS]) to milliseconds
  */
-export function extractTimestamps(message: string): number[] {
-  const timestampRegex = /\[(\d{1,2}):(\d{2})\]/g;
-  const timestamps: number[] = [];
-  
-  let match;
-  while ((match = timestampRegex.exec(message)) !== null) {
-    const minutes = parseInt(match[1], 10);
-    const seconds = parseInt(match[2], 10);
-    timestamps.push((minutes * 60 + seconds) * 1000); // Convert to milliseconds
-  }
-  
-  return timestamps;
+export function parseTimestamp(timestampStr: string): number | null {
+  const [match] = findTimestamps(timestampStr);
+  return match ? match.seconds * 1000 : null; // Convert to milliseconds
+}
+
+export interface TimestampReference {
+  startMs: number;
+  endMs?: number; // Set when the message references a range like [12:30-14:05]
+  video?: number; // Set when the timestamp is qualified by a video tag like [V2 12:30]
+}
+
+/**
+ * Extract timestamps and timestamp ranges from a message
+ */
+export function extractTimestamps(message: string): TimestampReference[] {
+  return findTimestamps(message).map(match => ({
+    startMs: match.seconds * 1000, // Convert to milliseconds
+    ...(match.endSeconds !== undefined ? { endMs: match.endSeconds * 1000 } : {}),
+    ...(match.video !== undefined ? { video: match.video } : {}),
+  }));
+}
+
+/**
+ * Length of the video covered by the transcript, in seconds
+ */
+export function getTranscriptDuration(transcript: TranscriptEntry[]): number {
+  if (!transcript || transcript.length === 0) return 0;
+  const last = transcript[transcript.length - 1];
+  return Math.ceil((last.offset + last.duration) / 1000);
 }
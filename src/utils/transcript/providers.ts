@@ -0,0 +1,45 @@
+import { getUploadedTranscriptStore, type StoredTranscript } from './store';
+import { youtubeTranscriptProvider } from './youtube';
+
+/**
+ * A source of transcripts. Providers are tried in order until one returns a transcript.
+ */
+export interface TranscriptProvider {
+  name: string;
+  fetchTranscript(videoId: string, lang?: string): Promise<StoredTranscript | null>;
+}
+
+export const UPLOAD_PROVIDER_NAME = 'upload';
+
+/**
+ * SRT/WebVTT files uploaded by users for videos without usable captions
+ */
+export const uploadedTranscriptProvider: TranscriptProvider = {
+  name: UPLOAD_PROVIDER_NAME,
+  async fetchTranscript(videoId: string, lang?: string): Promise<StoredTranscript | null> {
+    const store = getUploadedTranscriptStore();
+    // An upload without a language serves every language request
+    const uploaded = await store.get({ videoId, lang }) || (lang ? await store.get({ videoId }) : null);
+    if (!uploaded || uploaded.entries.length === 0) return null;
+
+    return { ...uploaded, source: UPLOAD_PROVIDER_NAME, fetchedAt: Date.now() };
+  },
+};
+
+// YouTube captions first; uploads fill in when YouTube has nothing
+export const transcriptProviders: TranscriptProvider[] = [
+  youtubeTranscriptProvider,
+  uploadedTranscriptProvider,
+];
+
+/**
+ * Human-readable name of a provider, for prompts and the UI
+ */
+export function describeTranscriptSource(source: string): string {
+  switch (source) {
+    case UPLOAD_PROVIDER_NAME:
+      return 'a subtitle file uploaded by a user';
+    default:
+      return "the video's YouTube captions";
+  }
+}
@@ -0,0 +1,226 @@
+import { formatTime } from '@/utils/formatters';
+import type { TranscriptEntry } from './index';
+
+export interface TranscriptChunk {
+  id: number;
+  start: number; // milliseconds
+  end: number; // milliseconds
+  text: string;
+}
+
+export interface RetrievedPassage extends TranscriptChunk {
+  score: number;
+}
+
+interface IndexedChunk {
+  chunk: TranscriptChunk;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export interface TranscriptIndex {
+  chunks: IndexedChunk[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+// BM25 tuning parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const DEFAULT_WINDOW_MS = 30000; // 30 second windows
+const DEFAULT_OVERLAP_MS = 10000; // 10 seconds shared with the previous window
+
+// Common words that carry no retrieval signal
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does',
+  'for', 'from', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of',
+  'on', 'or', 'she', 'so', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'video', 'was',
+  'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase search terms, dropping punctuation and stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .replace(/'/g, '')
+    .split(/\s+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Group transcript entries into overlapping time windows
+ * @param transcript The full transcript
+ * @param windowMs Length of each window in milliseconds
+ * @param overlapMs How much each window overlaps the previous one in milliseconds
+ */
+export function chunkTranscript(
+  transcript: TranscriptEntry[],
+  windowMs: number = DEFAULT_WINDOW_MS,
+  overlapMs: number = DEFAULT_OVERLAP_MS
+): TranscriptChunk[] {
+  if (!transcript || transcript.length === 0) return [];
+
+  const step = Math.max(windowMs - overlapMs, 1000);
+  const chunks: TranscriptChunk[] = [];
+  let firstIndex = 0;
+
+  for (let windowStart = 0; firstIndex < transcript.length; windowStart += step) {
+    // Skip entries that start before this window
+    while (firstIndex < transcript.length && transcript[firstIndex].offset < windowStart) {
+      firstIndex++;
+    }
+
+    const windowEntries: TranscriptEntry[] = [];
+    for (let i = firstIndex; i < transcript.length && transcript[i].offset < windowStart + windowMs; i++) {
+      windowEntries.push(transcript[i]);
+    }
+
+    if (windowEntries.length === 0) continue;
+
+    const last = windowEntries[windowEntries.length - 1];
+    chunks.push({
+      id: chunks.length,
+      start: windowEntries[0].offset,
+      end: last.offset + last.duration,
+      text: windowEntries.map(entry => entry.text).join(' '),
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Build a BM25 keyword index over transcript chunks
+ */
+export function buildTranscriptIndex(chunks: TranscriptChunk[]): TranscriptIndex {
+  const documentFrequencies = new Map<string, number>();
+  let totalLength = 0;
+
+  const indexed = chunks.map(chunk => {
+    const terms = tokenize(chunk.text);
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+    for (const term of termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    }
+    totalLength += terms.length;
+    return { chunk, termFrequencies, length: terms.length };
+  });
+
+  return {
+    chunks: indexed,
+    documentFrequencies,
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0,
+  };
+}
+
+/**
+ * Score every chunk against the query and return the best matches
+ * @param index The transcript index
+ * @param query The user's question
+ * @param topK Maximum number of passages to return
+ */
+export function searchTranscriptIndex(
+  index: TranscriptIndex,
+  query: string,
+  topK: number = 3
+): RetrievedPassage[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || index.chunks.length === 0) return [];
+
+  const totalChunks = index.chunks.length;
+  const results: RetrievedPassage[] = [];
+
+  for (const { chunk, termFrequencies, length } of index.chunks) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = termFrequencies.get(term);
+      if (!frequency) continue;
+
+      const documentFrequency = index.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (totalChunks - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const normalization = BM25_K1 * (1 - BM25_B + BM25_B * (length / (index.averageLength || 1)));
+      score += idf * (frequency * (BM25_K1 + 1)) / (frequency + normalization);
+    }
+    if (score > 0) {
+      results.push({ ...chunk, score });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+/**
+ * Find the transcript passages most relevant to a question.
+ * The index is rebuilt for every question: stores return a fresh copy of the transcript on each read,
+ * and indexing even a long transcript takes a few milliseconds.
+ * @param transcript The full transcript
+ * @param query The user's question
+ * @param topK Maximum number of passages to return
+ */
+export function retrieveRelevantPassages(
+  transcript: TranscriptEntry[],
+  query: string,
+  topK: number = 3
+): RetrievedPassage[] {
+  if (!transcript || transcript.length === 0) return [];
+
+  const index = buildTranscriptIndex(chunkTranscript(transcript));
+
+  // Present passages in video order so the model reads them chronologically
+  return searchTranscriptIndex(index, query, topK).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * A passage retrieved from one of several transcripts
+ */
+export interface SourcedPassage extends RetrievedPassage {
+  source: number; // Index of the transcript the passage comes from
+}
+
+/**
+ * Find the passages most relevant to a question across several transcripts, such as the videos of a
+ * playlist. All chunks share one index, so scores compare across videos and a term that appears in
+ * every video counts for less than one only a single video covers.
+ * @param transcripts One transcript per video; null for videos without one
+ * @param query The user's question
+ * @param topK Maximum number of passages to return
+ */
+export function retrievePassagesAcrossTranscripts(
+  transcripts: Array<TranscriptEntry[] | null>,
+  query: string,
+  topK: number = 8
+): SourcedPassage[] {
+  const sources: number[] = [];
+  const chunks: TranscriptChunk[] = [];
+  transcripts.forEach((transcript, source) => {
+    for (const chunk of chunkTranscript(transcript || [])) {
+      sources.push(source);
+      chunks.push({ ...chunk, id: chunks.length });
+    }
+  });
+  if (chunks.length === 0) return [];
+
+  return searchTranscriptIndex(buildTranscriptIndex(chunks), query, topK)
+    .map(passage => ({ ...passage, source: sources[passage.id] }))
+    // In course order, then video order
+    .sort((a, b) => a.source - b.source || a.start - b.start);
+}
+
+/**
+ * Format retrieved passages with their [MM:SS] anchors for the prompt
+ * @param longFormat Use [H:MM:SS] anchors, for videos of an hour or more
+ * @param videoTag Qualify the anchors with the video, e.g. [V2 12:34], in multi-video conversations
+ */
+export function formatPassagesForPrompt(passages: RetrievedPassage[], longFormat: boolean = false, videoTag?: string): string {
+  const prefix = videoTag ? `${videoTag} ` : '';
+  return passages
+    .map(passage => `PASSAGE AT [${prefix}${formatTime(passage.start / 1000, longFormat)}] (until ${formatTime(passage.end / 1000, longFormat)}):\n"${passage.text}"`)
+    .join('\n');
+}
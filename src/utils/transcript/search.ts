@@ -0,0 +1,171 @@
+import { formatTime } from '@/utils/formatters';
+import type { TranscriptEntry, TranscriptSearchHit } from '@/types';
+
+interface NormalizedTranscript {
+  fullText: string; // Entry texts joined with single spaces
+  normalized: string; // Lowercase letters and digits separated by single spaces
+  sourceIndex: number[]; // normalized position -> fullText position
+  entryStarts: number[]; // fullText position where each entry begins
+}
+
+const CONTEXT_CHARS = 60;
+const DEFAULT_MAX_HITS = 20;
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace, so "Cache-Control," matches "cache control"
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Join the transcript into one searchable string so phrases split across entries still match
+ */
+function normalizeTranscript(transcript: TranscriptEntry[]): NormalizedTranscript {
+  const entryStarts: number[] = [];
+  let fullText = '';
+  for (const entry of transcript) {
+    if (fullText) fullText += ' ';
+    entryStarts.push(fullText.length);
+    fullText += entry.text;
+  }
+
+  let normalized = '';
+  const sourceIndex: number[] = [];
+  for (let i = 0; i < fullText.length; i++) {
+    const char = fullText[i].toLowerCase();
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      normalized += char;
+      sourceIndex.push(i);
+    } else if (normalized && normalized[normalized.length - 1] !== ' ') {
+      normalized += ' ';
+      sourceIndex.push(i);
+    }
+  }
+
+  return { fullText, normalized, sourceIndex, entryStarts };
+}
+
+/**
+ * Index of the entry containing a position in the joined transcript text
+ */
+function entryIndexAt(entryStarts: number[], position: number): number {
+  let low = 0;
+  let high = entryStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (entryStarts[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * How many typos a query of this length tolerates
+ */
+function maxDistanceFor(query: string): number {
+  if (query.length < 4) return 0;
+  if (query.length < 8) return 1;
+  return Math.min(3, Math.floor(query.length / 6) + 1);
+}
+
+/**
+ * Find approximate occurrences of a query in the transcript.
+ * Matching is case- and punctuation-insensitive, tolerates a few typos, and spans entry boundaries.
+ * @param transcript The full transcript
+ * @param query The text to look for
+ * @param maxHits Maximum number of hits to return
+ * @param longFormat Label hits as [H:MM:SS], for videos of an hour or more
+ */
+export function searchTranscript(
+  transcript: TranscriptEntry[],
+  query: string,
+  maxHits: number = DEFAULT_MAX_HITS,
+  longFormat: boolean = false
+): TranscriptSearchHit[] {
+  const pattern = normalizeSearchText(query);
+  if (!pattern || !transcript || transcript.length === 0) return [];
+
+  const { fullText, normalized, sourceIndex, entryStarts } = normalizeTranscript(transcript);
+  const maxDistance = maxDistanceFor(pattern);
+  const m = pattern.length;
+
+  // Approximate substring matching (Sellers' algorithm): a match may start anywhere in the text,
+  // so row 0 is always zero. Each cell also remembers where its best alignment started.
+  let previousCost = Array.from({ length: m + 1 }, (_, i) => i);
+  let previousStart = new Array<number>(m + 1).fill(0);
+  const candidates: Array<{ start: number; end: number; distance: number }> = [];
+
+  for (let j = 0; j < normalized.length; j++) {
+    const cost = new Array<number>(m + 1);
+    const start = new Array<number>(m + 1);
+    cost[0] = 0;
+    start[0] = j + 1;
+
+    for (let i = 1; i <= m; i++) {
+      const substitution = previousCost[i - 1] + (pattern[i - 1] === normalized[j] ? 0 : 1);
+      const insertion = previousCost[i] + 1;
+      const deletion = cost[i - 1] + 1;
+
+      if (substitution <= insertion && substitution <= deletion) {
+        cost[i] = substitution;
+        start[i] = previousStart[i - 1];
+      } else if (insertion <= deletion) {
+        cost[i] = insertion;
+        start[i] = previousStart[i];
+      } else {
+        cost[i] = deletion;
+        start[i] = start[i - 1];
+      }
+    }
+
+    if (cost[m] <= maxDistance) {
+      candidates.push({ start: start[m], end: j + 1, distance: cost[m] });
+    }
+
+    previousCost = cost;
+    previousStart = start;
+  }
+
+  // Neighbouring end positions describe the same occurrence; keep the closest one of each run
+  const occurrences: typeof candidates = [];
+  for (const candidate of candidates) {
+    const last = occurrences[occurrences.length - 1];
+    if (last && candidate.start < last.end) {
+      if (candidate.distance < last.distance) {
+        occurrences[occurrences.length - 1] = candidate;
+      }
+    } else {
+      occurrences.push(candidate);
+    }
+  }
+
+  return occurrences
+    .sort((a, b) => a.distance - b.distance || a.start - b.start)
+    .slice(0, maxHits)
+    .sort((a, b) => a.start - b.start)
+    .map(({ start, end, distance }) => {
+      const matchStart = sourceIndex[start];
+      const matchEnd = sourceIndex[end - 1] + 1;
+      const entryIndex = entryIndexAt(entryStarts, matchStart);
+      const offset = transcript[entryIndex].offset;
+      const contextStart = Math.max(0, matchStart - CONTEXT_CHARS);
+      const contextEnd = Math.min(fullText.length, matchEnd + CONTEXT_CHARS);
+
+      return {
+        offset,
+        entryIndex,
+        label: `[${formatTime(offset / 1000, longFormat)}]`,
+        before: (contextStart > 0 ? '...' : '') + fullText.slice(contextStart, matchStart),
+        match: fullText.slice(matchStart, matchEnd),
+        after: fullText.slice(matchEnd, contextEnd) + (contextEnd < fullText.length ? '...' : ''),
+        distance,
+      };
+    });
+}
@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getAdminClient } from '@/app/lib/supabase/admin';
+import type { TranscriptEntry } from './index';
+
+export interface StoredTranscript {
+  videoId: string;
+  lang: string | null; // Language of the caption track that was fetched
+  entries: TranscriptEntry[];
+  source: string; // Name of the TranscriptProvider that supplied the transcript
+  fetchedAt: number; // epoch milliseconds
+  uploadedBy?: string; // User who uploaded the subtitle file, for uploaded transcripts
+}
+
+export interface TranscriptKey {
+  videoId: string;
+  lang?: string; // Requested language; undefined means YouTube's default track
+}
+
+/**
+ * Persistent storage for fetched transcripts, shared across requests and instances
+ */
+export interface TranscriptStore {
+  get(key: TranscriptKey): Promise<StoredTranscript | null>;
+  set(key: TranscriptKey, transcript: StoredTranscript): Promise<void>;
+  /** Remove one language of a video, or every language when `lang` is omitted */
+  invalidate(videoId: string, lang?: string): Promise<void>;
+}
+
+// Transcripts rarely change once published, so keep them for a long time
+export const TRANSCRIPT_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+// Kept briefly: captions can be added later, and a failed fetch looks the same as a video without any
+export const MISSING_TRANSCRIPT_TTL = 15 * 60 * 1000; // 15 minutes in milliseconds
+
+const DEFAULT_LANG_KEY = 'default';
+
+function langKey(lang?: string): string {
+  return lang || DEFAULT_LANG_KEY;
+}
+
+/**
+ * In-process store, lost on every cold start. Useful for local development and tests.
+ */
+export class MemoryTranscriptStore implements TranscriptStore {
+  private entries = new Map<string, StoredTranscript>();
+
+  private cacheKey({ videoId, lang }: TranscriptKey): string {
+    return `${videoId}:${langKey(lang)}`;
+  }
+
+  async get(key: TranscriptKey): Promise<StoredTranscript | null> {
+    return this.entries.get(this.cacheKey(key)) || null;
+  }
+
+  async set(key: TranscriptKey, transcript: StoredTranscript): Promise<void> {
+    this.entries.set(this.cacheKey(key), transcript);
+  }
+
+  async invalidate(videoId: string, lang?: string): Promise<void> {
+    if (lang) {
+      this.entries.delete(this.cacheKey({ videoId, lang }));
+      return;
+    }
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(`${videoId}:`)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Store that writes one JSON file per video and language, surviving dev server restarts
+ */
+export class FileTranscriptStore implements TranscriptStore {
+  constructor(private directory: string) {}
+
+  private filePath({ videoId, lang }: TranscriptKey): string {
+    // Video IDs and language codes are URL-safe, but never let them escape the directory
+    const safeName = `${videoId}.${langKey(lang)}`.replace(/[^a-zA-Z0-9_.-]/g, '_');
+    return path.join(this.directory, `${safeName}.json`);
+  }
+
+  async get(key: TranscriptKey): Promise<StoredTranscript | null> {
+    try {
+      const contents = await fs.readFile(this.filePath(key), 'utf8');
+      return JSON.parse(contents) as StoredTranscript;
+    } catch {
+      // Missing or unreadable files are treated as cache misses
+      return null;
+    }
+  }
+
+  async set(key: TranscriptKey, transcript: StoredTranscript): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.filePath(key), JSON.stringify(transcript), 'utf8');
+    } catch (error) {
+      console.error(`Error writing transcript cache file for video ${key.videoId}:`, error);
+    }
+  }
+
+  async invalidate(videoId: string, lang?: string): Promise<void> {
+    try {
+      if (lang) {
+        await fs.rm(this.filePath({ videoId, lang }), { force: true });
+        return;
+      }
+      const files = await fs.readdir(this.directory);
+      await Promise.all(
+        files
+          .filter(file => file.startsWith(`${videoId}.`))
+          .map(file => fs.rm(path.join(this.directory, file), { force: true }))
+      );
+    } catch (error) {
+      console.error(`Error invalidating transcript cache for video ${videoId}:`, error);
+    }
+  }
+}
+
+/**
+ * Store backed by a Supabase table (`transcripts` by default), shared by every serverless instance.
+ * Written with the service-role client: the table is shared by all users, who cannot write it themselves.
+ */
+export class SupabaseTranscriptStore implements TranscriptStore {
+  constructor(private table: string = 'transcripts') {}
+
+  async get({ videoId, lang }: TranscriptKey): Promise<StoredTranscript | null> {
+    const { data, error } = await getAdminClient()
+      .from(this.table)
+      .select('video_id, language, entries, source, fetched_at, uploaded_by')
+      .eq('video_id', videoId)
+      .eq('lang', langKey(lang))
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reading transcript from Supabase:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    return {
+      videoId: data.video_id,
+      lang: data.language,
+      entries: data.entries,
+      source: data.source,
+      fetchedAt: new Date(data.fetched_at).getTime(),
+      ...(data.uploaded_by ? { uploadedBy: data.uploaded_by } : {}),
+    };
+  }
+
+  async set({ videoId, lang }: TranscriptKey, transcript: StoredTranscript): Promise<void> {
+    const { error } = await getAdminClient()
+      .from(this.table)
+      .upsert({
+        video_id: videoId,
+        lang: langKey(lang),
+        language: transcript.lang,
+        entries: transcript.entries,
+        source: transcript.source,
+        fetched_at: new Date(transcript.fetchedAt).toISOString(),
+        uploaded_by: transcript.uploadedBy || null,
+      }, { onConflict: 'video_id,lang' });
+
+    if (error) {
+      console.error('Error saving transcript to Supabase:', error);
+    }
+  }
+
+  async invalidate(videoId: string, lang?: string): Promise<void> {
+    let query = getAdminClient().from(this.table).delete().eq('video_id', videoId);
+    if (lang) {
+      query = query.eq('lang', langKey(lang));
+    }
+    const { error } = await query;
+
+    if (error) {
+      console.error('Error invalidating transcript in Supabase:', error);
+    }
+  }
+}
+
+/**
+ * Create a store of the configured kind.
+ * TRANSCRIPT_STORE selects `supabase`, `file` or `memory`; production defaults to Supabase
+ * and development to the filesystem.
+ */
+function createTranscriptStore(table: string, directory: string): TranscriptStore {
+  const configured = process.env.TRANSCRIPT_STORE
+    || (process.env.NODE_ENV === 'production' ? 'supabase' : 'file');
+
+  switch (configured) {
+    case 'supabase':
+      return new SupabaseTranscriptStore(table);
+    case 'file':
+      return new FileTranscriptStore(path.join(process.cwd(), directory));
+    case 'memory':
+      return new MemoryTranscriptStore();
+    default:
+      console.warn(`Unknown TRANSCRIPT_STORE "${configured}", falling back to in-memory store`);
+      return new MemoryTranscriptStore();
+  }
+}
+
+let transcriptStore: TranscriptStore | null = null;
+let uploadedTranscriptStore: TranscriptStore | null = null;
+
+/**
+ * Get the configured transcript store, the read-through cache in front of every provider
+ */
+export function getTranscriptStore(): TranscriptStore {
+  if (!transcriptStore) {
+    transcriptStore = createTranscriptStore('transcripts', '.transcript-cache');
+  }
+  return transcriptStore;
+}
+
+/**
+ * Get the store holding user-uploaded subtitle files. Entries here never expire.
+ */
+export function getUploadedTranscriptStore(): TranscriptStore {
+  if (!uploadedTranscriptStore) {
+    uploadedTranscriptStore = createTranscriptStore('transcript_uploads', '.transcript-uploads');
+  }
+  return uploadedTranscriptStore;
+}
@@ -0,0 +1,78 @@
+import type { TranscriptEntry } from '@/types';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// "00:01:02,500 --> 00:01:05,000" (SRT) or "01:02.500 --> 01:05.000 align:start" (WebVTT)
+const CUE_TIMING_REGEX = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * Detect whether subtitle file contents are WebVTT or SRT
+ */
+export function detectSubtitleFormat(content: string): SubtitleFormat {
+  return content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT') ? 'vtt' : 'srt';
+}
+
+/**
+ * Parse "HH:MM:SS,mmm", "HH:MM:SS.mmm" or "MM:SS.mmm" into milliseconds
+ */
+function parseCueTime(value: string): number {
+  const [clock, fraction = '0'] = value.split(/[.,]/);
+  const parts = clock.split(':').map(part => parseInt(part, 10));
+  const [hours, minutes, seconds] = parts.length === 3 ? parts : [0, ...parts];
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + parseInt(fraction.padEnd(3, '0'), 10);
+}
+
+/**
+ * Strip styling tags (<i>, <c.color>, <00:00:01.000>) and positioning markup from cue text
+ */
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse an SRT or WebVTT file into transcript entries
+ * @param content The file contents
+ * @param format The subtitle format; detected from the contents when omitted
+ */
+export function parseSubtitles(content: string, format: SubtitleFormat = detectSubtitleFormat(content)): TranscriptEntry[] {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const entries: TranscriptEntry[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    if (lines.length === 0) continue;
+
+    // WebVTT header, comments and style blocks carry no cues
+    if (format === 'vtt' && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    // The timing line follows an optional cue number (SRT) or identifier (WebVTT)
+    const timingIndex = lines.findIndex(line => CUE_TIMING_REGEX.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING_REGEX) as RegExpMatchArray;
+    const text = cleanCueText(lines.slice(timingIndex + 1));
+    if (!text) continue;
+
+    const offset = parseCueTime(start);
+    entries.push({
+      text,
+      offset,
+      duration: Math.max(0, parseCueTime(end) - offset),
+    });
+  }
+
+  return entries.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createTimestampNormalizer, normalizeTimestamps } from './timestampStream';
+
+/**
+ * Stream text through a normalizer in fixed-size chunks
+ * @returns What each push released, and the flushed rest
+ */
+function streamInChunks(text: string, chunkSize: number) {
+  const normalizer = createTimestampNormalizer({ durationSeconds: 3600 });
+  const pushed: string[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    pushed.push(normalizer.push(text.substring(i, i + chunkSize)));
+  }
+  return { pushed, flushed: normalizer.flush() };
+}
+
+describe('normalizeTimestamps', () => {
+  it('brackets bare times and drops times past the end of the video', () => {
+    expect(normalizeTimestamps('See 1:23 and [95:00].', { durationSeconds: 3600 })).toBe('See [01:23] and 95:00.');
+  });
+});
+
+describe('createTimestampNormalizer', () => {
+  it('rewrites a timestamp split across chunks', () => {
+    const text = `${'The speaker explains the idea in detail. '.repeat(3)}It starts at [1:2`;
+    const normalizer = createTimestampNormalizer({ durationSeconds: 3600 });
+    const output = normalizer.push(text) + normalizer.push('3] and goes on.') + normalizer.flush();
+    expect(output).toBe(text.replace('[1:2', '[01:23] and goes on.'));
+  });
+
+  it('streams text without spaces before the end', () => {
+    const text = `${'这个视频讲解了函数的定义和用法，'.repeat(20)}关键部分在[12:30]开始。`;
+    const { pushed, flushed } = streamInChunks(text, 5);
+
+    const streamed = pushed.join('');
+    expect(streamed.length).toBeGreaterThan(text.length - 100);
+    expect(streamed + flushed).toBe(text);
+  });
+
+  it('keeps a spaceless timestamp whole when the cap falls inside it', () => {
+    const text = `${'文'.repeat(100)}[12:30]${'字'.repeat(100)}`;
+    const { pushed, flushed } = streamInChunks(text, 1);
+    expect(pushed.join('') + flushed).toBe(text);
+    expect(pushed.some(piece => piece.includes('[12:30]'))).toBe(true);
+  });
+});
@@ -0,0 +1,189 @@
+import { formatTime, formatVideoTag, parseTime } from '@/utils/timestamps';
+import type { TranscriptEntry } from '@/types';
+
+export interface TimestampNormalizerOptions {
+  durationSeconds?: number; // Timestamps past this are unlinked; unknown means no limit
+  transcript?: TranscriptEntry[] | null; // Entry starts to snap timestamps to
+  longFormat?: boolean; // Emit [H:MM:SS], for videos of an hour or more
+  videos?: TimestampNormalizerOptions[]; // Per video in tag order, for timestamps tagged [V2 12:34]
+}
+
+export interface TimestampNormalizer {
+  /** Feed a chunk of model output; returns the text that is safe to emit so far */
+  push(chunk: string): string;
+  /** Return whatever is still held back, at the end of the stream */
+  flush(): string;
+}
+
+const TIME = '(?:\\d{1,2}:)?\\d{1,3}:\\d{2}';
+
+// Alternatives, tried left to right at each position:
+// 1-3: "[12:34]", "[1:02:03]" and ranges "[12:30-14:05]", optionally tagged with a video "[V2 12:34]"
+// 4: "TIMESTAMP_185" (seconds), with or without brackets
+// 5-6: bare "12:34", "1:02:03" and ranges "12:30-14:05" / "12:30 to 14:05", but not times of day
+// 7-10: "at 3 minutes", "around 1 hour 2 minutes", "from the 2 minute 30 second mark"
+const TIMESTAMP_LIKE_REGEX = new RegExp([
+  `\\[\\s*(?:V(\\d{1,2})\\s+)?(${TIME})(?:\\s*[-–]\\s*(${TIME}))?\\s*\\]`,
+  `\\[?TIMESTAMP_(\\d+)\\]?`,
+  `(?<![\\w:.[])(${TIME})(?:\\s*(?:[-–]|to)\\s*(${TIME}))?(?![\\w:]|\\s*(?:am|pm|a\\.m\\.|p\\.m\\.)(?!\\w))`,
+  `\\b(at|around|from)\\s+(?:the\\s+)?(?=\\d+[\\s-]*(?:hours?|hrs?|minutes?|mins?|seconds?|secs?)\\b)`
+    + `(?:(\\d+)[\\s-]*(?:hours?|hrs?)\\b(?:,?\\s+(?:and\\s+)?(?=\\d))?)?`
+    + `(?:(\\d+)[\\s-]*(?:minutes?|mins?)\\b(?:,?\\s+(?:and\\s+)?(?=\\d))?)?`
+    + `(?:(\\d+)[\\s-]*(?:seconds?|secs?)\\b)?(?:\\s+mark\\b)?`,
+].join('|'), 'gi');
+
+// Longer than any timestamp-like phrase, so a held-back tail always contains the whole of a split one
+const HOLDBACK_CHARS = 64;
+
+// Characters that are part of a bare time, or stop one from matching right after them (see the lookbehind above)
+const BARE_TIME_CONTEXT = /[\w:.[]/;
+
+/**
+ * Start of the transcript entry nearest to a position
+ */
+function snapToEntryStart(transcript: TranscriptEntry[], seconds: number): number {
+  const ms = seconds * 1000;
+  let low = 0;
+  let high = transcript.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (transcript[mid].offset < ms) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  const after = transcript[low];
+  const before = transcript[Math.max(0, low - 1)];
+  const nearest = Math.abs(before.offset - ms) <= Math.abs(after.offset - ms) ? before : after;
+  return Math.floor(nearest.offset / 1000);
+}
+
+/**
+ * Rewrite the timestamp-like tokens that end before `limit`, matching against the whole text
+ * so that context after the limit (e.g. "am" in "10:30 am") is still taken into account.
+ * @returns The rewritten text up to where it is safe to stop, and how much of the input that covers
+ */
+function normalizeUntil(
+  text: string,
+  limit: number,
+  options: TimestampNormalizerOptions
+): { output: string; consumed: number } {
+  const { durationSeconds, longFormat = false } = options;
+  const isInVideo = (seconds: number) => !durationSeconds || seconds <= durationSeconds;
+
+  // Times past the end of the video keep their original text, minus the brackets.
+  // A video tag is kept and the time is checked against that video.
+  const render = (start: number, end: number | null, original: string, video?: number): string => {
+    const videoOptions = video !== undefined && options.videos ? options.videos[video - 1] : options;
+    if (!videoOptions) {
+      // A tag for a video that is not in the conversation
+      return original.replace(/^\[|\]$/g, '');
+    }
+    const { durationSeconds: videoDuration, transcript, longFormat: videoLongFormat = false } = videoOptions;
+    if (videoDuration && start > videoDuration) {
+      return original.replace(/^\[|\]$/g, '');
+    }
+    const snappedStart = transcript && transcript.length > 0 ? snapToEntryStart(transcript, start) : start;
+    const prefix = video !== undefined ? `${formatVideoTag(video - 1)} ` : '';
+    if (end === null || end <= start) {
+      return `[${prefix}${formatTime(snappedStart, videoLongFormat)}]`;
+    }
+    // The end of a range is kept inside the video but not snapped, so the segment is not cut short
+    const clampedEnd = videoDuration ? Math.min(end, videoDuration) : end;
+    return clampedEnd > snappedStart
+      ? `[${prefix}${formatTime(snappedStart, videoLongFormat)}-${formatTime(clampedEnd, videoLongFormat)}]`
+      : `[${prefix}${formatTime(snappedStart, videoLongFormat)}]`;
+  };
+
+  const replace = (match: RegExpExecArray): string => {
+    const [original, video, bracketStart, bracketEnd, timestampX, bareStart, bareEnd, preposition, hours, minutes, seconds] = match;
+
+    if (bracketStart !== undefined || bareStart !== undefined) {
+      const start = parseTime(bracketStart ?? bareStart);
+      const endPart = bracketStart !== undefined ? bracketEnd : bareEnd;
+      const end = endPart !== undefined ? parseTime(endPart) : null;
+      return start === null ? original : render(start, end, original, video !== undefined ? parseInt(video, 10) : undefined);
+    }
+
+    if (timestampX !== undefined) {
+      const total = parseInt(timestampX, 10);
+      return render(total, null, formatTime(total, longFormat));
+    }
+
+    if (preposition !== undefined) {
+      if (hours === undefined && minutes === undefined && seconds === undefined) return original;
+      const total = parseInt(hours || '0', 10) * 3600 + parseInt(minutes || '0', 10) * 60 + parseInt(seconds || '0', 10);
+      if (!isInVideo(total)) return original;
+      // Keep the whitespace that followed the phrase
+      const trailing = original.match(/\s*$/)?.[0] || '';
+      return `${preposition} ${render(total, null, original)}${trailing}`;
+    }
+
+    return original;
+  };
+
+  const regex = new RegExp(TIMESTAMP_LIKE_REGEX.source, TIMESTAMP_LIKE_REGEX.flags);
+  let output = '';
+  let position = 0;
+  let match;
+  while ((match = regex.exec(text)) !== null && match.index < limit) {
+    if (match.index + match[0].length > limit) {
+      // Still being written, or cut by the limit: stop right before it
+      return { output: output + text.substring(position, match.index), consumed: match.index };
+    }
+    output += text.substring(position, match.index) + replace(match);
+    position = match.index + match[0].length;
+  }
+
+  return { output: output + text.substring(position, limit), consumed: limit };
+}
+
+/**
+ * Rewrite every timestamp-like token in a piece of text as a canonical [MM:SS] / [H:MM:SS]
+ * timestamp or range, snapped to the transcript. Times past the end of the video are left
+ * as plain, unbracketed text so they do not become seek links.
+ */
+export function normalizeTimestamps(text: string, options: TimestampNormalizerOptions = {}): string {
+  return normalizeUntil(text, text.length, options).output;
+}
+
+/**
+ * Create a normalizer for streamed model output. Chunks can split a timestamp anywhere
+ * ("[12:" + "34]"), so the tail of the text is held back until it can no longer be part
+ * of a timestamp that is still being written.
+ */
+export function createTimestampNormalizer(options: TimestampNormalizerOptions = {}): TimestampNormalizer {
+  let pending = '';
+
+  return {
+    push(chunk: string): string {
+      pending += chunk;
+      if (pending.length <= HOLDBACK_CHARS) return '';
+
+      // Stop on whitespace so no token is split
+      const cap = pending.length - HOLDBACK_CHARS;
+      let limit = Math.max(pending.lastIndexOf(' ', cap), pending.lastIndexOf('\n', cap));
+      if (limit < cap - HOLDBACK_CHARS) {
+        // No recent whitespace (Chinese or Japanese text, a long URL or code): stop at the cap anyway,
+        // but outside a run of characters that decide whether a bare time starts there
+        limit = cap;
+        while (limit > 0 && BARE_TIME_CONTEXT.test(pending[limit - 1]) && BARE_TIME_CONTEXT.test(pending[limit])) {
+          limit--;
+        }
+        if (limit === 0) limit = cap;
+      }
+      if (limit <= 0) return '';
+
+      const { output, consumed } = normalizeUntil(pending, limit, options);
+      pending = pending.substring(consumed);
+      return output;
+    },
+
+    flush(): string {
+      const rest = pending;
+      pending = '';
+      return normalizeTimestamps(rest, options);
+    },
+  };
+}
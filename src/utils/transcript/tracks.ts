@@ -0,0 +1,48 @@
+import { CaptionTrack } from '@/types';
+
+interface RawCaptionTrack {
+  languageCode: string;
+  kind?: string;
+  name?: {
+    simpleText?: string;
+    runs?: Array<{ text: string }>;
+  };
+}
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/85.0.4183.83 Safari/537.36,gzip(gfe)';
+
+/**
+ * List the caption tracks YouTube offers for a video.
+ * Reads the same player response that youtube-transcript uses to pick a track.
+ * @returns The available tracks, an empty array if the video has no captions, or null on failure
+ */
+export async function listCaptionTracks(videoId: string): Promise<CaptionTrack[] | null> {
+  try {
+    const response = await fetch(`https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`, {
+      headers: { 'User-Agent': USER_AGENT },
+    });
+    if (!response.ok) {
+      console.error(`Error fetching watch page for video ${videoId}: ${response.status}`);
+      return null;
+    }
+
+    const body = await response.text();
+    const [, captionsSection] = body.split('"captions":');
+    if (!captionsSection) {
+      // Captions are disabled or the video is unavailable
+      return [];
+    }
+
+    const captions = JSON.parse(captionsSection.split(',"videoDetails')[0].replace('\n', ''));
+    const rawTracks: RawCaptionTrack[] = captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+
+    return rawTracks.map(track => ({
+      languageCode: track.languageCode,
+      name: track.name?.simpleText || track.name?.runs?.map(run => run.text).join('') || track.languageCode,
+      isAutoGenerated: track.kind === 'asr',
+    }));
+  } catch (error) {
+    console.error(`Error listing caption tracks for video ${videoId}:`, error);
+    return null;
+  }
+}
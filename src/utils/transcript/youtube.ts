@@ -0,0 +1,137 @@
+import { YoutubeTranscript } from 'youtube-transcript';
+import type { TranscriptEntry } from '@/types';
+import type { StoredTranscript } from './store';
+import type { TranscriptProvider } from './providers';
+
+export const YOUTUBE_PROVIDER_NAME = 'youtube';
+
+// Track rate limiting for transcript API
+interface RateLimitTracker {
+  lastRequestTime: number;
+  requestCount: number;
+  resetTime: number;
+}
+
+const rateLimitTracker: RateLimitTracker = {
+  lastRequestTime: 0,
+  requestCount: 0,
+  resetTime: Date.now() + 60000 // Reset after 1 minute initially
+};
+
+// Maximum requests per minute to avoid rate limiting
+const MAX_REQUESTS_PER_MINUTE = 10;
+
+/**
+ * Captions scraped from YouTube's own caption tracks
+ */
+export const youtubeTranscriptProvider: TranscriptProvider = {
+  name: YOUTUBE_PROVIDER_NAME,
+  fetchTranscript: fetchTranscriptFromYouTube,
+};
+
+/**
+ * Fetch transcript for a YouTube video with rate limiting and retries
+ */
+async function fetchTranscriptFromYouTube(videoId: string, lang?: string): Promise<StoredTranscript | null> {
+  const now = Date.now();
+  
+  // Check rate limiting
+  if (now > rateLimitTracker.resetTime) {
+    // Reset counter if we're past the reset time
+    rateLimitTracker.requestCount = 0;
+    rateLimitTracker.resetTime = now + 60000; // Reset after 1 minute
+  }
+  
+  if (rateLimitTracker.requestCount >= MAX_REQUESTS_PER_MINUTE) {
+    // Calculate time to wait before next request
+    const timeToWait = rateLimitTracker.resetTime - now;
+    if (timeToWait > 0) {
+      console.log(`Rate limit reached for transcript API. Waiting ${timeToWait}ms before retrying.`);
+      // Wait until reset time
+      await new Promise(resolve => setTimeout(resolve, timeToWait + 100)); // Add 100ms buffer
+      // Recursively call this function after waiting
+      return fetchTranscriptFromYouTube(videoId, lang);
+    }
+  }
+  
+  // Implement retry logic
+  const MAX_RETRIES = 3;
+  let retries = 0;
+  let lastError: Error | unknown = null;
+  
+  while (retries < MAX_RETRIES) {
+    try {
+      // Update rate limit tracking
+      rateLimitTracker.lastRequestTime = Date.now();
+      rateLimitTracker.requestCount++;
+      
+      console.log(`Fetching transcript for video ${videoId} (attempt ${retries + 1}/${MAX_RETRIES})`);
+      const response = await YoutubeTranscript.fetchTranscript(videoId, lang ? { lang } : undefined);
+      
+      if (!response || response.length === 0) {
+        console.log(`No transcript available for video ${videoId}`);
+        return null;
+      }
+      
+      // youtube-transcript reports offset and duration in seconds; everything here works in milliseconds
+      const transcript: TranscriptEntry[] = response.map(entry => ({
+        text: decodeHtmlEntities(entry.text),
+        offset: Math.round(entry.offset * 1000),
+        duration: Math.round(entry.duration * 1000)
+      }));
+      
+      return {
+        videoId,
+        lang: response[0].lang || lang || null,
+        entries: transcript,
+        source: YOUTUBE_PROVIDER_NAME,
+        fetchedAt: Date.now()
+      };
+    } catch (error: unknown) {
+      lastError = error;
+      
+      // Check if this is a rate limiting or temporary error
+      const errorObj = error as Record<string, unknown>;
+      const errorMessage = typeof errorObj.message === 'string' ? errorObj.message : '';
+      const isRateLimited = 
+        errorMessage.includes('rate') || 
+        errorMessage.includes('429') || 
+        errorMessage.includes('too many');
+        
+      const isTemporaryError = 
+        errorMessage.includes('timeout') || 
+        errorMessage.includes('network') || 
+        errorMessage.includes('temporary');
+      
+      if (isRateLimited || isTemporaryError) {
+        retries++;
+        if (retries < MAX_RETRIES) {
+          // Exponential backoff: wait 2^retries * 500ms before retrying
+          const delay = Math.pow(2, retries) * 500;
+          console.log(`Retrying transcript fetch in ${delay}ms (attempt ${retries}/${MAX_RETRIES})...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+      } else {
+        // Don't retry for other errors
+        break;
+      }
+    }
+  }
+  
+  console.error(`Error fetching transcript for video ${videoId}:`, lastError);
+  return null;
+}
+
+/**
+ * Decode the HTML entities YouTube leaves in caption text (often double-escaped, e.g. "&amp;#39;")
+ */
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ');
+}
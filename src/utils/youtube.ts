@@ -0,0 +1,31 @@
+// src/utils/youtube.ts
+
+const VIDEO_ID_REGEX = /^[\w-]{11}$/;
+
+/**
+ * Get the video ID from a YouTube URL (watch, youtu.be, embed or shorts link) or a bare ID
+ * @returns The 11-character video ID, or null when the input is not a YouTube video
+ */
+export function extractVideoId(input: string): string | null {
+  const trimmed = input.trim();
+  if (VIDEO_ID_REGEX.test(trimmed)) return trimmed;
+
+  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|shorts\/|watch\?v=|&v=)([^#&?]*).*/;
+  const match = trimmed.match(regExp);
+  return (match && VIDEO_ID_REGEX.test(match[2])) ? match[2] : null;
+}
+
+const PLAYLIST_ID_REGEX = /^(PL|UU|FL|OL|LL)[\w-]{10,}$/;
+
+/**
+ * Get the playlist ID from a YouTube playlist URL, a watch URL inside a playlist, or a bare playlist ID.
+ * Mixes (list=RD...) are generated per viewer and cannot be listed, so they are not treated as playlists.
+ * @returns The playlist ID, or null when the input is not a YouTube playlist
+ */
+export function extractPlaylistId(input: string): string | null {
+  const trimmed = input.trim();
+  if (PLAYLIST_ID_REGEX.test(trimmed)) return trimmed;
+
+  const match = trimmed.match(/[?&]list=([\w-]+)/);
+  return match && PLAYLIST_ID_REGEX.test(match[1]) ? match[1] : null;
+}